@@ -0,0 +1,123 @@
+/**
+ * Heart Socket - 告警历史
+ *
+ * 持久化所有告警与提醒（心率规则、心率骤升、久坐、姿态、心流、信号丢失），
+ * 记录触发时间、类型、关键数值以及用户的响应（暂停 / 关闭 / 调整阈值），
+ * 供 Stats 面板「告警」页浏览和历史日历按日计数。
+ *
+ * 存储结构（globalState，告警频率低，每次变更立即写入）：
+ * - key: `alertHistory-YYYY-MM-DD`
+ * - value: AlertRecord[]（按时间升序）
+ */
+import * as vscode from 'vscode';
+import type { AlertRecord, AlertResponse } from './types';
+
+/** 最大保留天数（与每日摘要一致） */
+const MAX_RETENTION_DAYS = 90;
+/** globalState key 前缀 */
+const KEY_PREFIX = 'alertHistory-';
+
+export class AlertHistory {
+  private context: vscode.ExtensionContext;
+  private sequence: number = 0;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.cleanupOldData();
+  }
+
+  /**
+   * 记录一条告警
+   * @returns 记录 ID
+   */
+  record(entry: Omit<AlertRecord, 'id'> & { id?: string }): string {
+    const record: AlertRecord = { ...entry, id: entry.id ?? this.createId(entry.timestamp) };
+    const date = this.toDateString(record.timestamp);
+    const records = this.getDay(date);
+    records.push(record);
+    this.context.globalState.update(KEY_PREFIX + date, records);
+    return record.id;
+  }
+
+  /**
+   * 回写用户响应（ID 须以触发时间戳开头）
+   */
+  setResponse(id: string, response: AlertResponse): void {
+    const timestamp = Number(id.split('-')[0]);
+    if (!Number.isFinite(timestamp)) { return; }
+
+    const date = this.toDateString(timestamp);
+    const records = this.getDay(date);
+    const record = records.find((r) => r.id === id);
+    if (!record) { return; }
+    record.response = response;
+    record.respondedAt = Date.now();
+    this.context.globalState.update(KEY_PREFIX + date, records);
+  }
+
+  /**
+   * 获取某日的告警记录（按时间升序）
+   */
+  getDay(date: string): AlertRecord[] {
+    return [...(this.context.globalState.get<AlertRecord[]>(KEY_PREFIX + date) ?? [])];
+  }
+
+  /**
+   * 获取最近若干天的告警记录（按时间倒序）
+   */
+  getRecent(days: number, limit: number): AlertRecord[] {
+    const cutoff = this.toDateString(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+    const records: AlertRecord[] = [];
+    for (const date of this.getAvailableDates().reverse()) {
+      if (date < cutoff) { break; }
+      records.push(...this.getDay(date).reverse());
+      if (records.length >= limit) { break; }
+    }
+    return records.slice(0, limit);
+  }
+
+  /**
+   * 获取指定月份每天的告警次数
+   */
+  getMonthCounts(year: number, month: number): Record<string, number> {
+    const prefix = `${year}-${String(month).padStart(2, '0')}`;
+    const counts: Record<string, number> = {};
+    for (const date of this.getAvailableDates()) {
+      if (date.startsWith(prefix)) {
+        counts[date] = this.getDay(date).length;
+      }
+    }
+    return counts;
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  /**
+   * 生成记录 ID（以时间戳开头，回写响应时据此定位存储分片）
+   */
+  private createId(timestamp: number): string {
+    this.sequence++;
+    return `${timestamp}-${this.sequence}`;
+  }
+
+  private getAvailableDates(): string[] {
+    return this.context.globalState.keys()
+      .filter(k => k.startsWith(KEY_PREFIX))
+      .map(k => k.substring(KEY_PREFIX.length))
+      .sort();
+  }
+
+  private cleanupOldData(): void {
+    const cutoff = this.toDateString(Date.now() - MAX_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    for (const date of this.getAvailableDates()) {
+      if (date < cutoff) {
+        this.context.globalState.update(KEY_PREFIX + date, undefined);
+      }
+    }
+  }
+
+  private toDateString(ts: number): string {
+    const d = new Date(ts);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  }
+}
@@ -1,46 +1,208 @@
 /**
  * Heart Socket - 告警管理器
  *
- * 负责高/低心率告警通知：
- * - 超过高心率阈值时弹窗告警
- * - 低于低心率阈值时弹窗告警
- * - 冷却时间内不重复告警
+ * 基于规则的告警引擎（heartSocket.alertRules）：
+ * - 每条规则组合心率 / 区间 / 姿态 / 敲代码强度 / 心流 / 血氧 / 时段条件
+ * - 条件持续满足达到规则设定时长后触发，告警后需回到回差区间之外才重新布防
+ * - 每条规则独立的严重程度、消息模板、冷却时间和动作（弹窗 / 状态栏闪烁 / 执行命令）
+ * - 未配置规则时，由 alertHighBpm / alertLowBpm 生成默认高/低心率规则
+ * - 静坐（静息 / 打字 / 鼠标）时心率在短时间内骤升时告警（与绝对阈值无关）
+ *
+ * 事件：
+ * - alert: 告警触发（AlertEvent）
+ * - alertResponse: 用户对弹窗的响应 { id, response }
  */
 import * as vscode from 'vscode';
-import type { HeartRateData, HeartSocketConfig } from './types';
+import { EventEmitter } from 'events';
+import type {
+  AlertAction,
+  AlertEvent,
+  AlertResponse,
+  AlertRule,
+  AlertSeverity,
+  CodingIntensityLevel,
+  HealthData,
+  HeartRateData,
+  HeartRateZoneName,
+  HeartSocketConfig,
+  MotionAnalysisResult,
+  PostureState,
+} from './types';
+
+/** 单条规则的告警状态 */
+interface AlertEpisode {
+  /** 条件开始满足的时间 (ms)，0 表示当前未命中 */
+  since: number;
+  /** 本次命中期间的峰值（低心率规则为最低值） */
+  peak: number;
+  /** 本次命中是否已告警（回到回差区间之外前不再告警） */
+  fired: boolean;
+  /** 告警暂停截止时间 */
+  pausedUntil: number;
+}
+
+/** 规则求值上下文 */
+interface AlertContext {
+  bpm: number;
+  zone: HeartRateZoneName;
+  posture: PostureState;
+  codingIntensity: CodingIntensityLevel;
+  inFlow: boolean;
+  /** 最近的血氧读数 (%)，无数据或已过期时为 null */
+  spo2: number | null;
+  /** 本地时间（当日分钟数） */
+  minuteOfDay: number;
+}
+
+/** 相邻样本间隔超过此值时视为数据中断，重新计时 (ms) */
+const SAMPLE_GAP_MS = 15 * 1000;
+
+/** 血氧读数有效期 (ms)：手表约每几分钟测量一次 */
+const SPO2_STALE_MS = 10 * 60 * 1000;
+
+/** 「暂停告警」按钮的暂停时长 (ms) */
+const PAUSE_MS = 10 * 60 * 1000;
+
+/** 视为「静坐」的姿态：此时的心率骤升无法用体力活动解释 */
+const DESK_POSTURES: PostureState[] = ['resting', 'typing', 'mousing'];
+
+/** 心率骤升告警的内置规则 ID */
+const SPIKE_RULE_ID = 'spike';
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  error: '🚨',
+};
+
+function createEpisode(): AlertEpisode {
+  return { since: 0, peak: 0, fired: false, pausedUntil: 0 };
+}
+
+/**
+ * 由旧版阈值配置生成默认规则（alertRules 为空时使用，也用于迁移到 alertRules）
+ */
+export function buildDefaultAlertRules(config: HeartSocketConfig): AlertRule[] {
+  return [
+    {
+      id: 'high-bpm',
+      name: '高心率',
+      conditions: { bpmAbove: config.alertHighBpm },
+      durationSeconds: config.alertSustainSeconds,
+      severity: 'error',
+      message: `🚨 高心率警告！心率已持续 {duration}超过阈值 ${config.alertHighBpm} BPM（峰值 {peak} BPM，当前 {bpm} BPM）`,
+      cooldownSeconds: config.alertCooldown,
+      actions: ['notification'],
+    },
+    {
+      id: 'low-bpm',
+      name: '低心率',
+      conditions: { bpmBelow: config.alertLowBpm },
+      durationSeconds: config.alertSustainSeconds,
+      severity: 'warning',
+      message: `⚠️ 低心率提醒！心率已持续 {duration}低于阈值 ${config.alertLowBpm} BPM（最低 {peak} BPM，当前 {bpm} BPM）`,
+      cooldownSeconds: config.alertCooldown,
+      actions: ['notification'],
+    },
+  ];
+}
+
+/**
+ * 解析 "HH:MM" 为当日分钟数
+ * @returns 格式错误时返回 null
+ */
+function parseTimeOfDay(text: string | undefined): number | null {
+  const match = text?.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) { return null; }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) { return null; }
+  return hours * 60 + minutes;
+}
 
-export class AlertManager {
+export class AlertManager extends EventEmitter {
   private config: HeartSocketConfig;
-  /** 高心率告警暂停截止时间 */
-  private highAlertPausedUntil: number = 0;
-  /** 低心率告警暂停截止时间 */
-  private lowAlertPausedUntil: number = 0;
+  private rules: AlertRule[] = [];
+  /** 规则 ID → 告警状态 */
+  private episodes: Map<string, AlertEpisode> = new Map();
+  private lastSampleTime: number = 0;
+
+  // ── 求值上下文 ──
+  private posture: PostureState = 'resting';
+  private codingIntensity: CodingIntensityLevel = 'idle';
+  private inFlow: boolean = false;
+  private spo2: number | null = null;
+  private spo2Time: number = 0;
+
+  // ── 心率骤升 ──
+  /** 窗口内的心率样本 */
+  private spikeSamples: Array<{ ts: number; bpm: number }> = [];
+  private spikePausedUntil: number = 0;
+  /** 最近一次处于非静坐姿态的时间（窗口内有过走动 / 活动则不判定骤升） */
+  private lastNonDeskTime: number = 0;
 
   constructor(config: HeartSocketConfig) {
+    super();
     this.config = config;
+    this.loadRules();
   }
 
   /**
    * 检查心率是否需要告警
+   * @param zone 当前心率所在区间
    */
-  check(data: HeartRateData): void {
+  check(data: HeartRateData, zone: HeartRateZoneName): void {
     const now = Date.now();
-    const cooldownMs = this.config.alertCooldown * 1000;
 
-    // 高心率告警
-    if (data.bpm >= this.config.alertHighBpm) {
-      if (now > this.highAlertPausedUntil) {
-        this.highAlertPausedUntil = now + cooldownMs;
-        this.showHighAlert(data.bpm);
+    // 数据中断后重新计时，避免把断线前后的两段拼成一次「持续」命中
+    if (this.lastSampleTime > 0 && now - this.lastSampleTime > SAMPLE_GAP_MS) {
+      for (const episode of this.episodes.values()) {
+        episode.since = 0;
       }
+      this.spikeSamples = [];
     }
+    this.lastSampleTime = now;
 
-    // 低心率告警
-    if (data.bpm <= this.config.alertLowBpm) {
-      if (now > this.lowAlertPausedUntil) {
-        this.lowAlertPausedUntil = now + cooldownMs;
-        this.showLowAlert(data.bpm);
-      }
+    const date = new Date(now);
+    const context: AlertContext = {
+      bpm: data.bpm,
+      zone,
+      posture: this.posture,
+      codingIntensity: this.codingIntensity,
+      inFlow: this.inFlow,
+      spo2: this.spo2 !== null && now - this.spo2Time <= SPO2_STALE_MS ? this.spo2 : null,
+      minuteOfDay: date.getHours() * 60 + date.getMinutes(),
+    };
+
+    for (const rule of this.rules) {
+      if (rule.enabled === false) { continue; }
+      this.evaluate(rule, context, now);
+    }
+
+    // 心率骤升告警
+    this.checkSpike(now, data.bpm);
+  }
+
+  /**
+   * 更新 Motion 分析结果（姿态 / 敲代码强度 / 心流）
+   */
+  updateMotionAnalysis(result: MotionAnalysisResult): void {
+    if (!DESK_POSTURES.includes(result.posture) || !DESK_POSTURES.includes(this.posture)) {
+      this.lastNonDeskTime = Date.now();
+    }
+    this.posture = result.posture;
+    this.codingIntensity = result.codingIntensity;
+    this.inFlow = result.flowState.active;
+  }
+
+  /**
+   * 更新健康数据（目前仅使用血氧）
+   */
+  updateHealthData(data: HealthData): void {
+    if (data.type === 'bloodOxygen') {
+      // 兼容 0-1 小数与百分比两种单位
+      this.spo2 = data.value <= 1 ? data.value * 100 : data.value;
+      this.spo2Time = Date.now();
     }
   }
 
@@ -49,49 +211,247 @@ export class AlertManager {
    */
   updateConfig(config: HeartSocketConfig): void {
     this.config = config;
+    this.loadRules();
   }
 
   /**
    * 重置告警状态
    */
   reset(): void {
-    this.highAlertPausedUntil = 0;
-    this.lowAlertPausedUntil = 0;
+    this.episodes.clear();
+    this.lastSampleTime = 0;
+    this.spikeSamples = [];
+    this.spikePausedUntil = 0;
   }
 
-  // ─── 私有方法 ───────────────────────────────────
+  // ─── 私有方法：规则引擎 ─────────────────────────
 
-  private showHighAlert(bpm: number): void {
-    const message = `🚨 高心率警告！当前心率 ${bpm} BPM 超过阈值 ${this.config.alertHighBpm} BPM`;
-    vscode.window
-      .showWarningMessage(message, '暂停告警', '调整阈值')
-      .then((action) => {
-        if (action === '调整阈值') {
-          vscode.commands.executeCommand(
-            'workbench.action.openSettings',
-            'heartSocket.alertHighBpm'
-          );
-        } else if (action === '暂停告警') {
-          // 暂停 10 分钟
-          this.highAlertPausedUntil = Date.now() + 10 * 60 * 1000;
+  /**
+   * 加载规则；保留 ID 未变的规则的计时 / 冷却状态
+   */
+  private loadRules(): void {
+    this.rules = this.config.alertRules.length > 0
+      ? this.config.alertRules
+      : buildDefaultAlertRules(this.config);
+
+    const ids = new Set(this.rules.map((rule) => rule.id));
+    for (const id of [...this.episodes.keys()]) {
+      if (!ids.has(id)) {
+        this.episodes.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 推进单条规则的告警状态
+   */
+  private evaluate(rule: AlertRule, context: AlertContext, now: number): void {
+    let episode = this.episodes.get(rule.id);
+    if (!episode) {
+      episode = createEpisode();
+      this.episodes.set(rule.id, episode);
+    }
+
+    // 仅有低心率条件的规则记录最低值，其余记录最高值
+    const tracksMinimum = rule.conditions.bpmBelow !== undefined && rule.conditions.bpmAbove === undefined;
+
+    if (this.matches(rule, context, 0)) {
+      if (episode.since === 0) {
+        episode.since = now;
+        episode.peak = context.bpm;
+      } else {
+        episode.peak = tracksMinimum ? Math.min(episode.peak, context.bpm) : Math.max(episode.peak, context.bpm);
+      }
+
+      const duration = now - episode.since;
+      if (!episode.fired && duration >= (rule.durationSeconds ?? 0) * 1000 &&
+          now > episode.pausedUntil) {
+        episode.fired = true;
+        episode.pausedUntil = now + (rule.cooldownSeconds ?? this.config.alertCooldown) * 1000;
+        this.fire(rule, context, episode, duration, now);
+      }
+      return;
+    }
+
+    const hysteresis = rule.hysteresisBpm ?? this.config.alertHysteresisBpm;
+    if (!this.matches(rule, context, hysteresis)) {
+      // 回到回差区间之外：重新布防
+      episode.since = 0;
+      episode.fired = false;
+    } else if (!episode.fired) {
+      // 在回差区间内但尚未告警：持续条件被打断，重新计时
+      episode.since = 0;
+    }
+  }
+
+  /**
+   * 判断规则条件是否全部满足
+   * @param relaxBpm 心率条件放宽的幅度（用于回差判断）
+   */
+  private matches(rule: AlertRule, context: AlertContext, relaxBpm: number): boolean {
+    const c = rule.conditions;
+    if (c.bpmAbove !== undefined && context.bpm < c.bpmAbove - relaxBpm) { return false; }
+    if (c.bpmBelow !== undefined && context.bpm > c.bpmBelow + relaxBpm) { return false; }
+    if (c.zones?.length && !c.zones.includes(context.zone)) { return false; }
+    if (c.postures?.length && !c.postures.includes(context.posture)) { return false; }
+    if (c.codingIntensities?.length && !c.codingIntensities.includes(context.codingIntensity)) { return false; }
+    if (c.inFlow !== undefined && c.inFlow !== context.inFlow) { return false; }
+    if (c.spo2Below !== undefined && (context.spo2 === null || context.spo2 >= c.spo2Below)) { return false; }
+    return this.inTimeWindow(c.after, c.before, context.minuteOfDay);
+  }
+
+  private inTimeWindow(after: string | undefined, before: string | undefined, minute: number): boolean {
+    const start = parseTimeOfDay(after);
+    const end = parseTimeOfDay(before);
+    if (start !== null && end !== null) {
+      // 起点晚于终点：跨午夜（如 22:00 - 06:00）
+      return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+    }
+    if (start !== null) { return minute >= start; }
+    if (end !== null) { return minute < end; }
+    return true;
+  }
+
+  /**
+   * 触发规则：渲染消息并执行动作
+   */
+  private fire(rule: AlertRule, context: AlertContext, episode: AlertEpisode, durationMs: number, now: number): void {
+    const severity = rule.severity ?? 'warning';
+    const name = rule.name ?? rule.id;
+    const template = rule.message ??
+      `${SEVERITY_ICONS[severity]} 告警「{name}」：当前心率 {bpm} BPM，已持续 {duration}`;
+    const date = new Date(now);
+    const vars: Record<string, string> = {
+      name,
+      bpm: String(context.bpm),
+      peak: String(episode.peak),
+      duration: this.formatDuration(durationMs),
+      zone: context.zone,
+      spo2: context.spo2 !== null ? String(Math.round(context.spo2 * 10) / 10) : '--',
+      time: `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
+    };
+    const message = template.replace(/\{(\w+)\}/g, (match, key: string) => vars[key] ?? match);
+    const actions = rule.actions?.length ? rule.actions : ['notification' as AlertAction];
+    const id = `${now}-${rule.id}`;
+
+    this.emit('log', `[告警] ${name}: ${message}`);
+
+    if (actions.includes('notification')) {
+      this.showNotification(severity, message, (response) => {
+        if (response === 'snoozed') {
+          episode.pausedUntil = Date.now() + PAUSE_MS;
         }
+        this.emit('alertResponse', { id, response });
       });
+    }
+    if (actions.includes('command') && rule.command) {
+      vscode.commands.executeCommand(rule.command, ...(rule.commandArgs ?? [])).then(
+        undefined,
+        (err: Error) => this.emit('log', `[告警] 规则「${name}」命令 ${rule.command} 执行失败: ${err.message}`)
+      );
+    }
+
+    const event: AlertEvent = {
+      id,
+      ruleId: rule.id,
+      ruleName: name,
+      severity,
+      message,
+      bpm: context.bpm,
+      peak: episode.peak,
+      durationMs,
+      actions,
+      timestamp: now,
+    };
+    this.emit('alert', event);
+  }
+
+  private showNotification(severity: AlertSeverity, message: string, onResponse: (response: AlertResponse) => void): void {
+    const show = severity === 'error'
+      ? vscode.window.showErrorMessage
+      : severity === 'info'
+        ? vscode.window.showInformationMessage
+        : vscode.window.showWarningMessage;
+    show(message, '暂停告警', '调整规则').then((action) => {
+      if (action === '调整规则') {
+        vscode.commands.executeCommand('heartSocket.editAlertRules');
+        onResponse('adjusted');
+      } else if (action === '暂停告警') {
+        // 暂停 10 分钟
+        onResponse('snoozed');
+      } else {
+        onResponse('dismissed');
+      }
+    });
   }
 
-  private showLowAlert(bpm: number): void {
-    const message = `⚠️ 低心率提醒！当前心率 ${bpm} BPM 低于阈值 ${this.config.alertLowBpm} BPM`;
+  // ─── 私有方法：心率骤升 ─────────────────────────
+
+  /**
+   * 心率骤升检测：静坐状态下，当前心率比窗口内最低值高出 alertSpikeBpm 即告警
+   */
+  private checkSpike(now: number, bpm: number): void {
+    const windowMs = this.config.alertSpikeWindowSeconds * 1000;
+    this.spikeSamples.push({ ts: now, bpm });
+    while (this.spikeSamples.length > 0 && now - this.spikeSamples[0].ts > windowMs) {
+      this.spikeSamples.shift();
+    }
+
+    if (this.config.alertSpikeBpm <= 0) { return; }
+    if (!DESK_POSTURES.includes(this.posture) || now - this.lastNonDeskTime < windowMs) { return; }
+
+    let lowest = this.spikeSamples[0];
+    for (const sample of this.spikeSamples) {
+      if (sample.bpm < lowest.bpm) { lowest = sample; }
+    }
+    const rise = bpm - lowest.bpm;
+    if (rise < this.config.alertSpikeBpm || now <= this.spikePausedUntil) { return; }
+
+    this.spikePausedUntil = now + this.config.alertCooldown * 1000;
+    // 清空窗口：下一次告警需要一次新的骤升
+    this.spikeSamples = [{ ts: now, bpm }];
+    this.showSpikeAlert(bpm, lowest.bpm, now - lowest.ts, now);
+  }
+
+  private formatDuration(durationMs: number): string {
+    const seconds = Math.round(durationMs / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒` : `${seconds} 秒`;
+  }
+
+  private showSpikeAlert(bpm: number, fromBpm: number, durationMs: number, now: number): void {
+    const message = `📈 心率骤升提醒！静坐状态下 ${this.formatDuration(durationMs)}内心率从 ${fromBpm} 升至 ${bpm} BPM（+${bpm - fromBpm}）`;
+    const id = `${now}-${SPIKE_RULE_ID}`;
+    this.emit('log', `[告警] 心率骤升: ${message}`);
     vscode.window
       .showWarningMessage(message, '暂停告警', '调整阈值')
       .then((action) => {
+        let response: AlertResponse = 'dismissed';
         if (action === '调整阈值') {
           vscode.commands.executeCommand(
             'workbench.action.openSettings',
-            'heartSocket.alertLowBpm'
+            'heartSocket.alertSpikeBpm'
           );
+          response = 'adjusted';
         } else if (action === '暂停告警') {
           // 暂停 10 分钟
-          this.lowAlertPausedUntil = Date.now() + 10 * 60 * 1000;
+          this.spikePausedUntil = Date.now() + PAUSE_MS;
+          response = 'snoozed';
         }
+        this.emit('alertResponse', { id, response });
       });
+
+    const event: AlertEvent = {
+      id,
+      ruleId: SPIKE_RULE_ID,
+      ruleName: '心率骤升',
+      severity: 'warning',
+      message,
+      bpm,
+      peak: bpm,
+      durationMs,
+      actions: ['notification'],
+      timestamp: now,
+    };
+    this.emit('alert', event);
   }
 }
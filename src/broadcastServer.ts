@@ -0,0 +1,357 @@
+/**
+ * Heart Socket - 实时广播服务器（Relay）
+ *
+ * 与数据源无关：无论当前使用 HDS / Pulsoid / HypeRate / 自定义数据源，
+ * 均将规范化后的数据以 JSON 推送给任意数量的订阅者
+ * （OBS 浏览器源、Stream Deck 插件、团队看板等）。
+ *
+ * 端点：
+ * - `ws://<host>:<port>/live` — WebSocket 订阅
+ * - `GET /overlay`           — 直播叠加层页面（OBS 浏览器源）
+ * - `GET /`                  — 服务状态（JSON）
+ *
+ * 浏览器来源限制：不返回 CORS 头，`/live` 只接受无 Origin（OBS、Stream Deck 等原生客户端）
+ * 或与服务同主机的 Origin（叠加层页面），避免任意网页读取本机心率。
+ *
+ * 叠加层页面与订阅也可挂载到 HDS Server（实现 OverlayRelay），
+ * 此时未开启广播端口也能通过 `http://<host>:<HDS 端口>/overlay` 使用。
+ *
+ * 消息格式（服务端 → 订阅者）：
+ * - `{"type":"snapshot","data":{heartRate,zone,history,health,motion,status,provider}}` — 连接建立时的当前状态
+ * - `{"type":"heartRate","data":HeartRateData,"zone":HeartRateZoneName}`
+ * - `{"type":"rrInterval","data":RRIntervalData}` — 仅 BLE 心率带等提供逐搏间期的数据源
+ * - `{"type":"healthData","data":HealthData}`
+ * - `{"type":"motion","data":MotionAnalysisResult}`
+ * - `{"type":"status","data":{status,provider}}`
+ */
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { getOverlayHtml } from './overlayPage';
+import type { OverlayOptions } from './overlayPage';
+import type { OverlayRelay } from './webSocketServer';
+import type {
+  ConnectionStatus,
+  HealthData,
+  HealthSnapshot,
+  HeartRateData,
+  HeartRateZoneName,
+  MotionAnalysisResult,
+  RRIntervalData,
+} from './types';
+
+/** 订阅路径 */
+const LIVE_PATH = '/live';
+/** 订阅者心跳间隔 (ms) */
+const PING_INTERVAL = 30_000;
+/** 单个订阅者发送缓冲上限，超过则跳过该条（慢消费者不拖累其他订阅者） */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+/** 快照中保留的近期心率时长 (ms)，供叠加层折线初始化 */
+const HISTORY_WINDOW = 15 * 60 * 1000;
+
+/** 广播消息类型 */
+export type BroadcastMessageType = 'snapshot' | 'heartRate' | 'rrInterval' | 'healthData' | 'motion' | 'status';
+
+export class BroadcastServer extends EventEmitter implements OverlayRelay {
+  private httpServer: http.Server | null = null;
+  private wsServer: WebSocketServer | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  /** 心跳存活标记（pong 时置 true） */
+  private alive: WeakMap<WebSocket, boolean> = new WeakMap();
+  private _port: number = 0;
+  private _host: string = '127.0.0.1';
+
+  // 最新状态（新订阅者连接时下发）
+  private lastHeartRate: HeartRateData | null = null;
+  private lastZone: HeartRateZoneName | null = null;
+  private recentHeartRates: Array<{ bpm: number; ts: number }> = [];
+  private lastMotion: MotionAnalysisResult | null = null;
+  private health: HealthSnapshot = {};
+  private lastStatus: { status: ConnectionStatus; provider: string } | null = null;
+  private overlayOptions: OverlayOptions = { sparklineMinutes: 5, showBadges: true };
+
+  get isRunning(): boolean {
+    return this.httpServer !== null && this.httpServer.listening;
+  }
+
+  get port(): number {
+    return this._port;
+  }
+
+  get host(): string {
+    return this._host;
+  }
+
+  /** 当前订阅者数量 */
+  get subscriberCount(): number {
+    return this.wsServer ? this.wsServer.clients.size : 0;
+  }
+
+  /** 订阅地址（0.0.0.0 时显示 localhost） */
+  get liveUrl(): string {
+    return `ws://${this.displayHost}:${this._port}${LIVE_PATH}`;
+  }
+
+  /** 叠加层页面地址 */
+  get overlayUrl(): string {
+    return `http://${this.displayHost}:${this._port}/overlay`;
+  }
+
+  private get displayHost(): string {
+    return this._host === '0.0.0.0' ? 'localhost' : this._host;
+  }
+
+  /**
+   * 启动广播服务器
+   */
+  start(port: number, host: string): void {
+    if (this.httpServer) {
+      this.stop();
+    }
+    this._port = port;
+    this._host = host;
+
+    this.httpServer = http.createServer((req, res) => {
+      this.handleHttpRequest(req, res);
+    });
+
+    // 仅接受 /live 路径的升级请求
+    this.httpServer.on('upgrade', (req, socket, head) => {
+      const path = (req.url ?? '').split('?')[0];
+      if (path !== LIVE_PATH) {
+        socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      this.acceptSubscriber(req, socket, head);
+    });
+
+    this.httpServer.on('listening', () => {
+      this.emit('log', `[Broadcast] 已启动: ${this.liveUrl}（叠加层: ${this.overlayUrl}）`);
+      this.emit('listening', port);
+    });
+
+    this.httpServer.on('error', (err: Error) => {
+      this.emit('error', err);
+    });
+
+    this.httpServer.listen(port, host);
+  }
+
+  /**
+   * 接受订阅者的 WebSocket 升级请求（广播端口或挂载的 HDS Server）
+   */
+  acceptSubscriber(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!isTrustedOrigin(req)) {
+      this.emit('log', `[Broadcast] 拒绝来自 ${req.headers.origin} 的订阅（非本服务页面）`);
+      socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    const wsServer = this.ensureSubscriberServer();
+    wsServer.handleUpgrade(req, socket, head, (ws) => {
+      wsServer.emit('connection', ws, req);
+    });
+  }
+
+  /**
+   * 返回叠加层页面
+   */
+  serveOverlay(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(getOverlayHtml(this.overlayOptions));
+  }
+
+  /**
+   * 停止广播服务器并断开所有订阅者（挂载在 HDS Server 上的叠加层会自动重连）
+   */
+  stop(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    if (this.wsServer) {
+      for (const client of this.wsServer.clients) {
+        client.terminate();
+      }
+      this.wsServer.removeAllListeners();
+      this.wsServer.close();
+      this.wsServer = null;
+    }
+
+    if (this.httpServer) {
+      this.httpServer.removeAllListeners();
+      this.httpServer.close();
+      this.httpServer = null;
+      this.emit('log', '[Broadcast] 已停止');
+    }
+  }
+
+  /**
+   * 释放资源
+   */
+  dispose(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+
+  // ─── 发布 ───────────────────────────────────────
+
+  publishHeartRate(data: HeartRateData, zone: HeartRateZoneName): void {
+    this.lastHeartRate = data;
+    this.lastZone = zone;
+    this.recentHeartRates.push({ bpm: data.bpm, ts: data.timestamp });
+    const cutoff = data.timestamp - HISTORY_WINDOW;
+    while (this.recentHeartRates.length > 0 && this.recentHeartRates[0].ts < cutoff) {
+      this.recentHeartRates.shift();
+    }
+    this.broadcast('heartRate', data, { zone });
+  }
+
+  publishRRInterval(data: RRIntervalData): void {
+    this.broadcast('rrInterval', data);
+  }
+
+  publishHealthData(data: HealthData): void {
+    this.health[data.type] = data.value;
+    this.broadcast('healthData', data);
+  }
+
+  publishMotion(result: MotionAnalysisResult): void {
+    this.lastMotion = result;
+    this.broadcast('motion', result);
+  }
+
+  publishStatus(status: ConnectionStatus, provider: string): void {
+    this.lastStatus = { status, provider };
+    this.broadcast('status', this.lastStatus);
+  }
+
+  /**
+   * 更新叠加层默认选项
+   */
+  setOverlayOptions(options: OverlayOptions): void {
+    this.overlayOptions = options;
+  }
+
+  /**
+   * 清空缓存状态（切换数据源 / 重新连接时调用）
+   */
+  resetState(): void {
+    this.lastHeartRate = null;
+    this.lastZone = null;
+    this.recentHeartRates = [];
+    this.lastMotion = null;
+    this.health = {};
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  /** 订阅者 WebSocket 服务（noServer 模式，首个订阅者到来时创建） */
+  private ensureSubscriberServer(): WebSocketServer {
+    if (!this.wsServer) {
+      this.wsServer = new WebSocketServer({ noServer: true });
+      this.wsServer.on('connection', (ws: WebSocket) => {
+        this.handleSubscriber(ws);
+      });
+      this.pingTimer = setInterval(() => {
+        this.pingSubscribers();
+      }, PING_INTERVAL);
+    }
+    return this.wsServer;
+  }
+
+  private broadcast(type: BroadcastMessageType, data: unknown, extra?: Record<string, unknown>): void {
+    if (!this.wsServer || this.wsServer.clients.size === 0) { return; }
+    const payload = JSON.stringify({ type, data, ...extra });
+    for (const client of this.wsServer.clients) {
+      if (client.readyState === WebSocket.OPEN && client.bufferedAmount < MAX_BUFFERED_BYTES) {
+        client.send(payload);
+      }
+    }
+  }
+
+  private handleSubscriber(ws: WebSocket): void {
+    this.alive.set(ws, true);
+    this.emit('log', `[Broadcast] 订阅者已连接（当前 ${this.subscriberCount} 个）`);
+
+    ws.on('pong', () => {
+      this.alive.set(ws, true);
+    });
+
+    ws.on('close', () => {
+      this.emit('log', `[Broadcast] 订阅者已断开（当前 ${this.subscriberCount} 个）`);
+    });
+
+    ws.on('error', () => {
+      // 单个订阅者出错不影响其他订阅者
+      ws.terminate();
+    });
+
+    // 下发当前状态快照
+    ws.send(JSON.stringify({
+      type: 'snapshot',
+      data: {
+        heartRate: this.lastHeartRate,
+        zone: this.lastZone,
+        history: this.recentHeartRates,
+        health: this.health,
+        motion: this.lastMotion,
+        status: this.lastStatus?.status ?? null,
+        provider: this.lastStatus?.provider ?? null,
+      },
+    }));
+  }
+
+  private pingSubscribers(): void {
+    if (!this.wsServer) { return; }
+    for (const client of this.wsServer.clients) {
+      if (this.alive.get(client) === false) {
+        client.terminate();
+        continue;
+      }
+      this.alive.set(client, false);
+      client.ping();
+    }
+  }
+
+  private handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = (req.url ?? '').split('?')[0];
+
+    if (req.method === 'GET' && path === '/') {
+      res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify({
+        name: 'Heart Socket Broadcast',
+        live: LIVE_PATH,
+        overlay: '/overlay',
+        subscribers: this.subscriberCount,
+        heartRate: this.lastHeartRate,
+        status: this.lastStatus?.status ?? null,
+      }));
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/overlay') {
+      this.serveOverlay(res);
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+}
+
+/**
+ * 订阅来源校验：原生客户端不发送 Origin；浏览器页面须与服务同主机（即本服务提供的叠加层）
+ */
+function isTrustedOrigin(req: http.IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) { return true; }
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
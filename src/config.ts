@@ -2,7 +2,17 @@
  * Heart Socket - 配置管理
  */
 import * as vscode from 'vscode';
-import type { HeartSocketConfig, HeartRateZones, ProviderType } from './types';
+import type {
+  AlertRule,
+  CustomTransportType,
+  HealthDataType,
+  HeartSocketConfig,
+  HeartRateZones,
+  JsonFieldTransform,
+  JsonTransformField,
+  ProviderType,
+  ReconnectConfig,
+} from './types';
 
 const CONFIG_SECTION = 'heartSocket';
 
@@ -25,14 +35,49 @@ export function getConfig(): HeartSocketConfig {
 
   return {
     provider: config.get<ProviderType>('provider', 'hds'),
+    fallbackProviders: config.get<ProviderType[]>('fallbackProviders', []),
+    failoverSilenceSeconds: config.get<number>('failoverSilenceSeconds', 10),
     websocketUrl: config.get<string>('websocketUrl', 'ws://localhost:8080'),
     apiToken: config.get<string>('apiToken', ''),
     sessionId: config.get<string>('sessionId', ''),
+    pulsoidClientId: config.get<string>('pulsoidClientId', ''),
+    pulsoidRedirectPort: config.get<number>('pulsoidRedirectPort', 8583),
     autoConnect: config.get<boolean>('autoConnect', false),
     serverPort: config.get<number>('serverPort', 8580),
+    serverPairing: config.get<boolean>('serverPairing', false),
+    serverAllowedIps: config.get<string[]>('serverAllowedIps', []),
+    serverMaxRequestSize: config.get<number>('serverMaxRequestSize', 64),
+    serverRateLimit: config.get<number>('serverRateLimit', 30),
+    serverTls: config.get<boolean>('serverTls', false),
+    serverTlsCertFile: config.get<string>('serverTlsCertFile', ''),
+    serverTlsKeyFile: config.get<string>('serverTlsKeyFile', ''),
+    bleBridgeUrl: config.get<string>('bleBridgeUrl', 'ws://127.0.0.1:8582'),
+    mqttBrokerUrl: config.get<string>('mqttBrokerUrl', 'mqtt://localhost:1883'),
+    mqttUsername: config.get<string>('mqttUsername', ''),
+    mqttHeartRateTopic: config.get<string>('mqttHeartRateTopic', 'heart_rate'),
+    mqttHealthTopics: config.get<Partial<Record<HealthDataType, string>>>('mqttHealthTopics', {}),
     alertHighBpm: config.get<number>('alertHighBpm', 150),
     alertLowBpm: config.get<number>('alertLowBpm', 50),
     alertCooldown: config.get<number>('alertCooldown', 60),
+    alertSustainSeconds: config.get<number>('alertSustainSeconds', 20),
+    alertHysteresisBpm: config.get<number>('alertHysteresisBpm', 5),
+    alertSpikeBpm: config.get<number>('alertSpikeBpm', 25),
+    alertSpikeWindowSeconds: config.get<number>('alertSpikeWindowSeconds', 60),
+    staleDataSeconds: config.get<number>('staleDataSeconds', 30),
+    staleDataAlert: config.get<boolean>('staleDataAlert', false),
+    reconnect: getReconnectConfig(config),
+    alertRules: config.get<AlertRule[]>('alertRules', []),
+    customTransport: config.get<CustomTransportType>('customTransport', 'websocket'),
+    customPollInterval: config.get<number>('customPollInterval', 1),
+    websocketHeaders: config.get<Record<string, string>>('websocketHeaders', {}),
+    websocketProtocols: config.get<string[]>('websocketProtocols', []),
+    pulsoidWebsocketHeaders: config.get<Record<string, string>>('pulsoidWebsocketHeaders', {}),
+    pulsoidWebsocketProtocols: config.get<string[]>('pulsoidWebsocketProtocols', []),
+    hyperateWebsocketHeaders: config.get<Record<string, string>>('hyperateWebsocketHeaders', {}),
+    hyperateWebsocketProtocols: config.get<string[]>('hyperateWebsocketProtocols', []),
+    proxy: config.get<string>('proxy', ''),
+    tlsCaFile: config.get<string>('tlsCaFile', ''),
+    tlsAllowInsecure: config.get<boolean>('tlsAllowInsecure', false),
     heartRateJsonPath: config.get<string>('heartRateJsonPath', 'heartRate'),
     // 自定义数据源 — 健康数据 JSON Path（留空不启用）
     caloriesJsonPath: config.get<string>('caloriesJsonPath', ''),
@@ -42,6 +87,8 @@ export function getConfig(): HeartSocketConfig {
     speedJsonPath: config.get<string>('speedJsonPath', ''),
     bodyMassJsonPath: config.get<string>('bodyMassJsonPath', ''),
     bmiJsonPath: config.get<string>('bmiJsonPath', ''),
+    rrIntervalsJsonPath: config.get<string>('rrIntervalsJsonPath', ''),
+    jsonTransforms: config.get<Partial<Record<JsonTransformField, JsonFieldTransform>>>('jsonTransforms', {}),
     statusBarPosition: config.get<'left' | 'right'>('statusBarPosition', 'left'),
     showHeartbeatAnimation: config.get<boolean>('showHeartbeatAnimation', true),
     zones: config.get<HeartRateZones>('zones', DEFAULT_ZONES),
@@ -52,6 +99,29 @@ export function getConfig(): HeartSocketConfig {
     showCodingIntensity: config.get<boolean>('showCodingIntensity', true),
     showFlowState: config.get<boolean>('showFlowState', true),
     showSlackingIndex: config.get<boolean>('showSlackingIndex', true),
+    showStressIndex: config.get<boolean>('showStressIndex', true),
+    // 历史数据
+    sampleRetentionDays: config.get<number>('sampleRetentionDays', 90),
+    // 实时广播
+    enableBroadcast: config.get<boolean>('enableBroadcast', false),
+    broadcastPort: config.get<number>('broadcastPort', 8581),
+    broadcastHost: config.get<string>('broadcastHost', '127.0.0.1'),
+    overlaySparklineMinutes: config.get<number>('overlaySparklineMinutes', 5),
+    overlayShowBadges: config.get<boolean>('overlayShowBadges', true),
+  };
+}
+
+/**
+ * 读取重连策略（配置以秒为单位，转换为毫秒）
+ */
+function getReconnectConfig(config: vscode.WorkspaceConfiguration): ReconnectConfig {
+  const initialDelay = Math.max(100, config.get<number>('reconnectInitialDelay', 1) * 1000);
+  return {
+    initialDelay,
+    maxDelay: Math.max(initialDelay, config.get<number>('reconnectMaxDelay', 30) * 1000),
+    backoffFactor: Math.max(1, config.get<number>('reconnectBackoffFactor', 2)),
+    maxRetries: Math.max(-1, Math.floor(config.get<number>('reconnectMaxRetries', -1))),
+    jitter: Math.min(1, Math.max(0, config.get<number>('reconnectJitter', 0.2))),
   };
 }
 
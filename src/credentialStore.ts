@@ -0,0 +1,145 @@
+/**
+ * Heart Socket - 凭据存储
+ *
+ * 将 Pulsoid / HypeRate 的 Token（含 Pulsoid OAuth 续期信息）及 MQTT 密码保存在 VSCode SecretStorage（系统钥匙串）中，
+ * 避免明文写入 settings.json 后被设置同步或 dotfiles 仓库带出。
+ *
+ * - 启动时自动将旧版 heartSocket.apiToken 设置迁移到 SecretStorage 并清除明文
+ * - 读取凭据前等待迁移完成，Provider 连接时不会读到空值
+ */
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import type { CredentialAccessor, CredentialKey } from './types';
+
+/** SecretStorage key 前缀 */
+const KEY_PREFIX = 'heartSocket.';
+
+/** 所有凭据项 */
+const CREDENTIAL_KEYS: CredentialKey[] = [
+  'pulsoidToken',
+  'pulsoidRefreshToken',
+  'pulsoidTokenExpiresAt',
+  'hyperateToken',
+  'mqttPassword',
+];
+
+/** 旧版 heartSocket.apiToken 迁移的目标（Pulsoid 与 HypeRate 曾共用该设置） */
+const LEGACY_TOKEN_KEYS: CredentialKey[] = ['pulsoidToken', 'hyperateToken'];
+
+export class CredentialStore extends EventEmitter implements CredentialAccessor {
+  private secrets: vscode.SecretStorage;
+  private ready: Promise<void>;
+
+  constructor(context: vscode.ExtensionContext) {
+    super();
+    this.secrets = context.secrets;
+    this.ready = this.migrateFromSettings();
+  }
+
+  /**
+   * 读取凭据（未保存时返回 undefined）
+   */
+  async getCredential(key: CredentialKey): Promise<string | undefined> {
+    await this.ready;
+    return (await this.secrets.get(KEY_PREFIX + key)) || undefined;
+  }
+
+  /**
+   * 保存凭据
+   */
+  async setCredential(key: CredentialKey, value: string): Promise<void> {
+    await this.ready;
+    await this.secrets.store(KEY_PREFIX + key, value);
+  }
+
+  /**
+   * 删除凭据
+   */
+  async deleteCredential(key: CredentialKey): Promise<void> {
+    await this.ready;
+    await this.secrets.delete(KEY_PREFIX + key);
+  }
+
+  /**
+   * 是否保存了任意凭据
+   */
+  async hasAny(): Promise<boolean> {
+    for (const key of CREDENTIAL_KEYS) {
+      if (await this.getCredential(key)) { return true; }
+    }
+    return false;
+  }
+
+  /**
+   * 清除全部已保存的凭据（含残留的明文设置）
+   */
+  async clearAll(): Promise<void> {
+    await this.ready;
+    for (const key of CREDENTIAL_KEYS) {
+      await this.secrets.delete(KEY_PREFIX + key);
+    }
+    await this.clearLegacySetting();
+    this.log('已清除所有已保存的凭据');
+  }
+
+  /**
+   * 重新检查明文设置（配置变更时调用：用户手动在 settings.json 中填入 Token 时同样迁移）
+   */
+  syncFromSettings(): Promise<void> {
+    this.ready = this.ready.then(() => this.migrateFromSettings());
+    return this.ready;
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  /**
+   * 迁移 heartSocket.apiToken 明文设置
+   *
+   * 旧版 Pulsoid 与 HypeRate 共用该设置，迁移时写入两者（已有值的不覆盖），
+   * 之后从用户 / 工作区设置中移除。
+   */
+  private async migrateFromSettings(): Promise<void> {
+    try {
+      const inspected = vscode.workspace.getConfiguration('heartSocket').inspect<string>('apiToken');
+      const legacy = (inspected?.workspaceFolderValue || inspected?.workspaceValue || inspected?.globalValue || '').trim();
+      if (!legacy) { return; }
+
+      for (const key of LEGACY_TOKEN_KEYS) {
+        if (!(await this.secrets.get(KEY_PREFIX + key))) {
+          await this.secrets.store(KEY_PREFIX + key, legacy);
+        }
+      }
+      await this.clearLegacySetting();
+      this.log('已将 heartSocket.apiToken 迁移到安全存储，并从设置中移除明文');
+      vscode.window.showInformationMessage('Heart Socket: API Token 已迁移到系统安全存储，settings.json 中的明文已移除。');
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      this.log(`凭据迁移失败: ${msg}`);
+    }
+  }
+
+  /**
+   * 从所有作用域移除 heartSocket.apiToken（无工作区时更新会抛错，逐个忽略）
+   */
+  private async clearLegacySetting(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('heartSocket');
+    const inspected = config.inspect<string>('apiToken');
+    const targets: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+      [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+      [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+      [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+    ];
+    for (const [value, target] of targets) {
+      if (value === undefined) { continue; }
+      try {
+        await config.update('apiToken', undefined, target);
+      } catch {
+        // 该作用域不可写（如未打开工作区），忽略
+      }
+    }
+  }
+
+  private log(message: string): void {
+    this.emit('log', message);
+  }
+}
@@ -0,0 +1,597 @@
+/**
+ * Heart Socket - 自定义数据源的非 WebSocket 传输
+ *
+ * 与 WebSocketClient 相同的事件与状态模型，由 CustomProvider 按 heartSocket.customTransport 选择：
+ * - SSE: http(s):// 地址，每个事件的 data 作为一条消息（重连时携带 Last-Event-ID）
+ * - HTTP 轮询: http(s):// 地址，按间隔 GET，响应体作为一条消息
+ * - TCP: tcp://主机:端口，按行分隔的文本流，每行一条消息
+ * - UDP: udp://监听地址:端口，每个数据报一条消息
+ *
+ * 断线 / 请求失败后均按与 WebSocketClient 相同的指数退避自动重连。
+ */
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as dgram from 'dgram';
+import { ConnectionStatus, ReconnectExhaustedError } from './types';
+import type { CustomTransportType, IMessageTransport, ReconnectConfig } from './types';
+import { DEFAULT_RECONNECT, WebSocketClient, createHttpError, getReconnectDelay } from './webSocketClient';
+import type { WebSocketOptionsResolver } from './webSocketClient';
+
+/** HTTP 轮询单次请求超时 (ms) */
+const POLL_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/** 最小轮询间隔 (ms) */
+const MIN_POLL_INTERVAL_MS = 200;
+
+/** 单条消息最大长度（防止异常数据源撑爆内存） */
+const MAX_MESSAGE_LENGTH = 1024 * 1024;
+
+/**
+ * 可自动重连的传输基类
+ *
+ * 子类实现 openTransport / closeTransport，在建立成功时调用 handleOpen，
+ * 意外断开时调用 handleClosed，遇到不可重试错误时调用 fail。MqttClient 同样基于此类。
+ */
+export abstract class ReconnectingTransport extends EventEmitter implements IMessageTransport {
+  protected url: string = '';
+  private reconnectConfig: ReconnectConfig;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private _status: ConnectionStatus = ConnectionStatus.Disconnected;
+  private isManualClose: boolean = false;
+  private isDisposed: boolean = false;
+  /** 已达到最大重连次数而停止重连 */
+  private exhausted: boolean = false;
+
+  constructor(reconnectConfig?: Partial<ReconnectConfig>) {
+    super();
+    this.reconnectConfig = { ...DEFAULT_RECONNECT, ...reconnectConfig };
+  }
+
+  /** 当前连接状态 */
+  get status(): ConnectionStatus {
+    return this._status;
+  }
+
+  connect(url: string): void {
+    if (this.isDisposed) {
+      return;
+    }
+
+    this.url = url;
+    this.isManualClose = false;
+    this.exhausted = false;
+    this.reconnectAttempt = 0;
+    this.clearReconnect();
+    this.doConnect();
+  }
+
+  disconnect(): void {
+    this.isManualClose = true;
+    this.clearReconnect();
+    this.closeTransport();
+    this.setStatus(ConnectionStatus.Disconnected);
+  }
+
+  retryNow(): boolean {
+    if (!this.active || !this.url) {
+      return false;
+    }
+    if (this.reconnectTimer) {
+      this.clearReconnect();
+      this.doConnect();
+      return true;
+    }
+    if (this.exhausted) {
+      this.exhausted = false;
+      this.reconnectAttempt = 0;
+      this.doConnect();
+      return true;
+    }
+    return false;
+  }
+
+  setReconnectConfig(config: ReconnectConfig): void {
+    this.reconnectConfig = { ...config };
+  }
+
+  reconnect(reason: string): void {
+    if (!this.active || this._status !== ConnectionStatus.Connected) {
+      return;
+    }
+    this.emit('error', new Error(reason));
+    this.handleClosed(1006, reason);
+  }
+
+  /** 默认为单向传输，不支持发送 */
+  send(_data: string): boolean {
+    return false;
+  }
+
+  dispose(): void {
+    this.isDisposed = true;
+    this.disconnect();
+    this.removeAllListeners();
+  }
+
+  // ─── 子类使用 ───────────────────────────────────
+
+  /** 建立底层连接（地址无效时直接抛错，视为不可重试） */
+  protected abstract openTransport(): void;
+
+  /** 关闭底层连接（需先移除监听器，避免触发 handleClosed） */
+  protected abstract closeTransport(): void;
+
+  /** 是否仍应保持连接（未手动断开、未销毁） */
+  protected get active(): boolean {
+    return !this.isManualClose && !this.isDisposed;
+  }
+
+  /** 连接建立成功 */
+  protected handleOpen(): void {
+    this.reconnectAttempt = 0;
+    this.setStatus(ConnectionStatus.Connected);
+    this.emit('open');
+  }
+
+  /** 连接意外断开：安排重连 */
+  protected handleClosed(code: number = 0, reason: string = ''): void {
+    this.closeTransport();
+    this.emit('close', code, reason);
+    if (this.active) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /** 不可重试的错误（地址无效、HTTP 4xx 等）：停止重连并进入错误状态 */
+  protected fail(error: Error): void {
+    this.clearReconnect();
+    this.closeTransport();
+    this.emit('error', error);
+    this.setStatus(ConnectionStatus.Error);
+  }
+
+  /** 派发一条消息（空消息与超长消息忽略） */
+  protected emitMessage(data: string, topic?: string): void {
+    if (data.trim() && data.length <= MAX_MESSAGE_LENGTH) {
+      this.emit('message', data, topic);
+    }
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  private doConnect(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.closeTransport();
+    this.setStatus(ConnectionStatus.Connecting);
+
+    try {
+      this.openTransport();
+    } catch (error) {
+      this.fail(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * 安排重连（指数退避 + 抖动）
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const { maxRetries } = this.reconnectConfig;
+    if (maxRetries !== -1 && this.reconnectAttempt >= maxRetries) {
+      this.exhausted = true;
+      this.setStatus(ConnectionStatus.Error);
+      this.emit('error', new ReconnectExhaustedError(maxRetries));
+      return;
+    }
+
+    this.setStatus(ConnectionStatus.Reconnecting);
+    this.reconnectAttempt++;
+    const delay = getReconnectDelay(this.reconnectConfig, this.reconnectAttempt);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.doConnect();
+    }, delay);
+    this.emit('reconnectScheduled', { attempt: this.reconnectAttempt, maxRetries, retryAt: Date.now() + delay });
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    if (this._status !== status) {
+      this._status = status;
+      this.emit('statusChange', status);
+    }
+  }
+}
+
+/**
+ * 解析 http(s):// 地址，返回对应的请求模块
+ */
+function resolveHttpModule(url: string): typeof http | typeof https {
+  if (url.startsWith('https://')) { return https; }
+  if (url.startsWith('http://')) { return http; }
+  throw new Error('地址必须以 http:// 或 https:// 开头');
+}
+
+/**
+ * 解析 tcp:// / udp:// 地址中的主机与端口
+ */
+function parseHostPort(url: string, scheme: 'tcp' | 'udp'): { host: string; port: number } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`地址格式应为 ${scheme}://主机:端口`);
+  }
+  const port = Number(parsed.port);
+  if (parsed.protocol !== `${scheme}:` || !Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`地址格式应为 ${scheme}://主机:端口`);
+  }
+  // IPv6 地址在 URL 中带方括号
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  return { host, port };
+}
+
+// ─── SSE ─────────────────────────────────────────
+
+/**
+ * Server-Sent Events 传输
+ *
+ * 按 text/event-stream 规范解析：data 行累积，空行派发；id 行记录用于断线续传；注释行忽略。
+ */
+export class SseTransport extends ReconnectingTransport {
+  private request: http.ClientRequest | null = null;
+  private buffer: string = '';
+  private dataLines: string[] = [];
+  private lastEventId: string = '';
+
+  protected openTransport(): void {
+    const client = resolveHttpModule(this.url);
+    const headers: http.OutgoingHttpHeaders = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    };
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    this.buffer = '';
+    this.dataLines = [];
+    const request = client.get(this.url, { headers }, (res) => {
+      const statusCode = res.statusCode ?? 0;
+      if (statusCode !== 200) {
+        res.resume();
+        this.handleHttpStatus(statusCode);
+        return;
+      }
+
+      this.handleOpen();
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => this.consume(chunk));
+      // 服务端中途断开时只有 close（无 end / 请求 error），统一在 close 中安排重连
+      res.on('error', () => { /* 由 close 处理 */ });
+      res.on('close', () => {
+        if (this.request === request) {
+          this.handleClosed(0, res.complete ? 'SSE 流已结束' : 'SSE 连接中断');
+        }
+      });
+    });
+
+    request.on('error', (err: Error) => {
+      if (this.request !== request) { return; }
+      this.emit('error', err);
+      this.handleClosed(0, err.message);
+    });
+    this.request = request;
+  }
+
+  protected closeTransport(): void {
+    if (this.request) {
+      const request = this.request;
+      this.request = null;
+      request.removeAllListeners('response');
+      request.on('error', () => { /* 关闭时的错误忽略 */ });
+      request.destroy();
+    }
+  }
+
+  private handleHttpStatus(statusCode: number): void {
+    const error = createHttpError(statusCode, '');
+    if (error.nonRetryable) {
+      this.fail(error);
+    } else {
+      this.emit('error', error);
+      this.handleClosed(statusCode, error.userMessage);
+    }
+  }
+
+  private consume(chunk: string): void {
+    this.buffer += chunk;
+    if (this.buffer.length > MAX_MESSAGE_LENGTH) {
+      // 没有换行的超长数据：丢弃，避免无限增长
+      this.buffer = '';
+      this.dataLines = [];
+      return;
+    }
+
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      // 空行：派发当前事件
+      if (this.dataLines.length > 0) {
+        this.emitMessage(this.dataLines.join('\n'));
+        this.dataLines = [];
+      }
+      return;
+    }
+    if (line.startsWith(':')) {
+      return; // 注释 / 保活
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'id' && !value.includes('\0')) {
+      this.lastEventId = value;
+    }
+  }
+}
+
+// ─── HTTP 轮询 ───────────────────────────────────
+
+/**
+ * HTTP 轮询传输
+ *
+ * 首次请求成功即视为已连接；200 响应体作为一条消息（204 / 304 视为无新数据）。
+ * 请求失败或 5xx / 429 时按退避重连，其余 4xx 视为配置错误停止重试。
+ */
+export class HttpPollingTransport extends ReconnectingTransport {
+  private request: http.ClientRequest | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private intervalMs: number;
+
+  constructor(intervalSeconds: number, reconnectConfig?: Partial<ReconnectConfig>) {
+    super(reconnectConfig);
+    this.intervalMs = Math.max(MIN_POLL_INTERVAL_MS, Math.round(intervalSeconds * 1000));
+  }
+
+  protected openTransport(): void {
+    resolveHttpModule(this.url);
+    this.poll();
+  }
+
+  protected closeTransport(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.request) {
+      const request = this.request;
+      this.request = null;
+      request.removeAllListeners('response');
+      request.on('error', () => { /* 关闭时的错误忽略 */ });
+      request.destroy();
+    }
+  }
+
+  private poll(): void {
+    this.pollTimer = null;
+    const client = resolveHttpModule(this.url);
+    const request = client.get(this.url, { headers: { Accept: 'application/json, text/plain' } }, (res) => {
+      const statusCode = res.statusCode ?? 0;
+      const chunks: Buffer[] = [];
+      let length = 0;
+
+      res.on('data', (chunk: Buffer) => {
+        length += chunk.length;
+        if (length <= MAX_MESSAGE_LENGTH) {
+          chunks.push(chunk);
+        }
+      });
+      res.on('end', () => {
+        if (this.request !== request) { return; }
+        this.request = null;
+        this.handleResponse(statusCode, Buffer.concat(chunks).toString('utf-8'));
+      });
+      // 响应体传输中断开：不会触发 end，按请求失败重连
+      res.on('error', () => { /* 由 close 处理 */ });
+      res.on('close', () => {
+        if (this.request !== request || res.complete) { return; }
+        this.request = null;
+        const error = new Error('响应传输中断');
+        this.emit('error', error);
+        this.handleClosed(0, error.message);
+      });
+    });
+
+    request.setTimeout(POLL_REQUEST_TIMEOUT_MS, () => {
+      request.destroy(new Error(`请求超时（${POLL_REQUEST_TIMEOUT_MS / 1000} 秒无响应）`));
+    });
+    request.on('error', (err: Error) => {
+      if (this.request !== request) { return; }
+      this.request = null;
+      this.emit('error', err);
+      this.handleClosed(0, err.message);
+    });
+    this.request = request;
+  }
+
+  private handleResponse(statusCode: number, body: string): void {
+    if (statusCode >= 400) {
+      const error = createHttpError(statusCode, body);
+      if (error.nonRetryable) {
+        this.fail(error);
+      } else {
+        this.emit('error', error);
+        this.handleClosed(statusCode, error.userMessage);
+      }
+      return;
+    }
+
+    if (this.status !== ConnectionStatus.Connected) {
+      this.handleOpen();
+    }
+    if (statusCode === 200) {
+      this.emitMessage(body);
+    }
+    if (this.active && this.status === ConnectionStatus.Connected) {
+      this.pollTimer = setTimeout(() => this.poll(), this.intervalMs);
+    }
+  }
+}
+
+// ─── TCP ─────────────────────────────────────────
+
+/**
+ * TCP 行协议传输：连接 tcp://主机:端口，每行文本一条消息
+ */
+export class TcpTransport extends ReconnectingTransport {
+  private socket: net.Socket | null = null;
+  private buffer: string = '';
+
+  send(data: string): boolean {
+    if (this.socket && this.status === ConnectionStatus.Connected) {
+      this.socket.write(data.endsWith('\n') ? data : `${data}\n`);
+      return true;
+    }
+    return false;
+  }
+
+  protected openTransport(): void {
+    const { host, port } = parseHostPort(this.url, 'tcp');
+    const socket = net.createConnection({ host, port });
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf-8');
+    socket.setKeepAlive(true, 30000);
+
+    socket.on('connect', () => this.handleOpen());
+
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const lines = this.buffer.split(/\r?\n/);
+      this.buffer = lines.pop() ?? '';
+      if (this.buffer.length > MAX_MESSAGE_LENGTH) {
+        this.buffer = '';
+      }
+      for (const line of lines) {
+        this.emitMessage(line);
+      }
+    });
+
+    socket.on('error', (err: Error) => {
+      this.emit('error', err);
+      // 随后会触发 close，由 close 处理重连
+    });
+
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.handleClosed(0, 'TCP 连接已关闭');
+      }
+    });
+  }
+
+  protected closeTransport(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.removeAllListeners();
+      socket.on('error', () => { /* 关闭时的错误忽略 */ });
+      socket.destroy();
+    }
+  }
+}
+
+// ─── UDP ─────────────────────────────────────────
+
+/**
+ * UDP 数据报传输：在 udp://监听地址:端口 上监听，每个数据报一条消息
+ *
+ * 「已连接」表示端口绑定成功；绑定失败（如端口被占用）按退避重试。
+ */
+export class UdpTransport extends ReconnectingTransport {
+  private socket: dgram.Socket | null = null;
+
+  protected openTransport(): void {
+    const { host, port } = parseHostPort(this.url, 'udp');
+    const socket = dgram.createSocket({ type: net.isIPv6(host) ? 'udp6' : 'udp4', reuseAddr: true });
+    this.socket = socket;
+
+    socket.on('listening', () => this.handleOpen());
+
+    socket.on('message', (msg: Buffer) => {
+      this.emitMessage(msg.toString('utf-8'));
+    });
+
+    socket.on('error', (err: Error) => {
+      if (this.socket !== socket) { return; }
+      this.emit('error', err);
+      this.handleClosed(0, err.message);
+    });
+
+    socket.bind(port, host || undefined);
+  }
+
+  protected closeTransport(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.removeAllListeners();
+      socket.on('error', () => { /* 关闭时的错误忽略 */ });
+      try {
+        socket.close();
+      } catch {
+        // 尚未绑定成功时 close 会抛错，忽略
+      }
+    }
+  }
+}
+
+/**
+ * 按传输方式创建传输实例
+ */
+export function createCustomTransport(
+  type: CustomTransportType,
+  pollIntervalSeconds: number,
+  resolveWebSocketOptions?: WebSocketOptionsResolver
+): IMessageTransport {
+  switch (type) {
+    case 'sse':
+      return new SseTransport();
+    case 'http-poll':
+      return new HttpPollingTransport(pollIntervalSeconds);
+    case 'tcp':
+      return new TcpTransport();
+    case 'udp':
+      return new UdpTransport();
+    default:
+      return new WebSocketClient(undefined, resolveWebSocketOptions);
+  }
+}
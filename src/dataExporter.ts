@@ -0,0 +1,227 @@
+/**
+ * Heart Socket - 数据导出格式化
+ *
+ * 将 DataStore 日摘要与 SampleStore 原始样本序列化为：
+ * - CSV    — 逐秒样本或每日摘要（表格工具直接打开）
+ * - NDJSON — 每行一条记录，`type` 字段区分 summary / sample
+ * - TCX    — Garmin Training Center XML，健身平台（Strava / Garmin Connect 等）可导入
+ */
+import type { DailySummary, RawSample } from './types';
+
+/** 导出格式 */
+export type ExportFormat = 'csv' | 'ndjson' | 'tcx';
+
+/** CSV 导出内容 */
+export type CsvContent = 'samples' | 'summaries';
+
+/** 导出数据集 */
+export interface ExportPayload {
+  /** 起始日期 YYYY-MM-DD */
+  startDate: string;
+  /** 结束日期 YYYY-MM-DD（含） */
+  endDate: string;
+  /** 日摘要（按日期升序） */
+  summaries: DailySummary[];
+  /** 原始样本（按时间升序） */
+  samples: RawSample[];
+}
+
+/** 样本 CSV 列（顺序即输出顺序） */
+const SAMPLE_COLUMNS: (keyof RawSample)[] = [
+  'bpm',
+  'calories', 'stepCount', 'distance', 'speed', 'bloodOxygen', 'bodyMass', 'bmi',
+  'codingIntensity', 'posture', 'flowActive', 'slackingIndex', 'energyLevel', 'stressIndex',
+];
+
+/** 区间列顺序（与 getHeartRateZone 一致） */
+const ZONE_KEYS = ['low', 'deepRelax', 'relax', 'calm', 'lightFocus', 'focused', 'tense', 'stressed', 'extreme'];
+
+/** TCX 中两个样本间隔超过此值则拆分为新的 Lap (ms) */
+const TCX_LAP_GAP = 5 * 60 * 1000;
+
+/**
+ * 按格式序列化
+ */
+export function formatExport(payload: ExportPayload, format: ExportFormat, csvContent: CsvContent = 'samples'): string {
+  switch (format) {
+    case 'csv':
+      return csvContent === 'summaries' ? summariesToCsv(payload.summaries) : samplesToCsv(payload.samples);
+    case 'ndjson':
+      return toNdjson(payload);
+    case 'tcx':
+      return samplesToTcx(payload.samples);
+  }
+}
+
+/**
+ * 逐秒样本 → CSV
+ */
+export function samplesToCsv(samples: RawSample[]): string {
+  const lines = [['time', 'timestamp', ...SAMPLE_COLUMNS].join(',')];
+  for (const s of samples) {
+    const cells = SAMPLE_COLUMNS.map(col => csvCell(s[col]));
+    lines.push([new Date(s.ts).toISOString(), String(s.ts), ...cells].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 每日摘要 → CSV（区间为百分比，小时列为该小时平均心率）
+ */
+export function summariesToCsv(summaries: DailySummary[]): string {
+  const hourCols = Array.from({ length: 24 }, (_, h) => `hour_${String(h).padStart(2, '0')}`);
+  const header = [
+    'date', 'durationMinutes', 'samples', 'min', 'max', 'avg',
+    'hrvRmssd', 'hrvSdnn', 'hrvPnn50', 'stressAvg', 'stressMax', 'stressHighMinutes',
+    'signalGaps', 'signalGapSeconds',
+    ...ZONE_KEYS.map(k => `zone_${k}`),
+    ...hourCols,
+  ];
+  const lines = [header.join(',')];
+  for (const s of summaries) {
+    lines.push([
+      s.date,
+      String(Math.round(s.totalDuration / 60000)),
+      String(s.samples),
+      String(s.min),
+      String(s.max),
+      String(s.avg),
+      csvCell(s.hrvRmssd),
+      csvCell(s.hrvSdnn),
+      csvCell(s.hrvPnn50),
+      csvCell(s.stressAvg),
+      csvCell(s.stressMax),
+      csvCell(s.stressHighMinutes),
+      csvCell(s.signalGaps),
+      csvCell(s.signalGapSeconds),
+      ...ZONE_KEYS.map(k => csvCell(s.zoneDistribution[k] ?? 0)),
+      ...Array.from({ length: 24 }, (_, h) => csvCell(s.hourlyAvg[h])),
+    ].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 摘要 + 样本 → NDJSON（摘要在前，省略增量计算用的累计字段）
+ */
+export function toNdjson(payload: ExportPayload): string {
+  const lines: string[] = [];
+  for (const s of payload.summaries) {
+    const { bpmSum: _bpmSum, hourlySamples: _hourlySamples, hourlyBpmSum: _hourlyBpmSum, ...summary } = s;
+    lines.push(JSON.stringify({ type: 'summary', ...summary }));
+  }
+  for (const s of payload.samples) {
+    lines.push(JSON.stringify({ type: 'sample', time: new Date(s.ts).toISOString(), ...s }));
+  }
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * 逐秒样本 → Garmin TCX
+ *
+ * 每个自然日一个 Activity，日内连续监测段（间隔 ≤ 5 分钟）为一个 Lap。
+ */
+export function samplesToTcx(samples: RawSample[]): string {
+  const days = new Map<string, RawSample[]>();
+  for (const s of samples) {
+    const day = toDateString(s.ts);
+    const list = days.get(day);
+    if (list) {
+      list.push(s);
+    } else {
+      days.set(day, [s]);
+    }
+  }
+
+  const activities: string[] = [];
+  for (const daySamples of days.values()) {
+    const laps = splitLaps(daySamples).map(lapToTcx);
+    activities.push(
+      '    <Activity Sport="Other">\n' +
+      `      <Id>${new Date(daySamples[0].ts).toISOString()}</Id>\n` +
+      laps.join('') +
+      '      <Creator xsi:type="Device_t">\n' +
+      '        <Name>Heart Socket</Name>\n' +
+      '        <UnitId>0</UnitId>\n' +
+      '        <ProductID>0</ProductID>\n' +
+      '        <Version><VersionMajor>1</VersionMajor><VersionMinor>0</VersionMinor></Version>\n' +
+      '      </Creator>\n' +
+      '    </Activity>\n'
+    );
+  }
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"' +
+    ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">\n' +
+    '  <Activities>\n' +
+    activities.join('') +
+    '  </Activities>\n' +
+    '</TrainingCenterDatabase>\n';
+}
+
+// ─── 内部工具 ───────────────────────────────────
+
+function splitLaps(samples: RawSample[]): RawSample[][] {
+  const laps: RawSample[][] = [];
+  let current: RawSample[] = [];
+  for (const s of samples) {
+    const last = current[current.length - 1];
+    if (last && s.ts - last.ts > TCX_LAP_GAP) {
+      laps.push(current);
+      current = [];
+    }
+    current.push(s);
+  }
+  if (current.length > 0) { laps.push(current); }
+  return laps;
+}
+
+function lapToTcx(lap: RawSample[]): string {
+  const first = lap[0];
+  const last = lap[lap.length - 1];
+  const bpms = lap.map(s => s.bpm);
+  const avg = Math.round(bpms.reduce((a, b) => a + b, 0) / bpms.length);
+  const max = Math.round(Math.max(...bpms));
+
+  // 卡路里与距离为 Watch 上报的累计值，取段内增量
+  const calories = cumulativeDelta(lap, 'calories');
+  const distance = cumulativeDelta(lap, 'distance');
+
+  const trackpoints = lap.map(s => {
+    const distanceTag = s.distance !== undefined
+      ? `<DistanceMeters>${Math.max(0, s.distance - (first.distance ?? 0)).toFixed(1)}</DistanceMeters>`
+      : '';
+    return `          <Trackpoint><Time>${new Date(s.ts).toISOString()}</Time>${distanceTag}` +
+      `<HeartRateBpm><Value>${Math.round(s.bpm)}</Value></HeartRateBpm></Trackpoint>\n`;
+  }).join('');
+
+  return `      <Lap StartTime="${new Date(first.ts).toISOString()}">\n` +
+    `        <TotalTimeSeconds>${((last.ts - first.ts) / 1000).toFixed(0)}</TotalTimeSeconds>\n` +
+    `        <DistanceMeters>${distance.toFixed(1)}</DistanceMeters>\n` +
+    `        <Calories>${Math.round(calories)}</Calories>\n` +
+    `        <AverageHeartRateBpm><Value>${avg}</Value></AverageHeartRateBpm>\n` +
+    `        <MaximumHeartRateBpm><Value>${max}</Value></MaximumHeartRateBpm>\n` +
+    '        <Intensity>Resting</Intensity>\n' +
+    '        <TriggerMethod>Manual</TriggerMethod>\n' +
+    '        <Track>\n' +
+    trackpoints +
+    '        </Track>\n' +
+    '      </Lap>\n';
+}
+
+function cumulativeDelta(lap: RawSample[], key: 'calories' | 'distance'): number {
+  const values = lap.map(s => s[key]).filter((v): v is number => v !== undefined);
+  if (values.length < 2) { return 0; }
+  return Math.max(0, values[values.length - 1] - values[0]);
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) { return ''; }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toDateString(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,414 @@
+/**
+ * Heart Socket - 历史数据导入
+ *
+ * 流式解析以下来源并聚合为 DailySummary（与实时记录相同的区间/小时统计口径）：
+ * - Apple Health `export.xml`（健康 App → 导出所有健康数据，解压后得到）
+ * - 通用 CSV（首行为表头，需包含时间列与心率列；兼容本插件导出的 CSV）
+ *
+ * Apple Health 导出文件常达数 GB，因此逐块读取，只在内存中保留
+ * 每日聚合结果与保留期内的原始心率样本。
+ */
+import * as fs from 'fs';
+import * as readline from 'readline';
+import type { DailySummary, HeartRateZoneName, RawSample } from './types';
+
+/** 导入来源 */
+export type ImportFormat = 'appleHealth' | 'csv';
+
+/** 导入选项 */
+export interface ImportOptions {
+  /** 心率 → 区间映射（与 HeartRateManager.getHeartRateZone 一致） */
+  zoneOf: (bpm: number) => HeartRateZoneName;
+  /** 早于此时间戳的心率样本不保留原始值（仍计入日摘要） */
+  sampleSinceTs: number;
+  /** 进度回调（已读字节 / 总字节） */
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+  /** 返回 true 时中止解析 */
+  isCancelled?: () => boolean;
+}
+
+/** 导入结果 */
+export interface ImportResult {
+  /** 日摘要（按日期升序，zoneDistribution 为计数；samples 为 0 的日期只有健康指标） */
+  summaries: DailySummary[];
+  /** 保留期内的原始心率样本（按时间升序） */
+  samples: RawSample[];
+  /** 成功解析的记录数 */
+  records: number;
+  /** 无法识别而跳过的记录数 */
+  skipped: number;
+  /** 是否被用户取消 */
+  cancelled: boolean;
+}
+
+/** 健康指标聚合方式：增量求和（Apple Health）或取当日最大累计值（HDS 快照） */
+type HealthMode = 'sum' | 'max';
+
+/** 按来源累计的健康指标 */
+type HealthKey = 'stepCount' | 'calories' | 'distance';
+
+/** Apple Health 记录类型 → 内部字段 */
+const APPLE_HEALTH_TYPES: Record<string, 'heartRate' | 'stepCount' | 'bloodOxygen' | 'calories' | 'distance'> = {
+  HKQuantityTypeIdentifierHeartRate: 'heartRate',
+  HKQuantityTypeIdentifierStepCount: 'stepCount',
+  HKQuantityTypeIdentifierOxygenSaturation: 'bloodOxygen',
+  HKQuantityTypeIdentifierActiveEnergyBurned: 'calories',
+  HKQuantityTypeIdentifierDistanceWalkingRunning: 'distance',
+};
+
+/** 距离单位 → 米 */
+const DISTANCE_UNITS: Record<string, number> = { m: 1, km: 1000, mi: 1609.344, ft: 0.3048, yd: 0.9144 };
+
+/** CSV 列名候选（小写比较） */
+const CSV_TIME_COLUMNS = ['timestamp', 'time', 'datetime', 'date', 'startdate'];
+const CSV_BPM_COLUMNS = ['bpm', 'heartrate', 'heart_rate', 'hr', 'value'];
+
+/** 监测时长计算：相邻样本间隔超过此值视为中断 (ms) */
+const DURATION_GAP = 10 * 60 * 1000;
+
+/**
+ * 导入 Apple Health export.xml
+ */
+export async function importAppleHealth(filePath: string, options: ImportOptions): Promise<ImportResult> {
+  const aggregator = new DayAggregator(options);
+  const totalBytes = (await fs.promises.stat(filePath)).size;
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8', highWaterMark: 1024 * 1024 });
+  let carry = '';
+  let bytesRead = 0;
+  let cancelled = false;
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    if (options.isCancelled?.()) {
+      cancelled = true;
+      stream.destroy();
+      break;
+    }
+    bytesRead += Buffer.byteLength(chunk, 'utf-8');
+    const text = carry + chunk;
+
+    // 逐个提取 <Record ...> 开始标签（子元素 MetadataEntry 等无需解析）
+    let cursor = 0;
+    while (true) {
+      const start = text.indexOf('<Record ', cursor);
+      if (start === -1) { break; }
+      const end = text.indexOf('>', start);
+      if (end === -1) {
+        cursor = start;
+        break;
+      }
+      aggregator.addAppleHealthRecord(parseAttributes(text.substring(start, end)));
+      cursor = end + 1;
+    }
+
+    // 保留可能被截断的标签，供下一块拼接
+    const tail = text.lastIndexOf('<', text.length - 1);
+    carry = tail >= cursor && text.indexOf('>', tail) === -1 ? text.substring(tail) : '';
+    options.onProgress?.(bytesRead, totalBytes);
+  }
+
+  return aggregator.finish(cancelled);
+}
+
+/**
+ * 导入通用 CSV
+ */
+export async function importCsv(filePath: string, options: ImportOptions): Promise<ImportResult> {
+  const aggregator = new DayAggregator(options);
+  const totalBytes = (await fs.promises.stat(filePath)).size;
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8', highWaterMark: 1024 * 1024 });
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  let columns: Record<string, number> | null = null;
+  let bytesRead = 0;
+  let lineCount = 0;
+  let cancelled = false;
+
+  for await (const line of lines) {
+    bytesRead += Buffer.byteLength(line, 'utf-8') + 1;
+    if (!line.trim()) { continue; }
+
+    const cells = splitCsvLine(line);
+    if (!columns) {
+      // 表头不符合时立即中止，避免读完整个文件才报错
+      columns = mapCsvColumns(cells);
+      if (columns.time === undefined || columns.bpm === undefined) {
+        lines.close();
+        stream.destroy();
+        throw new Error('CSV 缺少时间列（timestamp/time/date）或心率列（bpm/heartRate）');
+      }
+      continue;
+    }
+    aggregator.addCsvRow(cells, columns);
+
+    if (++lineCount % 10000 === 0) {
+      options.onProgress?.(bytesRead, totalBytes);
+      if (options.isCancelled?.()) {
+        cancelled = true;
+        lines.close();
+        stream.destroy();
+        break;
+      }
+    }
+  }
+
+  return aggregator.finish(cancelled);
+}
+
+// ─── 聚合 ───────────────────────────────────────
+
+/** 单日聚合中间状态 */
+interface DayState {
+  summary: DailySummary;
+  heartRateTs: number[];
+  /** 指标 → 来源 → 当日累计（iPhone 与 Apple Watch 会重复记录同一段步数，最终只取一个来源） */
+  health: Partial<Record<HealthKey, Map<string, number>>>;
+  oxygenSum: number;
+  oxygenCount: number;
+}
+
+class DayAggregator {
+  private days = new Map<string, DayState>();
+  private samples: RawSample[] = [];
+  private records = 0;
+  private skipped = 0;
+
+  constructor(private options: ImportOptions) {}
+
+  addAppleHealthRecord(attrs: Record<string, string>): void {
+    const kind = APPLE_HEALTH_TYPES[attrs.type];
+    if (!kind) { return; } // 其他类型（睡眠、心电图等）不处理，也不计入跳过
+
+    const ts = parseAppleHealthDate(attrs.startDate);
+    const source = attrs.sourceName ?? '';
+    let value = parseFloat(attrs.value);
+    if (isNaN(ts) || isNaN(value)) {
+      this.skipped++;
+      return;
+    }
+
+    switch (kind) {
+      case 'heartRate':
+        this.addHeartRate(ts, value);
+        break;
+      case 'bloodOxygen':
+        // Apple Health 以 0-1 小数存储百分比
+        this.addOxygen(ts, value <= 1 ? value * 100 : value);
+        break;
+      case 'calories':
+        if (attrs.unit === 'kJ') { value /= 4.184; }
+        this.addHealth(ts, 'calories', value, 'sum', source);
+        break;
+      case 'distance':
+        this.addHealth(ts, 'distance', value * (DISTANCE_UNITS[attrs.unit] ?? 1), 'sum', source);
+        break;
+      default:
+        this.addHealth(ts, kind, value, 'sum', source);
+    }
+    this.records++;
+  }
+
+  addCsvRow(cells: string[], columns: Record<string, number>): void {
+    const ts = parseCsvTime(cells[columns.time]);
+    const bpm = parseFloat(cells[columns.bpm]);
+    if (isNaN(ts) || isNaN(bpm)) {
+      this.skipped++;
+      return;
+    }
+
+    this.addHeartRate(ts, bpm);
+    // 本插件导出的健康字段为当日累计快照，按最大值聚合
+    for (const key of ['stepCount', 'calories', 'distance'] as const) {
+      const value = columns[key] !== undefined ? parseFloat(cells[columns[key]]) : NaN;
+      if (!isNaN(value)) { this.addHealth(ts, key, value, 'max', ''); }
+    }
+    const oxygen = columns.bloodOxygen !== undefined ? parseFloat(cells[columns.bloodOxygen]) : NaN;
+    if (!isNaN(oxygen)) { this.addOxygen(ts, oxygen); }
+    this.records++;
+  }
+
+  finish(cancelled: boolean): ImportResult {
+    const summaries: DailySummary[] = [];
+    for (const date of Array.from(this.days.keys()).sort()) {
+      const state = this.days.get(date)!;
+      const s = state.summary;
+      s.totalDuration = computeDuration(state.heartRateTs);
+      for (const key of ['stepCount', 'calories', 'distance'] as const) {
+        const bySource = state.health[key];
+        // 多个来源记录同一指标时取当日累计最高的来源，避免重复计数
+        if (bySource) { s[key] = Math.round(Math.max(...bySource.values())); }
+      }
+      if (state.oxygenCount > 0) { s.bloodOxygen = Math.round((state.oxygenSum / state.oxygenCount) * 10) / 10; }
+      summaries.push(s);
+    }
+    this.samples.sort((a, b) => a.ts - b.ts);
+    return { summaries, samples: this.samples, records: this.records, skipped: this.skipped, cancelled };
+  }
+
+  private addHeartRate(ts: number, bpm: number): void {
+    if (bpm <= 0 || bpm > 250) {
+      this.skipped++;
+      return;
+    }
+    const state = this.getDay(ts);
+    const s = state.summary;
+    const hour = new Date(ts).getHours();
+
+    s.samples++;
+    s.bpmSum += bpm;
+    s.min = Math.min(s.min, bpm);
+    s.max = Math.max(s.max, bpm);
+    s.avg = Math.round(s.bpmSum / s.samples);
+    s.hourlySamples[hour]++;
+    s.hourlyBpmSum[hour] += bpm;
+    s.hourlyAvg[hour] = Math.round(s.hourlyBpmSum[hour] / s.hourlySamples[hour]);
+    const zone = this.options.zoneOf(bpm);
+    s.zoneDistribution[zone] = (s.zoneDistribution[zone] || 0) + 1;
+    state.heartRateTs.push(ts);
+
+    if (ts >= this.options.sampleSinceTs) {
+      this.samples.push({ ts, bpm });
+    }
+  }
+
+  private addOxygen(ts: number, value: number): void {
+    const state = this.getDay(ts);
+    state.oxygenSum += value;
+    state.oxygenCount++;
+  }
+
+  private addHealth(ts: number, key: HealthKey, value: number, mode: HealthMode, source: string): void {
+    const health = this.getDay(ts).health;
+    const bySource = health[key] ?? (health[key] = new Map());
+    const current = bySource.get(source);
+    if (current === undefined) {
+      bySource.set(source, value);
+    } else {
+      bySource.set(source, mode === 'sum' ? current + value : Math.max(current, value));
+    }
+  }
+
+  private getDay(ts: number): DayState {
+    const date = toDateString(ts);
+    let state = this.days.get(date);
+    if (!state) {
+      state = {
+        summary: {
+          date,
+          totalDuration: 0,
+          samples: 0,
+          min: Infinity,
+          max: -Infinity,
+          avg: 0,
+          bpmSum: 0,
+          zoneDistribution: {},
+          hourlyAvg: new Array(24).fill(null),
+          hourlySamples: new Array(24).fill(0),
+          hourlyBpmSum: new Array(24).fill(0),
+          imported: true,
+        },
+        heartRateTs: [],
+        health: {},
+        oxygenSum: 0,
+        oxygenCount: 0,
+      };
+      this.days.set(date, state);
+    }
+    return state;
+  }
+}
+
+// ─── 解析工具 ───────────────────────────────────
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(tag)) !== null) {
+    attrs[match[1]] = match[2];
+  }
+  return attrs;
+}
+
+/** Apple Health 日期格式：`2024-01-15 09:30:00 +0800` */
+function parseAppleHealthDate(value: string | undefined): number {
+  if (!value) { return NaN; }
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(value.trim());
+  if (!match) { return Date.parse(value); }
+  return Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+}
+
+/** CSV 时间：毫秒/秒级时间戳或可解析的日期字符串 */
+function parseCsvTime(value: string | undefined): number {
+  if (!value) { return NaN; }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const num = parseFloat(trimmed);
+    return num < 1e12 ? num * 1000 : num;
+  }
+  return Date.parse(trimmed);
+}
+
+function mapCsvColumns(header: string[]): Record<string, number> {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const columns: Record<string, number> = {};
+  const find = (candidates: string[]) => {
+    for (const name of candidates) {
+      const idx = normalized.indexOf(name);
+      if (idx !== -1) { return idx; }
+    }
+    return undefined;
+  };
+
+  const time = find(CSV_TIME_COLUMNS);
+  const bpm = find(CSV_BPM_COLUMNS);
+  if (time !== undefined) { columns.time = time; }
+  if (bpm !== undefined) { columns.bpm = bpm; }
+  for (const key of ['stepCount', 'calories', 'distance', 'bloodOxygen']) {
+    const idx = normalized.indexOf(key.toLowerCase());
+    if (idx !== -1) { columns[key] = idx; }
+  }
+  return columns;
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+/** 累加相邻样本间隔（超过 DURATION_GAP 视为未监测） */
+function computeDuration(timestamps: number[]): number {
+  const sorted = timestamps.slice().sort((a, b) => a - b);
+  let total = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i] - sorted[i - 1];
+    if (gap <= DURATION_GAP) { total += gap; }
+  }
+  return total;
+}
+
+function toDateString(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
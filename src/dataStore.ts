@@ -2,14 +2,14 @@
  * Heart Socket - 数据持久化模块
  *
  * 使用 VS Code ExtensionContext.globalState 存储每日心率摘要，
- * 支持最近 30 天的历史数据浏览和日历展示。
+ * 支持最近 90 天的历史数据浏览和日历展示（可由 Apple Health / CSV 导入补全）。
  *
  * 存储结构：
  * - key: `dailyStats-YYYY-MM-DD`
  * - value: DailySummary 对象
  */
 import * as vscode from 'vscode';
-import type { DailySummary, HeartRateZoneName } from './types';
+import type { DailySummary, HeartRateZoneName, HrvMetrics } from './types';
 
 /** 最大保留天数 */
 const MAX_RETENTION_DAYS = 90;
@@ -17,6 +17,8 @@ const MAX_RETENTION_DAYS = 90;
 const PERSIST_INTERVAL = 5 * 60 * 1000;
 /** globalState key 前缀 */
 const KEY_PREFIX = 'dailyStats-';
+/** 高压阈值（压力指数 ≥ 此值计入高压分钟数） */
+const HIGH_STRESS_THRESHOLD = 70;
 
 export class DataStore {
   private context: vscode.ExtensionContext;
@@ -46,6 +48,8 @@ export class DataStore {
     }
 
     const s = this.currentSummary;
+    // 导入日叠加了实时记录后，不再允许被重复导入覆盖
+    if (s.imported) { delete s.imported; }
     s.samples++;
     s.bpmSum += bpm;
     s.min = Math.min(s.min, bpm);
@@ -64,6 +68,46 @@ export class DataStore {
     this.dirty = true;
   }
 
+  /**
+   * 记录一次 HRV 指标（由调用方按分钟节流），增量更新当日平均值
+   */
+  recordHrv(metrics: HrvMetrics): void {
+    const s = this.currentSummary;
+    const n = (s.hrvSamples ?? 0) + 1;
+    const avg = (prev: number | undefined, value: number): number =>
+      Math.round(((prev ?? 0) + (value - (prev ?? 0)) / n) * 10) / 10;
+    s.hrvRmssd = avg(s.hrvRmssd, metrics.rmssd);
+    s.hrvSdnn = avg(s.hrvSdnn, metrics.sdnn);
+    s.hrvPnn50 = avg(s.hrvPnn50, metrics.pnn50);
+    s.hrvSamples = n;
+    this.dirty = true;
+  }
+
+  /**
+   * 记录一次压力指数（由调用方按分钟节流）
+   */
+  recordStress(stressIndex: number): void {
+    const s = this.currentSummary;
+    const n = (s.stressSamples ?? 0) + 1;
+    s.stressAvg = Math.round((s.stressAvg ?? 0) + (stressIndex - (s.stressAvg ?? 0)) / n);
+    s.stressMax = Math.max(s.stressMax ?? 0, stressIndex);
+    if (stressIndex >= HIGH_STRESS_THRESHOLD) {
+      s.stressHighMinutes = (s.stressHighMinutes ?? 0) + 1;
+    }
+    s.stressSamples = n;
+    this.dirty = true;
+  }
+
+  /**
+   * 记录一次信号中断（连接期间超时未收到心率）
+   */
+  recordSignalGap(durationMs: number): void {
+    const s = this.currentSummary;
+    s.signalGaps = (s.signalGaps ?? 0) + 1;
+    s.signalGapSeconds = (s.signalGapSeconds ?? 0) + Math.round(durationMs / 1000);
+    this.dirty = true;
+  }
+
   /**
    * 更新监测时长
    */
@@ -136,6 +180,52 @@ export class DataStore {
     return result;
   }
 
+  /**
+   * 合并一天的导入数据（zoneDistribution 为计数）
+   *
+   * - 插件自身已记录的日期：以实时记录为准，仅补充缺失的健康指标
+   * - 未记录或此前由导入生成的日期：整体覆盖（重复导入幂等）
+   * - 只有健康指标、没有心率的日期：仅补充到已有记录，不单独生成心率摘要
+   * - 超出保留期的日期：忽略
+   */
+  importSummary(imported: DailySummary): 'imported' | 'healthOnly' | 'skipped' | 'expired' {
+    const cutoff = new Date(Date.now() - MAX_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const cutoffStr = `${cutoff.getFullYear()}-${String(cutoff.getMonth() + 1).padStart(2, '0')}-${String(cutoff.getDate()).padStart(2, '0')}`;
+    if (imported.date < cutoffStr) { return 'expired'; }
+
+    const isToday = imported.date === this.currentDate;
+    const existing = isToday
+      ? (this.currentSummary.samples > 0 ? this.currentSummary : null)
+      : this.getSummary(imported.date);
+
+    if (!existing && imported.samples === 0) { return 'skipped'; }
+
+    if (existing && (!existing.imported || imported.samples === 0)) {
+      const merged: DailySummary = {
+        ...existing,
+        stepCount: existing.stepCount ?? imported.stepCount,
+        calories: existing.calories ?? imported.calories,
+        distance: existing.distance ?? imported.distance,
+        bloodOxygen: existing.bloodOxygen ?? imported.bloodOxygen,
+      };
+      if (isToday) {
+        this.currentSummary = merged;
+        this.dirty = true;
+      } else {
+        this.context.globalState.update(KEY_PREFIX + imported.date, merged);
+      }
+      return 'healthOnly';
+    }
+
+    if (isToday) {
+      this.currentSummary = { ...imported };
+      this.dirty = true;
+    } else {
+      this.context.globalState.update(KEY_PREFIX + imported.date, this.normalizeZoneDistribution(imported));
+    }
+    return 'imported';
+  }
+
   /**
    * 强制持久化
    */
@@ -4,7 +4,7 @@
  * Apple Watch 心率实时监测 VSCode 插件
  *
  * 功能：
- * - 通过 WebSocket 连接心率数据源（HDS / HypeRate / Pulsoid / 自定义）
+ * - 通过 WebSocket 连接心率数据源（HDS / HDS Cloud / HypeRate / Pulsoid / 自定义）
  * - 在状态栏实时显示心率 BPM
  * - 根据心率区间自动变色
  * - 高/低心率告警通知
@@ -33,6 +33,10 @@ export function activate(context: vscode.ExtensionContext): void {
       id: 'heartSocket.disconnect',
       handler: () => manager?.disconnect(),
     },
+    {
+      id: 'heartSocket.retryNow',
+      handler: () => manager?.retryNow(),
+    },
     {
       id: 'heartSocket.switchProvider',
       handler: () => manager?.switchProvider(),
@@ -45,6 +49,26 @@ export function activate(context: vscode.ExtensionContext): void {
       id: 'heartSocket.quickActions',
       handler: () => manager?.quickActions(),
     },
+    {
+      id: 'heartSocket.exportData',
+      handler: () => manager?.exportData(),
+    },
+    {
+      id: 'heartSocket.importData',
+      handler: () => manager?.importData(),
+    },
+    {
+      id: 'heartSocket.editAlertRules',
+      handler: () => manager?.editAlertRules(),
+    },
+    {
+      id: 'heartSocket.clearCredentials',
+      handler: () => manager?.clearCredentials(),
+    },
+    {
+      id: 'heartSocket.signInPulsoid',
+      handler: () => { manager?.signInPulsoid(); },
+    },
   ];
 
   for (const cmd of commands) {
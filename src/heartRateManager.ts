@@ -11,33 +11,72 @@ import * as vscode from 'vscode';
 import * as os from 'os';
 import { getConfig, onConfigChange } from './config';
 import { StatusBarManager } from './statusBarManager';
-import { AlertManager } from './alertManager';
+import { AlertManager, buildDefaultAlertRules } from './alertManager';
+import { AlertHistory } from './alertHistory';
+import { CredentialStore } from './credentialStore';
+import { PulsoidAuth } from './pulsoidAuth';
 import { MotionAnalyzer } from './motionAnalyzer';
 import { EditorActivityTracker } from './editorActivityTracker';
-import { HdsProvider } from './providers/hdsProvider';
+import { HdsProvider, getPairingToken, regeneratePairingToken } from './providers/hdsProvider';
+import { HdsCloudProvider } from './providers/hdsCloudProvider';
 import { HypeRateProvider } from './providers/hyperateProvider';
 import { PulsoidProvider } from './providers/pulsoidProvider';
 import { CustomProvider } from './providers/customProvider';
+import { BleProvider } from './providers/bleProvider';
+import { MqttProvider } from './providers/mqttProvider';
+import { FusionProvider } from './providers/fusionProvider';
+import type { ActiveProviderChange } from './providers/fusionProvider';
 import { DataStore } from './dataStore';
-import { ConnectionStatus, WebSocketError } from './types';
+import { SampleStore } from './sampleStore';
+import { BroadcastServer } from './broadcastServer';
+import { HrvCalculator } from './hrvCalculator';
+import { SignalWatchdog } from './signalWatchdog';
+import { validateJsonPath } from './jsonPath';
+import type { SignalGap } from './signalWatchdog';
+import { formatExport } from './dataExporter';
+import type { CsvContent, ExportFormat } from './dataExporter';
+import { importAppleHealth, importCsv } from './dataImporter';
+import type { ImportFormat, ImportResult } from './dataImporter';
+import { ConnectionStatus, CredentialError, ReconnectExhaustedError, ServerCertificateError, WebSocketError } from './types';
 import type {
   HeartRateData,
   HealthData,
+  HealthDataType,
   MotionData,
   MotionAnalysisResult,
   HealthSnapshot,
   HeartSocketConfig,
   HeartRateStats,
   ProviderType,
+  CustomTransportType,
   IHeartRateProvider,
+  ReconnectInfo,
   CodingIntensityLevel,
   PostureState,
   FlowState,
   HeartRateZoneName,
+  RawSample,
+  RRIntervalData,
+  AlertEvent,
+  AlertKind,
+  AlertRecord,
+  AlertResponse,
+  AlertSeverity,
 } from './types';
 
 /** 心率历史记录最大保留数量（支持最多 12 小时回溯） */
 const MAX_HISTORY_SIZE = 43200; // 12小时（1条/秒）
+/** HRV 写入当日摘要的间隔 (ms) */
+const HRV_RECORD_INTERVAL = 60 * 1000;
+/** 压力指数写入当日摘要的间隔 (ms) */
+const STRESS_RECORD_INTERVAL = 60 * 1000;
+/** Stats 面板「告警」页展示的天数 / 最大条数 */
+const ALERT_HISTORY_DAYS = 30;
+const ALERT_HISTORY_LIMIT = 500;
+/** 趋势图断开阈值默认值（信号丢失检测关闭时使用） */
+const DEFAULT_CHART_GAP_MS = 30 * 1000;
+/** Webview 请求中的日期格式（YYYY-MM-DD） */
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 export class HeartRateManager {
   private provider: IHeartRateProvider | null = null;
@@ -70,6 +109,17 @@ export class HeartRateManager {
 
   // 健康数据快照（最新值）
   private healthSnapshot: HealthSnapshot = {};
+  // 各项健康数据的最后更新时间（用于标注数据年龄）
+  private healthUpdatedAt: Partial<Record<HealthDataType, number>> = {};
+
+  // 信号看门狗（连接期间超时未收到心率）
+  private signalWatchdog: SignalWatchdog;
+  private signalLostAlertShowing: boolean = false; // 防重复弹窗
+
+  // HRV（RR 间期滚动窗口）
+  private hrvCalculator: HrvCalculator = new HrvCalculator();
+  private lastHrvRecordTime: number = 0;
+  private lastStressRecordTime: number = 0;
 
   // 输出通道（日志）
   private outputChannel: vscode.OutputChannel;
@@ -83,21 +133,58 @@ export class HeartRateManager {
 
   // 数据持久化
   private dataStore: DataStore;
+  private sampleStore: SampleStore;
+  private alertHistory: AlertHistory;
+
+  // 凭据（SecretStorage）
+  private credentials: CredentialStore;
+  private pulsoidAuth: PulsoidAuth;
+  private pulsoidRefreshAttempted: boolean = false; // 本轮连接已尝试续期，避免续期后仍被拒绝时循环重连
+
+  // 实时广播（/live 订阅，与数据源无关）
+  private broadcastServer: BroadcastServer;
 
   // 网络变化监控（HDS 本地模式）
   private lastKnownIp: string | null = null;
   private networkMonitorTimer: ReturnType<typeof setInterval> | null = null;
   private static readonly NETWORK_CHECK_INTERVAL = 15_000; // 15秒
 
+  // 已安排的下一次重连（用于快捷菜单「立即重试」）
+  private pendingReconnect: ReconnectInfo | null = null;
+
+  // 重连次数用尽后等待网络恢复（本机网络地址变化时自动重试）
+  private networkResumeSnapshot: string = '';
+  private networkResumeTimer: ReturnType<typeof setInterval> | null = null;
+  private static readonly NETWORK_RESUME_CHECK_INTERVAL = 5_000; // 5秒
+
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
     this.config = getConfig();
     this.statusBar = new StatusBarManager(this.config);
     this.alertManager = new AlertManager(this.config);
+    this.alertHistory = new AlertHistory(context);
+    this.credentials = new CredentialStore(context);
+    this.credentials.on('log', (msg: string) => this.log(msg));
+    this.pulsoidAuth = new PulsoidAuth(this.credentials, this.config.pulsoidClientId);
+    this.pulsoidAuth.on('log', (msg: string) => this.log(msg));
+    this.bindAlertManagerEvents();
+    this.signalWatchdog = new SignalWatchdog(this.config.staleDataSeconds);
+    this.bindSignalWatchdogEvents();
     this.motionAnalyzer = new MotionAnalyzer(this.config);
     this.editorActivityTracker = new EditorActivityTracker();
     this.outputChannel = vscode.window.createOutputChannel('Heart Socket');
     this.dataStore = new DataStore(context);
+    this.sampleStore = new SampleStore(context, this.config.sampleRetentionDays);
+    this.sampleStore.on('log', (msg: string) => this.log(msg));
+    this.broadcastServer = new BroadcastServer();
+    this.bindBroadcastServerEvents();
+    this.broadcastServer.setOverlayOptions({
+      sparklineMinutes: this.config.overlaySparklineMinutes,
+      showBadges: this.config.overlayShowBadges,
+    });
+    if (this.config.enableBroadcast) {
+      this.broadcastServer.start(this.config.broadcastPort, this.config.broadcastHost);
+    }
 
     // 绑定 MotionAnalyzer 事件
     this.bindMotionAnalyzerEvents();
@@ -128,20 +215,22 @@ export class HeartRateManager {
     if (this.provider) {
       this.disconnect();
     }
+    this.stopNetworkResumeWatch();
 
     try {
       this.hasEverConnected = false; // 重置连接标志
-      this.provider = this.createProvider(this.config.provider);
+      this.provider = this.createProviderChain();
       this.bindProviderEvents(this.provider);
       this.resetStats();
+      this.broadcastServer.resetState();
       this.log(`正在连接到 ${this.provider.name}...`);
       this.provider.connect();
 
       // 启动编辑器活动追踪（用于兼容回退方案）
       this.editorActivityTracker.start();
 
-      // HDS 本地模式：启动网络变化监控
-      if (this.config.provider === 'hds') {
+      // HDS 本地模式（含作为备用数据源）：启动网络变化监控
+      if (this.getProviderChain().includes('hds')) {
         this.startNetworkMonitor();
       }
     } catch (error) {
@@ -156,16 +245,34 @@ export class HeartRateManager {
    */
   disconnect(): void {
     this.stopNetworkMonitor();
+    this.stopNetworkResumeWatch();
+    this.pendingReconnect = null;
     this.editorActivityTracker.stop();
+    this.signalWatchdog.stop();
     if (this.provider) {
       this.log('断开连接');
       this.provider.dispose();
       this.provider = null;
+      this.broadcastServer.publishStatus(ConnectionStatus.Disconnected, this.getProviderLabel(this.config.provider));
     }
     this.hasEverConnected = false;
+    this.statusBar.updateActiveSource(null);
     this.statusBar.updateStatus(ConnectionStatus.Disconnected);
   }
 
+  /**
+   * 立即重试连接：跳过重连等待（已停止重连时重新开始）；尚未连接时直接连接
+   */
+  retryNow(): void {
+    if (!this.provider) {
+      void this.connect();
+      return;
+    }
+    this.stopNetworkResumeWatch();
+    this.log('立即重试连接');
+    this.provider.retryNow();
+  }
+
   /**
    * 快速操作菜单（已连接时点击状态栏）
    */
@@ -213,18 +320,39 @@ export class HeartRateManager {
     const currentZone = this.getHeartRateZone(this.stats.current);
     const zoneLabel = zoneLabels[currentZone] ?? '';
 
-    const items: vscode.QuickPickItem[] = [
+    const items: vscode.QuickPickItem[] = [];
+    if (this.pendingReconnect || this.provider?.status === ConnectionStatus.Error) {
+      items.push({
+        label: '$(refresh) 立即重试',
+        description: this.pendingReconnect ? `跳过等待（第 ${this.pendingReconnect.attempt} 次重连）` : '重新连接',
+      }, { label: '', kind: vscode.QuickPickItemKind.Separator });
+    }
+    items.push(
       {
         label: '$(graph) 查看心率统计',
         description: this.stats.samples > 0
           ? `当前 ${this.stats.current} BPM ${zoneLabel ? `· ${zoneLabel}` : ''}`
           : '暂无数据',
       },
+      {
+        label: '$(export) 导出历史数据',
+        description: 'CSV / NDJSON / TCX',
+      },
+      {
+        label: '$(cloud-download) 导入历史数据',
+        description: 'Apple Health export.xml / CSV',
+      },
       { label: '', kind: vscode.QuickPickItemKind.Separator },
       {
         label: '$(gear) 打开设置',
         description: 'Heart Socket 配置项',
       },
+      {
+        label: '$(bell) 编辑告警规则',
+        description: this.config.alertRules.length > 0
+          ? `${this.config.alertRules.length} 条自定义规则`
+          : `默认规则 (> ${this.config.alertHighBpm} / < ${this.config.alertLowBpm} BPM)`,
+      },
       {
         label: '$(output) 查看输出日志',
         description: '调试与连接日志',
@@ -238,7 +366,29 @@ export class HeartRateManager {
         label: '$(settings-gear) 切换数据源',
         description: `当前: ${this.getProviderLabel(this.config.provider)}`,
       },
-    ];
+    );
+
+    // HDS Cloud 模式：提供 Cloud ID 查看入口
+    const cloudProvider = this.findProvider(HdsCloudProvider);
+    if (cloudProvider) {
+      const logIndex = items.findIndex((item) => item.label.includes('查看输出日志'));
+      items.splice(logIndex + 1, 0, {
+        label: '$(cloud) 复制 Cloud ID',
+        description: cloudProvider.getCloudId(),
+      });
+    }
+
+    // 开启广播时提供直播叠加层地址（广播端口未能启动时使用 HDS 端口）
+    const overlayUrl = this.broadcastServer.isRunning
+      ? this.broadcastServer.overlayUrl
+      : this.config.enableBroadcast ? this.findProvider(HdsProvider)?.overlayUrl : undefined;
+    if (overlayUrl) {
+      const logIndex = items.findIndex((item) => item.label.includes('查看输出日志'));
+      items.splice(logIndex + 1, 0, {
+        label: '$(device-camera-video) 复制叠加层地址',
+        description: overlayUrl,
+      });
+    }
 
     const selected = await vscode.window.showQuickPick(items, {
       placeHolder: 'Heart Socket — 选择操作',
@@ -248,12 +398,26 @@ export class HeartRateManager {
       return;
     }
 
-    if (selected.label.includes('查看心率统计')) {
+    if (selected.label.includes('立即重试')) {
+      this.retryNow();
+    } else if (selected.label.includes('查看心率统计')) {
       await this.showStats();
+    } else if (selected.label.includes('导出历史数据')) {
+      await this.exportData();
+    } else if (selected.label.includes('导入历史数据')) {
+      await this.importData();
     } else if (selected.label.includes('打开设置')) {
       await vscode.commands.executeCommand('workbench.action.openSettings', 'heartSocket');
+    } else if (selected.label.includes('编辑告警规则')) {
+      await this.editAlertRules();
     } else if (selected.label.includes('查看输出日志')) {
       this.outputChannel.show();
+    } else if (selected.label.includes('复制叠加层地址')) {
+      await vscode.env.clipboard.writeText(selected.description ?? '');
+      vscode.window.showInformationMessage('Heart Socket: 叠加层地址已复制，可在 OBS 中添加为「浏览器」来源');
+    } else if (selected.label.includes('复制 Cloud ID')) {
+      await vscode.env.clipboard.writeText(selected.description ?? '');
+      vscode.window.showInformationMessage(`Heart Socket: Cloud ID ${selected.description} 已复制到剪贴板`);
     } else if (selected.label.includes('断开连接')) {
       this.disconnect();
     } else if (selected.label.includes('切换数据源')) {
@@ -261,6 +425,232 @@ export class HeartRateManager {
     }
   }
 
+  /**
+   * 编辑告警规则
+   *
+   * 尚未配置 alertRules 时，先将 alertHighBpm / alertLowBpm 生成的默认规则写入用户设置（迁移），
+   * 再打开 settings.json 供直接编辑。
+   */
+  async editAlertRules(): Promise<void> {
+    if (this.config.alertRules.length === 0) {
+      const rules = buildDefaultAlertRules(this.config);
+      await vscode.workspace
+        .getConfiguration('heartSocket')
+        .update('alertRules', rules, vscode.ConfigurationTarget.Global);
+      vscode.window.showInformationMessage(
+        `Heart Socket: 已将高/低心率阈值迁移为 ${rules.length} 条告警规则（heartSocket.alertRules）`
+      );
+    }
+    await vscode.commands.executeCommand('workbench.action.openSettingsJson');
+  }
+
+  /**
+   * 清除已保存的凭据（Pulsoid / HypeRate Token）
+   */
+  async clearCredentials(): Promise<void> {
+    if (!(await this.credentials.hasAny())) {
+      vscode.window.showInformationMessage('Heart Socket: 当前没有已保存的凭据');
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      '将从系统安全存储中清除 Pulsoid / HypeRate Token 与 MQTT 密码，之后需重新配置才能连接。确定继续？',
+      { modal: true },
+      '清除'
+    );
+    if (confirm !== '清除') {
+      return;
+    }
+
+    await this.credentials.clearAll();
+    vscode.window.showInformationMessage('Heart Socket: 已清除所有已保存的凭据');
+  }
+
+  /**
+   * 导出历史数据（日期范围 → 格式 → 保存位置）
+   */
+  async exportData(): Promise<void> {
+    const range = await this.pickExportRange();
+    if (!range) {
+      return;
+    }
+
+    const formatItems: Array<vscode.QuickPickItem & { format: ExportFormat; csvContent?: CsvContent }> = [
+      { label: '$(table) CSV — 逐秒样本', description: '心率 + 健康数据 + Motion 分析字段', format: 'csv', csvContent: 'samples' },
+      { label: '$(table) CSV — 每日摘要', description: '最低/最高/平均、区间占比、每小时平均', format: 'csv', csvContent: 'summaries' },
+      { label: '$(json) NDJSON', description: '每日摘要 + 逐秒样本，每行一条 JSON', format: 'ndjson' },
+      { label: '$(pulse) Garmin TCX', description: 'Strava / Garmin Connect 等健身平台可导入', format: 'tcx' },
+    ];
+    const picked = await vscode.window.showQuickPick(formatItems, {
+      placeHolder: `导出 ${range.start} ~ ${range.end} 的数据 — 选择格式`,
+    });
+    if (!picked) {
+      return;
+    }
+
+    const ext = picked.format === 'ndjson' ? 'ndjson' : picked.format;
+    const suffix = picked.csvContent === 'summaries' ? '-summary' : '';
+    const fileName = `heart-socket-${range.start}_${range.end}${suffix}.${ext}`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(vscode.Uri.file(os.homedir()), fileName),
+      filters: { [picked.format.toUpperCase()]: [ext] },
+      saveLabel: '导出',
+    });
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const dates = this.datesInRange(range.start, range.end);
+      const summaryMap = this.dataStore.getMultipleSummaries(dates);
+      const summaries = dates.filter((d) => summaryMap[d]).map((d) => summaryMap[d]);
+      const startTs = new Date(`${range.start}T00:00:00`).getTime();
+      const endTs = new Date(`${range.end}T23:59:59.999`).getTime();
+      const samples = await this.sampleStore.readRange(startTs, endTs);
+
+      if (summaries.length === 0 && samples.length === 0) {
+        vscode.window.showWarningMessage(`Heart Socket: ${range.start} ~ ${range.end} 没有可导出的数据`);
+        return;
+      }
+
+      const content = formatExport(
+        { startDate: range.start, endDate: range.end, summaries, samples },
+        picked.format,
+        picked.csvContent
+      );
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+      this.log(`[Export] ${picked.format} → ${uri.fsPath} (${summaries.length} 天摘要, ${samples.length} 条样本)`);
+
+      const action = await vscode.window.showInformationMessage(
+        `Heart Socket: 已导出 ${samples.length} 条样本 / ${summaries.length} 天摘要`,
+        '打开文件',
+        '在文件夹中显示'
+      );
+      if (action === '打开文件') {
+        await vscode.commands.executeCommand('vscode.open', uri);
+      } else if (action === '在文件夹中显示') {
+        await vscode.commands.executeCommand('revealFileInOS', uri);
+      }
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log(`[Export] 导出失败: ${msg}`);
+      vscode.window.showErrorMessage(`Heart Socket: 导出失败 — ${msg}`);
+    }
+  }
+
+  /**
+   * 导入历史数据（Apple Health export.xml / CSV → 日摘要 + 原始样本）
+   */
+  async importData(): Promise<void> {
+    const sourceItems: Array<vscode.QuickPickItem & { format: ImportFormat }> = [
+      {
+        label: '$(heart) Apple Health export.xml',
+        description: '健康 App → 个人资料 → 导出所有健康数据（解压后选择 export.xml）',
+        format: 'appleHealth',
+      },
+      {
+        label: '$(table) CSV',
+        description: '首行表头，需包含时间列（timestamp/time/date）与心率列（bpm/heartRate）',
+        format: 'csv',
+      },
+    ];
+    const source = await vscode.window.showQuickPick(sourceItems, {
+      placeHolder: 'Heart Socket — 选择导入来源',
+    });
+    if (!source) {
+      return;
+    }
+
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: '导入',
+      filters: source.format === 'appleHealth' ? { 'Apple Health': ['xml'] } : { CSV: ['csv'] },
+    });
+    if (!files || files.length === 0) {
+      return;
+    }
+    const filePath = files[0].fsPath;
+
+    let result: ImportResult;
+    try {
+      result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Heart Socket: 正在导入历史数据',
+          cancellable: true,
+        },
+        (progress, token) => {
+          let lastPct = 0;
+          const options = {
+            zoneOf: (bpm: number) => this.getHeartRateZone(bpm),
+            sampleSinceTs: Date.now() - this.config.sampleRetentionDays * 24 * 60 * 60 * 1000,
+            isCancelled: () => token.isCancellationRequested,
+            onProgress: (bytesRead: number, totalBytes: number) => {
+              const pct = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 0;
+              if (pct > lastPct) {
+                progress.report({
+                  increment: pct - lastPct,
+                  message: `${(bytesRead / 1048576).toFixed(0)} / ${(totalBytes / 1048576).toFixed(0)} MB`,
+                });
+                lastPct = pct;
+              }
+            },
+          };
+          return source.format === 'appleHealth'
+            ? importAppleHealth(filePath, options)
+            : importCsv(filePath, options);
+        }
+      );
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log(`[Import] 解析失败: ${msg}`);
+      vscode.window.showErrorMessage(`Heart Socket: 导入失败 — ${msg}`);
+      return;
+    }
+
+    if (result.cancelled) {
+      this.log(`[Import] 已取消（已解析 ${result.records} 条记录，未写入）`);
+      vscode.window.showWarningMessage('Heart Socket: 导入已取消，未写入任何数据');
+      return;
+    }
+
+    // 合并到 DataStore（区间口径与实时记录一致）
+    let imported = 0;
+    let healthOnly = 0;
+    let skipped = 0;
+    let expired = 0;
+    for (const summary of result.summaries) {
+      const outcome = this.dataStore.importSummary(summary);
+      if (outcome === 'imported') { imported++; }
+      else if (outcome === 'healthOnly') { healthOnly++; }
+      else if (outcome === 'skipped') { skipped++; }
+      else { expired++; }
+    }
+    await this.sampleStore.importSamples(result.samples);
+
+    this.log(
+      `[Import] ${filePath}: ${result.records} 条记录（跳过 ${result.skipped}），` +
+      `${imported} 天导入 / ${healthOnly} 天仅补充健康数据 / ${skipped} 天无心率且无已有记录 / ${expired} 天超出保留期，` +
+      `${result.samples.length} 条原始样本`
+    );
+
+    if (result.summaries.every(s => s.samples === 0) && healthOnly === 0) {
+      vscode.window.showWarningMessage('Heart Socket: 文件中未找到可导入的心率数据');
+      return;
+    }
+
+    const details = [`${imported} 天心率摘要`];
+    if (healthOnly > 0) { details.push(`${healthOnly} 天已有记录（仅补充健康数据）`); }
+    if (expired > 0) { details.push(`${expired} 天超出 90 天保留期已忽略`); }
+    const action = await vscode.window.showInformationMessage(
+      `Heart Socket: 导入完成 — ${details.join('，')}`,
+      '查看统计'
+    );
+    if (action === '查看统计') {
+      await this.showStats();
+    }
+  }
+
   /**
    * 切换数据源（引导式向导）
    */
@@ -272,6 +662,12 @@ export class HeartRateManager {
         detail: '纯局域网通信，零延迟，不依赖互联网，需要同一 WiFi',
         picked: this.config.provider === 'hds',
       },
+      {
+        label: '$(cloud) HDS Cloud',
+        description: '免费 — Apple Watch 云端中转',
+        detail: 'Watch 通过蜂窝 / 任意网络推送到 Firebase，无需同一 WiFi，使用固定 Cloud ID',
+        picked: this.config.provider === 'hds-cloud',
+      },
       {
         label: '$(pulse) Pulsoid',
         description: '免费 — 需要 Access Token',
@@ -285,11 +681,23 @@ export class HeartRateManager {
         picked: this.config.provider === 'hyperate',
       },
       {
-        label: '$(plug) 自定义 WebSocket',
-        description: '高级 — 连接任意 WebSocket 服务器',
+        label: '$(plug) 自定义数据源',
+        description: '高级 — 连接任意 WebSocket / SSE / HTTP / TCP / UDP 数据源',
         detail: '自建心率服务或第三方数据源，支持 JSON Path 配置',
         picked: this.config.provider === 'custom',
       },
+      {
+        label: '$(radio-tower) BLE 心率带',
+        description: '高级 — Polar H10 等胸带，经本地桥接程序直连',
+        detail: '桥接程序转发标准 0x2A37 心率帧，支持 RR 间期，不依赖云服务',
+        picked: this.config.provider === 'ble',
+      },
+      {
+        label: '$(server) MQTT',
+        description: '高级 — 订阅 MQTT Broker 中的心率主题',
+        detail: '适合已将心率发布到 Mosquitto / Home Assistant 的家庭实验室，支持 JSON Path 配置',
+        picked: this.config.provider === 'mqtt',
+      },
     ];
 
     const selected = await vscode.window.showQuickPick(items, {
@@ -304,9 +712,12 @@ export class HeartRateManager {
     // 从 label 中提取 provider 名称（去掉 codicon 前缀）
     const labelMap: Record<string, ProviderType> = {
       '$(heart) Health Data Server (HDS)': 'hds',
+      '$(cloud) HDS Cloud': 'hds-cloud',
       '$(pulse) Pulsoid': 'pulsoid',
       '$(broadcast) HypeRate': 'hyperate',
-      '$(plug) 自定义 WebSocket': 'custom',
+      '$(plug) 自定义数据源': 'custom',
+      '$(radio-tower) BLE 心率带': 'ble',
+      '$(server) MQTT': 'mqtt',
     };
 
     const newProvider = labelMap[selected.label];
@@ -349,12 +760,18 @@ export class HeartRateManager {
     switch (type) {
       case 'hds':
         return this.guideHdsSetup();
+      case 'hds-cloud':
+        return this.guideHdsCloudSetup();
       case 'pulsoid':
         return this.guidePulsoidSetup();
       case 'hyperate':
         return this.guideHypeRateSetup();
       case 'custom':
         return this.guideCustomSetup();
+      case 'ble':
+        return this.guideBleSetup();
+      case 'mqtt':
+        return this.guideMqttSetup();
       default:
         return false;
     }
@@ -388,15 +805,71 @@ export class HeartRateManager {
   }
 
   /**
-   * Pulsoid 引导 — 打开 Token 页面 → 用户粘贴 Token
+   * HDS Cloud 引导 — 展示持久化的 Cloud ID，可复制或重新生成
+   */
+  private async guideHdsCloudSetup(): Promise<boolean> {
+    // 复用 Provider 的 Cloud ID 读写逻辑（globalState 持久化），不发起连接
+    const cloud = new HdsCloudProvider(this.config, this.context);
+    cloud.on('log', (msg: string) => this.log(`[HDS Cloud] ${msg}`));
+
+    try {
+      let cloudId = cloud.getCloudId();
+
+      while (true) {
+        const action = await vscode.window.showQuickPick(
+          [
+            { label: '$(check) 使用此 Cloud ID', description: cloudId, detail: '在 Apple Watch HDS App 中打开 HDS Cloud 开关，并在 Overlay IDs 中填入此 ID' },
+            { label: '$(copy) 复制 Cloud ID', description: '复制到剪贴板' },
+            { label: '$(refresh) 重新生成 Cloud ID', description: '旧 ID 将失效，Watch 端需同步修改' },
+          ],
+          {
+            title: `HDS Cloud — 您的 Cloud ID: ${cloudId}`,
+            placeHolder: '选择操作',
+            ignoreFocusOut: true,
+          }
+        );
+
+        if (!action) {
+          return false;
+        }
+
+        if (action.label.includes('使用此 Cloud ID')) {
+          return true;
+        }
+
+        if (action.label.includes('复制 Cloud ID')) {
+          await vscode.env.clipboard.writeText(cloudId);
+          vscode.window.showInformationMessage(`Heart Socket: Cloud ID ${cloudId} 已复制到剪贴板`);
+          continue;
+        }
+
+        if (action.label.includes('重新生成 Cloud ID')) {
+          const confirm = await vscode.window.showWarningMessage(
+            `重新生成后，旧 Cloud ID ${cloudId} 将不再接收数据，需要在 Watch 上填入新 ID。确定继续？`,
+            { modal: true },
+            '重新生成'
+          );
+          if (confirm === '重新生成') {
+            cloudId = await cloud.regenerateCloudId();
+          }
+        }
+      }
+    } finally {
+      cloud.dispose();
+    }
+  }
+
+  /**
+   * Pulsoid 引导 — 浏览器登录（OAuth）或手动粘贴 Token
    */
   private async guidePulsoidSetup(): Promise<boolean> {
     // 如果已有 token，询问是否使用现有的
-    if (this.config.apiToken) {
+    const existingToken = await this.credentials.getCredential('pulsoidToken');
+    if (existingToken) {
       const keep = await vscode.window.showQuickPick(
         [
-          { label: '使用现有 Token', description: `${this.config.apiToken.substring(0, 8)}...` },
-          { label: '重新获取 Token', description: '打开 Pulsoid 页面生成新 Token' },
+          { label: '使用现有 Token', description: `${existingToken.substring(0, 8)}...` },
+          { label: '重新授权', description: '重新登录 Pulsoid 或粘贴新 Token' },
         ],
         { title: 'Pulsoid — 已检测到 Access Token' }
       );
@@ -409,6 +882,75 @@ export class HeartRateManager {
       }
     }
 
+    // 未配置 OAuth 客户端时只能手动粘贴 Token
+    if (!this.config.pulsoidClientId) {
+      return this.promptPulsoidToken();
+    }
+
+    const method = await vscode.window.showQuickPick(
+      [
+        { label: '$(sign-in) 使用 Pulsoid 登录', description: '推荐：浏览器授权，Token 自动续期', oauth: true },
+        { label: '$(key) 手动粘贴 Token', description: '在 Pulsoid 页面生成 Token 后粘贴', oauth: false },
+      ],
+      { title: 'Pulsoid — 选择授权方式' }
+    );
+    if (!method) {
+      return false;
+    }
+    return method.oauth ? this.signInPulsoid() : this.promptPulsoidToken();
+  }
+
+  /**
+   * 使用 Pulsoid 登录（OAuth 授权码 + PKCE 流程，需先配置 heartSocket.pulsoidClientId）
+   */
+  async signInPulsoid(): Promise<boolean> {
+    const redirectPort = this.config.pulsoidRedirectPort;
+    const clientId = this.config.pulsoidClientId;
+    if (!clientId) {
+      const action = await vscode.window.showWarningMessage(
+        'Heart Socket: 使用 Pulsoid 登录需先配置 OAuth 客户端 ID（heartSocket.pulsoidClientId），也可以手动粘贴 Token',
+        '打开设置',
+        '手动输入 Token'
+      );
+      if (action === '打开设置') {
+        await vscode.commands.executeCommand('workbench.action.openSettings', 'heartSocket.pulsoidClientId');
+        return false;
+      }
+      return action === '手动输入 Token' ? this.promptPulsoidToken() : false;
+    }
+
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Pulsoid: 请在浏览器中完成登录授权...',
+          cancellable: true,
+        },
+        (_progress, cancellation) => {
+          const controller = new AbortController();
+          cancellation.onCancellationRequested(() => controller.abort());
+          return this.pulsoidAuth.signIn({
+            clientId,
+            redirectPort,
+            openBrowser: (url) => vscode.env.openExternal(vscode.Uri.parse(url)),
+            signal: controller.signal,
+          });
+        }
+      );
+      vscode.window.showInformationMessage('Heart Socket: Pulsoid 登录成功，Token 将自动续期');
+      return true;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      this.log(`Pulsoid 登录失败: ${msg}`);
+      vscode.window.showErrorMessage(`Heart Socket: Pulsoid 登录失败: ${msg}`);
+      return false;
+    }
+  }
+
+  /**
+   * 手动粘贴 Pulsoid Token — 打开 Token 页面 → 用户粘贴 Token
+   */
+  private async promptPulsoidToken(): Promise<boolean> {
     // 打开 Pulsoid Token 页面
     const openBrowser = await vscode.window.showInformationMessage(
       'Pulsoid: 需要获取 Access Token。点击"获取 Token"将打开浏览器，登录后复制您的 Token。',
@@ -443,8 +985,8 @@ export class HeartRateManager {
       return false;
     }
 
-    const wsConfig = vscode.workspace.getConfiguration('heartSocket');
-    await wsConfig.update('apiToken', token.trim(), vscode.ConfigurationTarget.Global);
+    // 保存到 SecretStorage（不写入 settings.json）
+    await this.pulsoidAuth.setManualToken(token.trim());
     return true;
   }
 
@@ -467,7 +1009,7 @@ export class HeartRateManager {
     const token = await vscode.window.showInputBox({
       title: 'HypeRate — 输入 API Token',
       prompt: '从 HypeRate 开发者后台获取的 API Token',
-      value: this.config.apiToken || undefined,
+      value: (await this.credentials.getCredential('hyperateToken')) || undefined,
       ignoreFocusOut: true,
       validateInput: (v) => (!v?.trim() ? 'Token 不能为空' : null),
     });
@@ -489,29 +1031,53 @@ export class HeartRateManager {
       return false;
     }
 
+    // Token 保存到 SecretStorage，Session ID 非敏感信息仍写入设置
+    await this.credentials.setCredential('hyperateToken', token.trim());
     const wsConfig = vscode.workspace.getConfiguration('heartSocket');
-    await wsConfig.update('apiToken', token.trim(), vscode.ConfigurationTarget.Global);
     await wsConfig.update('sessionId', sessionId.trim(), vscode.ConfigurationTarget.Global);
     return true;
   }
 
   /**
-   * 自定义 WebSocket 引导 — 输入 URL 和 JSON Path
+   * 自定义数据源引导 — 选择传输方式，输入地址和 JSON Path
    */
   private async guideCustomSetup(): Promise<boolean> {
-    // 输入 WebSocket URL
+    // 选择传输方式
+    const transports: Array<vscode.QuickPickItem & { transport: CustomTransportType; example: string; schemes: string[] }> = [
+      { label: '$(plug) WebSocket', description: 'ws:// 或 wss://', transport: 'websocket', example: 'ws://localhost:8080', schemes: ['ws://', 'wss://'] },
+      { label: '$(radio-tower) Server-Sent Events', description: 'http(s)://，每个事件的 data 为一条消息', transport: 'sse', example: 'http://192.168.1.10/events', schemes: ['http://', 'https://'] },
+      { label: '$(sync) HTTP 轮询', description: 'http(s)://，定时 GET，响应体为一条消息', transport: 'http-poll', example: 'http://192.168.1.10/api/heart-rate', schemes: ['http://', 'https://'] },
+      { label: '$(terminal) TCP 文本流', description: 'tcp://主机:端口，每行一条消息', transport: 'tcp', example: 'tcp://192.168.1.10:9000', schemes: ['tcp://'] },
+      { label: '$(broadcast) UDP 数据报', description: 'udp://监听地址:端口，每个数据报一条消息', transport: 'udp', example: 'udp://0.0.0.0:9000', schemes: ['udp://'] },
+    ];
+    for (const item of transports) {
+      item.picked = item.transport === this.config.customTransport;
+    }
+
+    const selected = await vscode.window.showQuickPick(transports, {
+      title: '自定义数据源 — 选择传输方式',
+      placeHolder: '数据源以何种方式推送心率数据',
+      ignoreFocusOut: true,
+    });
+
+    if (!selected) {
+      return false;
+    }
+
+    // 输入地址（仍为当前传输方式的地址时作为默认值）
+    const current = this.config.websocketUrl;
     const url = await vscode.window.showInputBox({
-      title: '自定义 WebSocket — 输入服务器地址',
-      prompt: 'WebSocket 连接地址（ws:// 或 wss://）',
-      value: this.config.websocketUrl || 'ws://localhost:8080',
-      placeHolder: 'ws://192.168.1.10:8080',
+      title: `自定义数据源 — 输入${selected.transport === 'udp' ? '监听' : '服务器'}地址`,
+      prompt: `数据源地址（${selected.description}）`,
+      value: selected.schemes.some((scheme) => current.startsWith(scheme)) ? current : selected.example,
+      placeHolder: selected.example,
       ignoreFocusOut: true,
       validateInput: (v) => {
         if (!v?.trim()) {
           return '地址不能为空';
         }
-        if (!v.startsWith('ws://') && !v.startsWith('wss://')) {
-          return '地址必须以 ws:// 或 wss:// 开头';
+        if (!selected.schemes.some((scheme) => v.trim().startsWith(scheme))) {
+          return `地址必须以 ${selected.schemes.join(' 或 ')} 开头`;
         }
         return null;
       },
@@ -521,13 +1087,33 @@ export class HeartRateManager {
       return false;
     }
 
+    // HTTP 轮询间隔
+    let pollInterval: number | undefined;
+    if (selected.transport === 'http-poll') {
+      const input = await vscode.window.showInputBox({
+        title: '自定义数据源 — 轮询间隔',
+        prompt: '每隔多少秒请求一次（0.2 - 60）',
+        value: String(this.config.customPollInterval),
+        ignoreFocusOut: true,
+        validateInput: (v) => {
+          const n = Number(v);
+          return Number.isFinite(n) && n >= 0.2 && n <= 60 ? null : '请输入 0.2 - 60 之间的数字';
+        },
+      });
+      if (input === undefined) {
+        return false;
+      }
+      pollInterval = Number(input);
+    }
+
     // 输入 JSON Path
     const jsonPath = await vscode.window.showInputBox({
-      title: '自定义 WebSocket — 心率字段路径',
-      prompt: 'JSON 中心率数值的字段路径（用 . 分隔嵌套），如数据是纯数字则留空',
+      title: '自定义数据源 — 心率字段路径',
+      prompt: 'JSON 中心率数值的 JSONPath（如 data.heart_rate、$.samples[-1].hr），如数据是纯数字则留空',
       value: this.config.heartRateJsonPath || 'heartRate',
       placeHolder: 'data.heart_rate',
       ignoreFocusOut: true,
+      validateInput: (v) => (v?.trim() ? validateJsonPath(v) : null),
     });
 
     if (jsonPath === undefined) {
@@ -535,13 +1121,126 @@ export class HeartRateManager {
     }
 
     const wsConfig = vscode.workspace.getConfiguration('heartSocket');
+    await wsConfig.update('customTransport', selected.transport, vscode.ConfigurationTarget.Global);
     await wsConfig.update('websocketUrl', url.trim(), vscode.ConfigurationTarget.Global);
+    if (pollInterval !== undefined) {
+      await wsConfig.update('customPollInterval', pollInterval, vscode.ConfigurationTarget.Global);
+    }
     if (jsonPath.trim()) {
       await wsConfig.update('heartRateJsonPath', jsonPath.trim(), vscode.ConfigurationTarget.Global);
     }
     return true;
   }
 
+  /**
+   * BLE 心率带引导 — 输入桥接程序地址
+   */
+  private async guideBleSetup(): Promise<boolean> {
+    const url = await vscode.window.showInputBox({
+      title: 'BLE 心率带 — 输入桥接地址',
+      prompt: '桥接程序的 WebSocket 地址（ws://），或命名管道 / Unix Socket 路径',
+      value: this.config.bleBridgeUrl || 'ws://127.0.0.1:8582',
+      placeHolder: 'ws://127.0.0.1:8582 或 \\\\.\\pipe\\heart-socket-ble',
+      ignoreFocusOut: true,
+      validateInput: (v) => {
+        if (!v?.trim()) {
+          return '地址不能为空';
+        }
+        if (v.startsWith('http://') || v.startsWith('https://')) {
+          return '请使用 ws:// / wss:// 地址或管道路径';
+        }
+        return null;
+      },
+    });
+
+    if (!url) {
+      return false;
+    }
+
+    const wsConfig = vscode.workspace.getConfiguration('heartSocket');
+    await wsConfig.update('bleBridgeUrl', url.trim(), vscode.ConfigurationTarget.Global);
+    return true;
+  }
+
+  /**
+   * MQTT 引导 — 输入 Broker 地址、账号和心率主题
+   */
+  private async guideMqttSetup(): Promise<boolean> {
+    const url = await vscode.window.showInputBox({
+      title: 'MQTT — 输入 Broker 地址',
+      prompt: 'mqtt://（TCP）、mqtts://（TLS）、ws:// 或 wss://（WebSocket）',
+      value: this.config.mqttBrokerUrl || 'mqtt://localhost:1883',
+      placeHolder: 'mqtt://192.168.1.10:1883',
+      ignoreFocusOut: true,
+      validateInput: (v) => {
+        if (!v?.trim()) {
+          return '地址不能为空';
+        }
+        if (!/^(mqtts?|wss?):\/\/[^/]/.test(v.trim())) {
+          return '地址必须以 mqtt:// / mqtts:// / ws:// / wss:// 开头';
+        }
+        if (/^[a-z]+:\/\/[^/]*@/.test(v.trim())) {
+          return '请勿在地址中填写账号密码，下一步单独输入';
+        }
+        return null;
+      },
+    });
+
+    if (!url) {
+      return false;
+    }
+
+    const username = await vscode.window.showInputBox({
+      title: 'MQTT — 用户名',
+      prompt: 'Broker 未开启认证时留空',
+      value: this.config.mqttUsername,
+      ignoreFocusOut: true,
+    });
+
+    if (username === undefined) {
+      return false;
+    }
+
+    let password: string | undefined = '';
+    if (username.trim()) {
+      password = await vscode.window.showInputBox({
+        title: 'MQTT — 密码',
+        prompt: '保存在系统安全存储中；留空则不使用密码',
+        value: (await this.credentials.getCredential('mqttPassword')) || undefined,
+        password: true,
+        ignoreFocusOut: true,
+      });
+      if (password === undefined) {
+        return false;
+      }
+    }
+
+    const topic = await vscode.window.showInputBox({
+      title: 'MQTT — 心率主题',
+      prompt: '发布心率的主题（支持 + / # 通配符）；消息为纯数字或 JSON（按 heartRateJsonPath 提取）',
+      value: this.config.mqttHeartRateTopic || 'heart_rate',
+      placeHolder: 'polar/h10/heart_rate',
+      ignoreFocusOut: true,
+      validateInput: (v) => (!v?.trim() ? '主题不能为空' : null),
+    });
+
+    if (!topic) {
+      return false;
+    }
+
+    // 密码保存到 SecretStorage，其余非敏感信息写入设置
+    if (password) {
+      await this.credentials.setCredential('mqttPassword', password);
+    } else {
+      await this.credentials.deleteCredential('mqttPassword');
+    }
+    const wsConfig = vscode.workspace.getConfiguration('heartSocket');
+    await wsConfig.update('mqttBrokerUrl', url.trim(), vscode.ConfigurationTarget.Global);
+    await wsConfig.update('mqttUsername', username.trim(), vscode.ConfigurationTarget.Global);
+    await wsConfig.update('mqttHeartRateTopic', topic.trim(), vscode.ConfigurationTarget.Global);
+    return true;
+  }
+
   /**
    * 显示心率统计
    */
@@ -575,13 +1274,22 @@ export class HeartRateManager {
         this.statsPanelReady = true;
         this.log(`[Stats] webview READY! statsPanelReady=${this.statsPanelReady}, samples=${this.stats.samples}`);
         this.pushStatsUpdate();
+        this.pushAlertHistory();
         this.startStatsRefreshTimer();
       } else if (msg.type === 'requestUpdate') {
         this.pushStatsUpdate();
       } else if (msg.type === 'requestCalendarData') {
         this.pushCalendarData(msg.year, msg.month);
-      } else if (msg.type === 'requestDaySummary') {
-        this.pushDaySummary(msg.date);
+      } else if (msg.type === 'requestDaySummary' || msg.type === 'requestDaySamples') {
+        if (typeof msg.date !== 'string' || !DATE_KEY_PATTERN.test(msg.date)) {
+          this.log(`[Stats] 忽略无效日期请求: ${String(msg.date)}`);
+        } else if (msg.type === 'requestDaySummary') {
+          this.pushDaySummary(msg.date);
+        } else {
+          this.pushDaySamples(msg.date);
+        }
+      } else if (msg.type === 'requestAlertHistory') {
+        this.pushAlertHistory();
       } else if (msg.type === 'timeScaleChange') {
         this.lastTimeScale = msg.value;
       }
@@ -678,12 +1386,21 @@ export class HeartRateManager {
           flowState: motionResult.flowState,
           slackingIndex: motionResult.slackingIndex,
           energyLevel: motionResult.energyLevel,
+          stressIndex: motionResult.stressIndex,
           sedentaryDuration: motionResult.sedentaryDuration,
           postureAlertDuration: motionResult.postureAlertDuration,
         } : null,
 
-        // 健康数据
+        // 健康数据（updatedAt 用于标注数据年龄）
         healthSnapshot: this.healthSnapshot,
+        healthUpdatedAt: this.healthUpdatedAt,
+
+        // 信号丢失（最后一次收到心率的时间，正常时为 null）
+        signalLostSince: this.signalWatchdog.lostSince,
+        chartGapMs: this.getChartGapMs(),
+
+        // HRV（无 RR 数据时为 null）
+        hrv: this.hrvCalculator.getMetrics(),
 
         // 连接信息
         providerName: this.provider?.name ?? '未连接',
@@ -705,6 +1422,7 @@ export class HeartRateManager {
   dispose(): void {
     this.stopNetworkMonitor();
     this.disconnect();
+    this.signalWatchdog.dispose();
     this.statusBar.dispose();
     this.outputChannel.dispose();
     if (this.guidePanel) {
@@ -730,6 +1448,14 @@ export class HeartRateManager {
     if (this.dataStore) {
       this.dataStore.dispose();
     }
+    // 写出剩余原始样本
+    if (this.sampleStore) {
+      this.sampleStore.dispose();
+    }
+    // 停止广播服务器
+    if (this.broadcastServer) {
+      this.broadcastServer.dispose();
+    }
     this.disposables.forEach((d) => d.dispose());
     this.disposables = [];
   }
@@ -741,27 +1467,92 @@ export class HeartRateManager {
    */
   private createProvider(type: ProviderType): IHeartRateProvider {
     switch (type) {
-      case 'hds':
-        return new HdsProvider(this.config);
+      case 'hds': {
+        // 开启广播时 HDS 端口同时提供直播叠加层
+        const hds = new HdsProvider(this.config, this.context);
+        hds.setOverlayRelay(this.config.enableBroadcast ? this.broadcastServer : null);
+        return hds;
+      }
+      case 'hds-cloud':
+        return new HdsCloudProvider(this.config, this.context);
       case 'hyperate':
-        return new HypeRateProvider(this.config);
+        return new HypeRateProvider(this.config, this.credentials);
       case 'pulsoid':
-        return new PulsoidProvider(this.config);
+        return new PulsoidProvider(this.config, this.pulsoidAuth);
       case 'custom':
         return new CustomProvider(this.config);
+      case 'ble':
+        return new BleProvider(this.config);
+      case 'mqtt':
+        return new MqttProvider(this.config, this.credentials);
       default:
         throw new Error(`不支持的数据源类型: ${type}`);
     }
   }
 
+  /**
+   * 主数据源 + 备用数据源（去重，按优先级排列）
+   */
+  private getProviderChain(): ProviderType[] {
+    const chain: ProviderType[] = [this.config.provider];
+    for (const type of this.config.fallbackProviders) {
+      if (!chain.includes(type)) {
+        chain.push(type);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * 按配置创建 Provider：配置了备用数据源时包装为 FusionProvider
+   */
+  private createProviderChain(): IHeartRateProvider {
+    const chain = this.getProviderChain();
+    if (chain.length === 1) {
+      return this.createProvider(chain[0]);
+    }
+    this.log(`多数据源模式: ${chain.map((type) => this.getProviderLabel(type)).join(' → ')}`);
+    return new FusionProvider(
+      chain.map((type) => ({ type, label: this.getProviderLabel(type), provider: this.createProvider(type) })),
+      this.config
+    );
+  }
+
+  /**
+   * 查找当前连接中指定类型的 Provider（兼容多数据源模式）
+   */
+  private findProvider<T>(ctor: new (...args: never[]) => T): T | null {
+    if (this.provider instanceof ctor) {
+      return this.provider;
+    }
+    if (this.provider instanceof FusionProvider) {
+      return this.provider.getMember(ctor);
+    }
+    return null;
+  }
+
   /**
    * 绑定 Provider 事件
    */
   private bindProviderEvents(provider: IHeartRateProvider): void {
+    if (provider instanceof FusionProvider) {
+      provider.on('activeProviderChange', (change: ActiveProviderChange) => {
+        this.log(change.previousLabel
+          ? `[Fusion] 数据源切换: ${change.previousLabel} → ${change.label}（${change.reason}）`
+          : `[Fusion] 当前数据源: ${change.label}`);
+        this.statusBar.updateActiveSource(change.label);
+        this.statusBar.updateLatency(null);
+      });
+    }
+
     provider.on('heartRate', (data: HeartRateData) => {
       this.onHeartRate(data);
     });
 
+    provider.on('rrInterval', (data: RRIntervalData) => {
+      this.onRRInterval(data);
+    });
+
     provider.on('healthData', (data: HealthData) => {
       this.onHealthData(data);
     });
@@ -774,15 +1565,51 @@ export class HeartRateManager {
       this.onStatusChange(status);
     });
 
+    provider.on('latency', (ms: number) => {
+      this.statusBar.updateLatency(ms);
+    });
+
+    provider.on('reconnectScheduled', (info: ReconnectInfo) => {
+      this.pendingReconnect = info;
+      const seconds = Math.max(0, Math.round((info.retryAt - Date.now()) / 100) / 10);
+      this.log(`${seconds} 秒后进行第 ${info.attempt} 次重连${info.maxRetries > 0 ? `（共 ${info.maxRetries} 次）` : ''}`);
+      this.statusBar.updateReconnect(info);
+    });
+
     provider.on('error', (error: Error) => {
       this.log(`错误: ${error.message}`);
 
+      // 重连次数用尽：等待网络恢复后自动重试
+      if (error instanceof ReconnectExhaustedError) {
+        this.startNetworkResumeWatch();
+        return;
+      }
+
+      // 缺少 Token / Token 被拒绝：续期或引导重新配置
+      if (error instanceof CredentialError) {
+        this.handleCredentialError(error);
+        return;
+      }
+
       // HTTP 状态码错误（如 401/402/403）：友好弹框提示用户
       if (error instanceof WebSocketError) {
         this.handleHttpError(error);
         return;
       }
 
+      // HDS HTTPS 证书无法加载：引导检查证书配置
+      if (error instanceof ServerCertificateError) {
+        vscode.window.showErrorMessage(
+          `Heart Socket: ${error.message}`,
+          '打开设置'
+        ).then(action => {
+          if (action === '打开设置') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'heartSocket.serverTls');
+          }
+        });
+        return;
+      }
+
       // 端口占用时给出友好提示
       if (error.message.includes('EADDRINUSE')) {
         vscode.window.showErrorMessage(
@@ -801,6 +1628,29 @@ export class HeartRateManager {
     });
   }
 
+  /**
+   * 绑定广播服务器事件
+   */
+  private bindBroadcastServerEvents(): void {
+    this.broadcastServer.on('log', (msg: string) => {
+      this.log(msg);
+    });
+
+    this.broadcastServer.on('error', (error: Error) => {
+      this.log(`[Broadcast] 错误: ${error.message}`);
+      if (error.message.includes('EADDRINUSE')) {
+        vscode.window.showErrorMessage(
+          `Heart Socket: 广播端口 ${this.config.broadcastPort} 已被占用，请在设置中修改 heartSocket.broadcastPort。`,
+          '打开设置'
+        ).then(action => {
+          if (action === '打开设置') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'heartSocket.broadcastPort');
+          }
+        });
+      }
+    });
+  }
+
   /**
    * 处理 WebSocket HTTP 错误，向用户展示友好的弹框提示
    *
@@ -847,6 +1697,147 @@ export class HeartRateManager {
     }
   }
 
+  /**
+   * 处理凭据错误：Pulsoid Token 被拒绝时先尝试静默续期，失败再引导重新登录
+   */
+  private async handleCredentialError(error: CredentialError): Promise<void> {
+    if (error.key !== 'pulsoidToken') {
+      const action = await vscode.window.showErrorMessage(`Heart Socket 连接失败: ${error.message}`, '重新配置');
+      if (action === '重新配置') {
+        await this.switchProvider();
+      }
+      return;
+    }
+
+    if (error.rejected && !this.pulsoidRefreshAttempted && await this.pulsoidAuth.canRefresh()) {
+      this.pulsoidRefreshAttempted = true;
+      if (await this.pulsoidAuth.refresh()) {
+        this.log('Pulsoid Token 已续期，正在重新连接...');
+        await this.connect();
+        return;
+      }
+    }
+
+    const actions = this.config.pulsoidClientId ? ['使用 Pulsoid 登录', '手动输入 Token'] : ['手动输入 Token'];
+    const action = await vscode.window.showErrorMessage(`Heart Socket 连接失败: ${error.message}`, ...actions);
+    const updated = action === '使用 Pulsoid 登录'
+      ? await this.signInPulsoid()
+      : action === '手动输入 Token'
+        ? await this.promptPulsoidToken()
+        : false;
+    if (updated) {
+      await this.connect();
+    }
+  }
+
+  /**
+   * 绑定 AlertManager 事件
+   */
+  private bindAlertManagerEvents(): void {
+    this.alertManager.on('log', (msg: string) => this.log(msg));
+
+    this.alertManager.on('alert', (event: AlertEvent) => {
+      if (event.actions.includes('statusBarFlash')) {
+        this.statusBar.flashAlert(event.severity);
+      }
+      this.alertHistory.record({
+        id: event.id,
+        timestamp: event.timestamp,
+        kind: event.ruleId === 'spike' ? 'spike' : 'rule',
+        title: event.ruleName,
+        message: event.message,
+        severity: event.severity,
+        values: { ruleId: event.ruleId, bpm: event.bpm, peak: event.peak, durationMs: event.durationMs },
+        response: event.actions.includes('notification') ? 'pending' : 'none',
+      });
+      this.pushAlertHistory();
+    });
+
+    this.alertManager.on('alertResponse', (data: { id: string; response: AlertResponse }) => {
+      this.alertHistory.setResponse(data.id, data.response);
+      this.pushAlertHistory();
+    });
+  }
+
+  /**
+   * 绑定 SignalWatchdog 事件
+   */
+  private bindSignalWatchdogEvents(): void {
+    this.signalWatchdog.on('signalLost', (data: { lastDataAt: number }) => {
+      const seconds = Math.round((Date.now() - data.lastDataAt) / 1000);
+      this.log(`📵 信号丢失：已 ${seconds} 秒未收到心率数据`);
+      this.statusBar.updateSignalLost(data.lastDataAt);
+      this.pushStatsUpdate();
+      if (this.config.staleDataAlert) {
+        this.showSignalLostAlert(seconds);
+      }
+    });
+
+    this.signalWatchdog.on('signalRestored', (gap: SignalGap) => {
+      this.log(`📶 信号恢复：中断 ${this.formatDuration(gap.durationMs)}`);
+      this.statusBar.updateSignalLost(null);
+      this.dataStore.recordSignalGap(gap.durationMs);
+    });
+  }
+
+  /**
+   * 信号丢失提醒
+   */
+  private showSignalLostAlert(seconds: number): void {
+    // 防重复：已有弹窗显示中则跳过
+    if (this.signalLostAlertShowing) {
+      return;
+    }
+
+    const message = `📵 已 ${seconds} 秒未收到心率数据，请检查手表是否佩戴、App 是否在前台运行。`;
+    this.signalLostAlertShowing = true;
+    const recordId = this.recordReminder('signalLoss', '信号丢失', message, 'warning', {
+      durationMs: seconds * 1000,
+      source: this.provider?.name ?? '',
+    });
+    vscode.window.showWarningMessage(message, '我知道了', '调整检测时长').then((selection) => {
+      this.signalLostAlertShowing = false;
+      if (selection === '调整检测时长') {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'heartSocket.staleData');
+        this.respondReminder(recordId, 'adjusted');
+        return;
+      }
+      this.respondReminder(recordId, selection ? 'acknowledged' : 'dismissed');
+    });
+  }
+
+  /**
+   * 记录一条提醒（久坐 / 姿态 / 心流 / 信号丢失）到告警历史
+   * @returns 记录 ID，用于回写用户响应
+   */
+  private recordReminder(
+    kind: AlertKind,
+    title: string,
+    message: string,
+    severity: AlertSeverity,
+    values: AlertRecord['values']
+  ): string {
+    const id = this.alertHistory.record({
+      timestamp: Date.now(),
+      kind,
+      title,
+      message,
+      severity,
+      values: { bpm: this.stats.current, ...values },
+      response: 'pending',
+    });
+    this.pushAlertHistory();
+    return id;
+  }
+
+  /**
+   * 回写提醒的用户响应
+   */
+  private respondReminder(id: string, response: AlertResponse): void {
+    this.alertHistory.setResponse(id, response);
+    this.pushAlertHistory();
+  }
+
   /**
    * 绑定 MotionAnalyzer 事件
    */
@@ -857,6 +1848,17 @@ export class HeartRateManager {
 
     this.motionAnalyzer.on('analysisResult', (result: MotionAnalysisResult) => {
       this.statusBar.updateMotionAnalysis(result);
+      this.broadcastServer.publishMotion(result);
+      this.alertManager.updateMotionAnalysis(result);
+
+      // 连接中且有心率数据时，每分钟记录一次压力指数到当日摘要
+      const now = Date.now();
+      if (this.provider?.isConnected && this.stats.samples > 0 &&
+          now - this.lastStressRecordTime >= STRESS_RECORD_INTERVAL) {
+        this.lastStressRecordTime = now;
+        this.dataStore.recordStress(result.stressIndex);
+      }
+
       // 推送到 Stats 面板（Motion 分析结果更新时也刷新）
       this.pushStatsUpdate();
     });
@@ -894,6 +1896,9 @@ export class HeartRateManager {
    * 处理心率数据
    */
   private onHeartRate(data: HeartRateData): void {
+    // 喂看门狗（信号丢失后首条数据触发恢复）
+    this.signalWatchdog.feed();
+
     // 更新统计
     this.stats.current = data.bpm;
     this.stats.min = Math.min(this.stats.min, data.bpm);
@@ -913,7 +1918,7 @@ export class HeartRateManager {
     }
 
     // 更新状态栏（传递健康数据快照）
-    this.statusBar.updateHeartRate(data, this.healthSnapshot);
+    this.statusBar.updateHeartRate(data, this.healthSnapshot, this.healthUpdatedAt);
 
     // 更新状态栏心率统计摘要
     this.statusBar.updateHeartRateStats({
@@ -926,15 +1931,21 @@ export class HeartRateManager {
     this.statusBar.updateSessionDuration(this.stats.duration);
 
     // 检查告警
-    this.alertManager.check(data);
+    const zone = this.getHeartRateZone(data.bpm);
+    this.alertManager.check(data, zone);
 
     // 转发到 Motion Analyzer（辅助心流检测）
     this.motionAnalyzer.feedHeartRate(data.bpm);
 
     // 记录到 DataStore（持久化日摘要）
-    const zone = this.getHeartRateZone(data.bpm);
     this.dataStore.recordHeartRate(data.bpm, zone);
 
+    // 记录到 SampleStore（持久化逐秒原始样本）
+    this.sampleStore.record(this.buildRawSample(data));
+
+    // 广播给 /live 订阅者
+    this.broadcastServer.publishHeartRate(data, zone);
+
     // 推送到 Stats 面板（实时更新）
     this.pushStatsUpdate();
 
@@ -942,16 +1953,39 @@ export class HeartRateManager {
     this.log(`❤️ ${data.bpm} BPM (${data.source})`);
   }
 
+  /**
+   * 处理 RR 间期（BLE 心率带）
+   */
+  private onRRInterval(data: RRIntervalData): void {
+    this.broadcastServer.publishRRInterval(data);
+
+    this.hrvCalculator.addIntervals(data.intervals, data.timestamp);
+    const hrv = this.hrvCalculator.getMetrics(data.timestamp);
+    this.statusBar.updateHrv(hrv);
+    if (!hrv) { return; }
+
+    this.motionAnalyzer.feedHrv(hrv.rmssd);
+
+    // 每分钟记录一次到当日摘要
+    if (data.timestamp - this.lastHrvRecordTime >= HRV_RECORD_INTERVAL) {
+      this.lastHrvRecordTime = data.timestamp;
+      this.dataStore.recordHrv(hrv);
+    }
+  }
+
   /**
    * 处理健康数据（卡路里、步数、血氧等）
    */
   private onHealthData(data: HealthData): void {
     // 更新健康数据快照
     this.healthSnapshot[data.type] = data.value;
+    this.healthUpdatedAt[data.type] = Date.now();
+    this.broadcastServer.publishHealthData(data);
+    this.alertManager.updateHealthData(data);
 
     // 刷新状态栏 tooltip（携带最新健康数据）
     if (this.stats.current > 0) {
-      this.statusBar.updateHealthSnapshot(this.healthSnapshot);
+      this.statusBar.updateHealthSnapshot(this.healthSnapshot, this.healthUpdatedAt);
     }
 
     // 步数数据转发到 Motion Analyzer（久坐检测）
@@ -973,12 +2007,26 @@ export class HeartRateManager {
    * 处理连接状态变化
    */
   private onStatusChange(status: ConnectionStatus): void {
+    // 重连计划总在状态变化之后派发，旧的计划随状态变化失效
+    this.pendingReconnect = null;
+    if (status === ConnectionStatus.Connected) {
+      this.stopNetworkResumeWatch();
+    }
+
     // 区分首次等待连接 vs 断开后重连
     const isHds = this.config.provider === 'hds';
     const isWaitingForDevice = status === ConnectionStatus.Reconnecting && !this.hasEverConnected;
 
     this.statusBar.updateStatus(status, isWaitingForDevice ? { waitingForDevice: true } : undefined);
 
+    // 信号看门狗仅在已连接期间计时（重连 / 断开不计为信号中断）
+    if (status === ConnectionStatus.Connected) {
+      this.signalWatchdog.start();
+    } else {
+      this.signalWatchdog.stop();
+    }
+    this.broadcastServer.publishStatus(status, this.getProviderLabel(this.config.provider));
+
     const labels: Record<string, string> = {
       disconnected: '已断开',
       connecting: '启动中...',
@@ -991,6 +2039,7 @@ export class HeartRateManager {
 
     if (status === ConnectionStatus.Connected) {
       this.hasEverConnected = true;
+      this.pulsoidRefreshAttempted = false;
       vscode.window.showInformationMessage(`Heart Socket: 已连接到 ${this.provider?.name}`);
 
       // 连接成功后关闭引导面板
@@ -1004,22 +2053,77 @@ export class HeartRateManager {
     if (isWaitingForDevice && isHds) {
       this.showHdsGuide();
     }
+
+    // HDS Cloud 模式：等待 Watch 推送时提示 Cloud ID
+    const cloudProvider = this.findProvider(HdsCloudProvider);
+    if (isWaitingForDevice && cloudProvider) {
+      const cloudId = cloudProvider.getCloudId();
+      this.log(`HDS Cloud 已就绪，等待 Watch 推送数据（Cloud ID: ${cloudId}）`);
+      vscode.window.showInformationMessage(
+        `Heart Socket: HDS Cloud 已就绪，请在 Watch HDS App 中打开 HDS Cloud 并填入 Cloud ID ${cloudId}`,
+        '复制 Cloud ID'
+      ).then(action => {
+        if (action === '复制 Cloud ID') {
+          vscode.env.clipboard.writeText(cloudId);
+        }
+      });
+    }
   }
 
   /**
    * 处理配置变更
    */
   private onConfigChanged(newConfig: HeartSocketConfig): void {
-    const providerChanged = this.config.provider !== newConfig.provider;
+    const providerChanged = this.config.provider !== newConfig.provider ||
+      this.config.fallbackProviders.join(',') !== newConfig.fallbackProviders.join(',');
+    const serverAccessChanged =
+      this.config.serverPairing !== newConfig.serverPairing ||
+      this.config.serverTls !== newConfig.serverTls ||
+      this.config.serverTlsCertFile !== newConfig.serverTlsCertFile ||
+      this.config.serverTlsKeyFile !== newConfig.serverTlsKeyFile ||
+      this.config.serverAllowedIps.join(',') !== newConfig.serverAllowedIps.join(',');
+    const broadcastChanged =
+      this.config.enableBroadcast !== newConfig.enableBroadcast ||
+      this.config.broadcastPort !== newConfig.broadcastPort ||
+      this.config.broadcastHost !== newConfig.broadcastHost;
     this.config = newConfig;
 
     this.statusBar.updateConfig(newConfig);
     this.alertManager.updateConfig(newConfig);
+    this.signalWatchdog.updateTimeout(newConfig.staleDataSeconds);
+    this.pulsoidAuth.updateClientId(newConfig.pulsoidClientId);
+
+    // 用户手动在设置中填入了明文 Token：迁移到 SecretStorage
+    if (newConfig.apiToken) {
+      this.credentials.syncFromSettings();
+    }
 
     if (this.provider) {
       this.provider.updateConfig(newConfig);
     }
 
+    // HDS 配对 / 来源限制 / HTTPS 变化：刷新已打开的引导面板（地址中的配对码与协议随之变化）
+    if (serverAccessChanged && this.guidePanel) {
+      this.showHdsGuide();
+    }
+
+    this.sampleStore.updateRetention(newConfig.sampleRetentionDays);
+
+    this.broadcastServer.setOverlayOptions({
+      sparklineMinutes: newConfig.overlaySparklineMinutes,
+      showBadges: newConfig.overlayShowBadges,
+    });
+
+    // 广播服务器配置变化：重启或停止
+    if (broadcastChanged) {
+      if (newConfig.enableBroadcast) {
+        this.broadcastServer.start(newConfig.broadcastPort, newConfig.broadcastHost);
+      } else {
+        this.broadcastServer.stop();
+      }
+      this.findProvider(HdsProvider)?.setOverlayRelay(newConfig.enableBroadcast ? this.broadcastServer : null);
+    }
+
     // 更新 Motion 分析器配置
     if (this.motionAnalyzer) {
       this.motionAnalyzer.updateConfig({
@@ -1054,6 +2158,10 @@ export class HeartRateManager {
     };
     this.bpmSum = 0;
     this.healthSnapshot = {};
+    this.healthUpdatedAt = {};
+    this.hrvCalculator.reset();
+    this.lastHrvRecordTime = 0;
+    this.statusBar.updateHrv(null);
     this.sessionStartTime = Date.now();
     this.alertManager.reset();
   }
@@ -1126,6 +2234,50 @@ export class HeartRateManager {
     }
   }
 
+  /**
+   * 本机网络地址快照（非内部地址），用于判断网络是否变化
+   */
+  private getNetworkSnapshot(): string {
+    const addresses: string[] = [];
+    for (const list of Object.values(os.networkInterfaces())) {
+      for (const iface of list ?? []) {
+        if (!iface.internal) {
+          addresses.push(iface.address);
+        }
+      }
+    }
+    return addresses.sort().join(',');
+  }
+
+  /**
+   * 重连次数用尽后等待网络恢复：每 5 秒检测一次本机网络地址，变化且有可用网络时自动重试
+   */
+  private startNetworkResumeWatch(): void {
+    this.stopNetworkResumeWatch();
+    this.networkResumeSnapshot = this.getNetworkSnapshot();
+    this.log('[NetworkMonitor] 已停止自动重连，网络变化（如重新连上 Wi-Fi）时将自动恢复');
+    this.networkResumeTimer = setInterval(() => {
+      const snapshot = this.getNetworkSnapshot();
+      if (snapshot === this.networkResumeSnapshot) {
+        return;
+      }
+      this.networkResumeSnapshot = snapshot;
+      if (!snapshot) {
+        return; // 网络已断开，继续等待
+      }
+      this.log('[NetworkMonitor] 检测到网络变化，恢复自动重连');
+      this.stopNetworkResumeWatch();
+      this.provider?.retryNow();
+    }, HeartRateManager.NETWORK_RESUME_CHECK_INTERVAL);
+  }
+
+  private stopNetworkResumeWatch(): void {
+    if (this.networkResumeTimer) {
+      clearInterval(this.networkResumeTimer);
+      this.networkResumeTimer = null;
+    }
+  }
+
   /**
    * IP 变化时通知用户
    */
@@ -1155,9 +2307,12 @@ export class HeartRateManager {
   private getProviderLabel(type: ProviderType): string {
     const labels: Record<ProviderType, string> = {
       hds: 'HDS (Apple Watch 本地直连)',
+      'hds-cloud': 'HDS Cloud (跨网络)',
       pulsoid: 'Pulsoid',
       hyperate: 'HypeRate',
-      custom: '自定义 WebSocket',
+      custom: '自定义数据源',
+      ble: 'BLE 心率带',
+      mqtt: 'MQTT',
     };
     return labels[type] ?? type;
   }
@@ -1208,9 +2363,129 @@ export class HeartRateManager {
     const dateSet = this.dataStore.getMonthDates(year, month);
     const dates = Array.from(dateSet);
     const summaries = this.dataStore.getMultipleSummaries(dates);
+    const alertCounts = this.alertHistory.getMonthCounts(year, month);
     this.statsPanel.webview.postMessage({
       type: 'calendarData',
-      data: { year, month, dates, summaries },
+      data: { year, month, dates, summaries, alertCounts },
+    });
+  }
+
+  /**
+   * 推送最近的告警历史（Stats 面板「告警」页）
+   */
+  private pushAlertHistory(): void {
+    if (!this.statsPanel || !this.statsPanelReady) { return; }
+    this.statsPanel.webview.postMessage({
+      type: 'alertHistory',
+      data: { records: this.alertHistory.getRecent(ALERT_HISTORY_DAYS, ALERT_HISTORY_LIMIT) },
+    });
+  }
+
+  /**
+   * 组装原始样本：心率 + 当前健康快照 + 最新 Motion 分析结果
+   */
+  private buildRawSample(data: HeartRateData): RawSample {
+    const sample: RawSample = { ts: data.timestamp, bpm: data.bpm, ...this.healthSnapshot };
+    const motion = this.motionAnalyzer.getLatestResult();
+    if (motion && !this.motionAnalyzer.isCompatMode()) {
+      sample.codingIntensity = motion.codingIntensity;
+      sample.posture = motion.posture;
+      sample.flowActive = motion.flowState.active;
+      sample.slackingIndex = motion.slackingIndex;
+      sample.energyLevel = motion.energyLevel;
+    }
+    if (motion && this.stats.samples > 0) {
+      sample.stressIndex = motion.stressIndex;
+    }
+    return sample;
+  }
+
+  /**
+   * 选择导出日期范围（预设 + 自定义）
+   */
+  private async pickExportRange(): Promise<{ start: string; end: string } | undefined> {
+    const toDate = (d: Date) =>
+      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    const today = toDate(new Date());
+    const daysAgo = (n: number) => toDate(new Date(Date.now() - n * 24 * 60 * 60 * 1000));
+
+    const items: Array<vscode.QuickPickItem & { start?: string }> = [
+      { label: '$(calendar) 今天', description: today, start: today },
+      { label: '$(calendar) 最近 7 天', description: `${daysAgo(6)} ~ ${today}`, start: daysAgo(6) },
+      { label: '$(calendar) 最近 30 天', description: `${daysAgo(29)} ~ ${today}`, start: daysAgo(29) },
+      { label: '$(calendar) 最近 90 天', description: `${daysAgo(89)} ~ ${today}`, start: daysAgo(89) },
+      { label: '$(edit) 自定义范围...', description: 'YYYY-MM-DD ~ YYYY-MM-DD' },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Heart Socket — 选择导出的日期范围',
+    });
+    if (!picked) {
+      return undefined;
+    }
+    if (picked.start) {
+      return { start: picked.start, end: today };
+    }
+
+    const rangePattern = /^\s*(\d{4}-\d{2}-\d{2})\s*~\s*(\d{4}-\d{2}-\d{2})\s*$/;
+    const input = await vscode.window.showInputBox({
+      title: '自定义导出范围',
+      prompt: '格式：起始日期 ~ 结束日期（含）',
+      value: `${daysAgo(6)} ~ ${today}`,
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        const match = rangePattern.exec(value);
+        if (!match) {
+          return '格式应为 YYYY-MM-DD ~ YYYY-MM-DD';
+        }
+        if (isNaN(new Date(match[1]).getTime()) || isNaN(new Date(match[2]).getTime())) {
+          return '日期无效';
+        }
+        if (match[1] > match[2]) {
+          return '起始日期不能晚于结束日期';
+        }
+        return null;
+      },
+    });
+    const match = input ? rangePattern.exec(input) : null;
+    return match ? { start: match[1], end: match[2] } : undefined;
+  }
+
+  /**
+   * 列出日期范围内的所有日期（含首尾）
+   */
+  private datesInRange(start: string, end: string): string[] {
+    const dates: string[] = [];
+    const cursor = new Date(`${start}T00:00:00`);
+    const last = new Date(`${end}T00:00:00`).getTime();
+    while (cursor.getTime() <= last) {
+      dates.push(`${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, '0')}-${String(cursor.getDate()).padStart(2, '0')}`);
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    return dates;
+  }
+
+  /**
+   * 趋势图断开阈值：与信号丢失判定一致，检测关闭时使用默认值
+   */
+  private getChartGapMs(): number {
+    return this.config.staleDataSeconds > 0
+      ? this.config.staleDataSeconds * 1000
+      : DEFAULT_CHART_GAP_MS;
+  }
+
+  /**
+   * 推送某日的逐秒原始样本（趋势图历史回看）
+   */
+  private async pushDaySamples(date: string): Promise<void> {
+    if (!this.statsPanel) { return; }
+    const samples = await this.sampleStore.readDay(date);
+    this.statsPanel?.webview.postMessage({
+      type: 'daySamples',
+      data: {
+        date,
+        chartData: samples.map(s => ({ bpm: s.bpm, ts: s.ts })),
+        chartGapMs: this.getChartGapMs(),
+      },
     });
   }
 
@@ -1243,6 +2518,7 @@ export class HeartRateManager {
           flowState: motionResult.flowState,
           slackingIndex: motionResult.slackingIndex,
           energyLevel: motionResult.energyLevel,
+          stressIndex: motionResult.stressIndex,
           sedentaryDuration: motionResult.sedentaryDuration,
         } : null,
         healthSnapshot: healthSnap,
@@ -1277,13 +2553,16 @@ export class HeartRateManager {
    * 打开 HDS 设备连接引导面板
    */
   private showHdsGuide(): void {
-    const port = (this.provider as HdsProvider)?.port ?? this.config.serverPort;
+    const hds = this.findProvider(HdsProvider);
+    const port = hds?.port ?? this.config.serverPort;
+    const token = this.config.serverPairing ? getPairingToken(this.context) : null;
+    const fingerprint = hds?.certificateFingerprint ?? null;
     const hostname = this.getLocalHostname();
     const ip = this.getLocalIp();
 
     // 单例模式
     if (this.guidePanel) {
-      this.guidePanel.webview.html = this.getHdsGuideHtml(port, hostname, ip);
+      this.guidePanel.webview.html = this.getHdsGuideHtml(port, hostname, ip, token, fingerprint);
       this.guidePanel.reveal(vscode.ViewColumn.One);
       return;
     }
@@ -1295,19 +2574,94 @@ export class HeartRateManager {
       { enableScripts: true }
     );
 
-    this.guidePanel.webview.html = this.getHdsGuideHtml(port, hostname, ip);
+    // 配对操作（开启配对模式 / 重新生成配对码）
+    this.guidePanel.webview.onDidReceiveMessage((msg) => {
+      if (msg.type === 'enablePairing') {
+        void vscode.workspace
+          .getConfiguration('heartSocket')
+          .update('serverPairing', true, vscode.ConfigurationTarget.Global);
+      } else if (msg.type === 'regeneratePairing') {
+        void this.regeneratePairingToken();
+      }
+    });
+
+    this.guidePanel.webview.html = this.getHdsGuideHtml(port, hostname, ip, token, fingerprint);
 
     this.guidePanel.onDidDispose(() => {
       this.guidePanel = null;
     });
   }
 
+  /**
+   * 重新生成 HDS 配对码（确认后旧地址立即失效），并刷新引导面板
+   */
+  private async regeneratePairingToken(): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+      '重新生成后，Watch 上的旧地址将无法推送数据，需要填入新地址。确定继续？',
+      { modal: true },
+      '重新生成'
+    );
+    if (confirm !== '重新生成') {
+      return;
+    }
+
+    await regeneratePairingToken(this.context);
+    this.findProvider(HdsProvider)?.reloadPairingToken();
+    this.log('[HDS] 配对码已重新生成，Watch 需使用新地址');
+    if (this.guidePanel) {
+      this.showHdsGuide();
+    }
+  }
+
   /**
    * 生成 HDS 引导页 HTML
+   *
+   * @param token 配对码（未开启配对模式时为 null），开启时地址中包含配对码
+   * @param fingerprint HTTPS 证书指纹（未启用 HTTPS 时为 null），启用时地址为 https://
    */
-  private getHdsGuideHtml(port: number, hostname: string | null, ip: string | null): string {
-    const localUrl = hostname ? `http://${hostname}.local:${port}/` : null;
-    const ipUrl = ip ? `http://${ip}:${port}/` : null;
+  private getHdsGuideHtml(
+    port: number,
+    hostname: string | null,
+    ip: string | null,
+    token: string | null,
+    fingerprint: string | null
+  ): string {
+    const scheme = fingerprint ? 'https' : 'http';
+    const pathPrefix = token ? `/${token}/` : '/';
+    const localUrl = hostname ? `${scheme}://${hostname}.local:${port}${pathPrefix}` : null;
+    const ipUrl = ip ? `${scheme}://${ip}:${port}${pathPrefix}` : null;
+
+    const tlsSection = fingerprint
+      ? `
+      <div class="url-section">
+        <div class="url-label">🔐 HTTPS 证书指纹 (SHA-256) <span class="badge">加密传输</span></div>
+        <div class="url-box">
+          <code id="certFingerprint" class="fingerprint">${fingerprint}</code>
+          <button class="copy-btn" onclick="copyUrl('certFingerprint')">📋 复制</button>
+        </div>
+        <div class="url-hint">设备首次连接时请核对并固定（pin）此指纹；自签名证书持久保存，重启后指纹不变。设备端 App 需支持 HTTPS 与自签名证书，否则请关闭 heartSocket.serverTls</div>
+      </div>`
+      : '';
+    const allowedIps = this.config.serverAllowedIps.map((e) => e.trim()).filter((e) => e.length > 0);
+    const allowedIpsHint = allowedIps.length > 0
+      ? `<div class="url-hint">🛡️ 仅接受来自 ${allowedIps.join('、')} 的数据（heartSocket.serverAllowedIps）</div>`
+      : '';
+
+    const pairingSection = token
+      ? `
+      <div class="url-section pairing">
+        <div class="url-label">🔒 配对模式已开启 <span class="badge">仅限已配对设备</span></div>
+        <div class="url-hint">上方地址已包含配对码 <code>${token}</code>，未携带配对码的设备无法推送数据。重新生成后旧地址立即失效。</div>
+        ${allowedIpsHint}
+        <button class="copy-btn pairing-btn" onclick="sendAction('regeneratePairing')">🔄 重新生成配对码</button>
+      </div>`
+      : `
+      <div class="url-section pairing">
+        <div class="url-label">🔓 配对模式未开启 <span class="badge secondary">建议开启</span></div>
+        <div class="url-hint">同一 WiFi 中的任何设备都能向此地址推送心率。在公司 / 公共 WiFi 下建议开启配对模式，Watch 地址将附带配对码。</div>
+        ${allowedIpsHint}
+        <button class="copy-btn pairing-btn" onclick="sendAction('enablePairing')">🔒 开启配对模式</button>
+      </div>`;
 
     const localSection = localUrl
       ? `
@@ -1445,6 +2799,13 @@ export class HeartRateManager {
       opacity: 0.6;
       line-height: 1.5;
     }
+    .pairing-btn {
+      margin-top: 12px;
+    }
+    .url-box code.fingerprint {
+      font-size: 12px;
+      font-family: var(--vscode-editor-font-family, monospace);
+    }
     .steps {
       margin-top: 32px;
     }
@@ -1521,6 +2882,8 @@ export class HeartRateManager {
 
   ${localSection}
   ${ipSection}
+  ${tlsSection}
+  ${pairingSection}
 
   <div class="steps">
     <h2>📋 配置步骤</h2>
@@ -1537,7 +2900,10 @@ export class HeartRateManager {
   <div class="faq">
     <h2>⚠️ 常见问题</h2>
     <div class="faq-item">
-      <strong>🚫 Bad URL</strong> — URL 必须以 <code>http://</code> 开头且以 <code>/</code> 结尾，缺一不可
+      <strong>🚫 Bad URL</strong> — URL 必须以 <code>${scheme}://</code> 开头且以 <code>/</code> 结尾，缺一不可
+    </div>
+    <div class="faq-item">
+      <strong>🔒 开启配对后连不上</strong> — Watch 需使用上方带配对码的新地址；被拒绝的请求会记录在「Heart Socket」输出面板中
     </div>
     <div class="faq-item">
       <strong>🔄 .local 地址连不上</strong> — Watch 可能通过 iPhone 蓝牙桥接上网，mDNS 多播包被桥接层丢弃。<br>👉 解决：在 iPhone 上<strong>关闭蓝牙</strong>或开启<strong>飞行模式</strong>，让 Watch 直连 WiFi
@@ -1558,6 +2924,12 @@ export class HeartRateManager {
   </div>
 
   <script>
+    const vscode = acquireVsCodeApi();
+
+    function sendAction(type) {
+      vscode.postMessage({ type: type });
+    }
+
     function copyUrl(elementId) {
       const el = document.getElementById(elementId);
       if (!el) return;
@@ -1698,6 +3070,21 @@ export class HeartRateManager {
       font-size: 11px;
       cursor: pointer;
     }
+    .chart-actions {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .chart-live-btn {
+      background: var(--vscode-button-secondaryBackground, var(--vscode-input-background));
+      color: var(--vscode-button-secondaryForeground, var(--vscode-input-foreground));
+      border: 1px solid var(--vscode-input-border, var(--vscode-editorWidget-border));
+      border-radius: 4px;
+      padding: 2px 8px;
+      font-size: 11px;
+      cursor: pointer;
+      display: none;
+    }
     .chart-container {
       width: 100%;
       height: 120px;
@@ -2199,6 +3586,93 @@ export class HeartRateManager {
       background: var(--vscode-editor-background);
     }
     .cal-extra-data .detail-section-label:first-child { margin-top: 0; }
+    .cal-grid .cal-day .cal-alert-badge {
+      position: absolute;
+      top: -3px;
+      right: -2px;
+      min-width: 14px;
+      height: 14px;
+      line-height: 14px;
+      padding: 0 3px;
+      border-radius: 7px;
+      font-size: 9px;
+      font-weight: 700;
+      background: var(--vscode-charts-orange, #ff9800);
+      color: #fff;
+    }
+
+    /* 标签页 */
+    .tab-bar {
+      display: flex;
+      gap: 4px;
+      margin-top: 20px;
+      border-bottom: 1px solid var(--vscode-editorWidget-border);
+    }
+    .tab-btn {
+      background: none;
+      color: var(--vscode-foreground);
+      border: none;
+      border-bottom: 2px solid transparent;
+      padding: 6px 14px;
+      font-size: 12px;
+      cursor: pointer;
+      opacity: 0.6;
+    }
+    .tab-btn.active {
+      opacity: 1;
+      border-bottom-color: var(--vscode-focusBorder, #007acc);
+      font-weight: 600;
+    }
+    .tab-count {
+      margin-left: 6px;
+      padding: 0 6px;
+      border-radius: 8px;
+      font-size: 10px;
+      background: var(--vscode-badge-background, rgba(0,120,212,0.15));
+      color: var(--vscode-badge-foreground, var(--vscode-foreground));
+    }
+
+    /* 告警记录 */
+    .alert-toolbar {
+      display: flex;
+      justify-content: flex-end;
+      margin-bottom: 10px;
+    }
+    .alert-day-label {
+      font-size: 11px;
+      font-weight: 600;
+      opacity: 0.6;
+      margin: 16px 0 6px;
+    }
+    .alert-item {
+      display: flex;
+      gap: 10px;
+      padding: 8px 10px;
+      margin-bottom: 6px;
+      border-radius: 8px;
+      border-left: 3px solid var(--alert-color, var(--vscode-charts-yellow, #ff9800));
+      background: var(--vscode-editorWidget-background, rgba(127,127,127,0.06));
+      font-size: 12px;
+    }
+    .alert-item .alert-time { flex: 0 0 42px; opacity: 0.6; font-variant-numeric: tabular-nums; }
+    .alert-item .alert-body { flex: 1; min-width: 0; }
+    .alert-item .alert-title { font-weight: 600; margin-bottom: 2px; }
+    .alert-item .alert-message { opacity: 0.8; word-break: break-all; }
+    .alert-item .alert-response {
+      flex: 0 0 auto;
+      align-self: flex-start;
+      padding: 1px 6px;
+      border-radius: 4px;
+      font-size: 10px;
+      background: var(--vscode-badge-background, rgba(0,120,212,0.15));
+      color: var(--vscode-badge-foreground, var(--vscode-foreground));
+    }
+    .alert-empty {
+      text-align: center;
+      padding: 40px 0;
+      opacity: 0.5;
+      font-size: 12px;
+    }
   </style>
 </head>
 <body>
@@ -2227,10 +3701,19 @@ export class HeartRateManager {
     </div>
   </div>
 
+  <!-- 标签页 -->
+  <div class="tab-bar">
+    <button class="tab-btn active" data-tab="overview">📊 概览</button>
+    <button class="tab-btn" data-tab="alerts">🔔 告警<span class="tab-count hidden" id="alertTabCount"></span></button>
+  </div>
+
+  <div id="tabOverview">
   <!-- 趋势图 -->
   <div class="chart-section">
     <div class="chart-header">
       <h3>📈 心率趋势<span class="chart-coverage" id="chartCoverage"></span></h3>
+      <div class="chart-actions">
+      <button class="chart-live-btn" id="chartLiveBtn">⟲ 返回实时</button>
       <select class="time-select" id="timeScale">
         <option value="60"${this.lastTimeScale === 60 ? ' selected' : ''}>1 分钟</option>
         <option value="300"${this.lastTimeScale === 300 ? ' selected' : ''}>5 分钟</option>
@@ -2241,6 +3724,7 @@ export class HeartRateManager {
         <option value="14400"${this.lastTimeScale === 14400 ? ' selected' : ''}>4 小时</option>
         <option value="43200"${this.lastTimeScale === 43200 ? ' selected' : ''}>12 小时</option>
       </select>
+      </div>
     </div>
     <div class="chart-container">
       <svg id="chartSvg" viewBox="0 0 600 120" preserveAspectRatio="none">
@@ -2250,8 +3734,8 @@ export class HeartRateManager {
             <stop offset="100%" stop-color="var(--vscode-charts-red, #e74c3c)" stop-opacity="0.02"/>
           </linearGradient>
         </defs>
-        <polygon id="chartArea" fill="url(#areaGrad)" points="0,120 600,120"/>
-        <polyline id="chartLine" fill="none" stroke="var(--vscode-charts-red, #e74c3c)" stroke-width="2" stroke-linejoin="round" points=""/>
+        <path id="chartArea" fill="url(#areaGrad)" d=""/>
+        <path id="chartLine" fill="none" stroke="var(--vscode-charts-red, #e74c3c)" stroke-width="2" stroke-linejoin="round" stroke-linecap="round" d=""/>
       </svg>
     </div>
     <div class="chart-labels">
@@ -2300,6 +3784,25 @@ export class HeartRateManager {
     </div>
   </div>
 
+  <!-- HRV（仅提供 RR 间期的数据源） -->
+  <div id="hrvSection" class="hidden">
+    <div class="section-title">💗 心率变异性 (HRV)<span class="chart-coverage" id="hrvWindow"></span></div>
+    <div class="stats-grid">
+      <div class="stat-card">
+        <div class="value" id="hrvRmssd">--</div>
+        <div class="label">RMSSD (ms)</div>
+      </div>
+      <div class="stat-card">
+        <div class="value" id="hrvSdnn">--</div>
+        <div class="label">SDNN (ms)</div>
+      </div>
+      <div class="stat-card">
+        <div class="value" id="hrvPnn50">--</div>
+        <div class="label">pNN50 (%)</div>
+      </div>
+    </div>
+  </div>
+
   <!-- Motion 分析 -->
   <div id="motionSection" class="hidden">
     <div class="section-title">🧠 Motion 分析</div>
@@ -2341,6 +3844,14 @@ export class HeartRateManager {
           <div class="progress-bar"><div class="fill" id="energyBar" style="width:50%;background:var(--vscode-charts-blue,#2196f3)"></div></div>
         </div>
       </div>
+      <div class="motion-item">
+        <span class="icon" id="stressIcon">😌</span>
+        <div class="info">
+          <div class="name">压力指数</div>
+          <div class="val" id="stressVal">0/100</div>
+          <div class="progress-bar"><div class="fill" id="stressBar" style="width:0%;background:var(--vscode-charts-green,#4caf50)"></div></div>
+        </div>
+      </div>
       <div class="motion-item">
         <span class="icon" id="sedentaryIcon">🪑</span>
         <div class="info">
@@ -2379,6 +3890,24 @@ export class HeartRateManager {
       </div>
     </div>
   </div>
+  </div>
+
+  <!-- 告警记录 -->
+  <div id="tabAlerts" class="hidden">
+    <div class="section-title">🔔 告警与提醒记录<span class="chart-coverage">最近 30 天</span></div>
+    <div class="alert-toolbar">
+      <select class="time-select" id="alertKindFilter">
+        <option value="all">全部类型</option>
+        <option value="rule">心率规则</option>
+        <option value="spike">心率骤升</option>
+        <option value="sedentary">久坐</option>
+        <option value="posture">姿态</option>
+        <option value="flow">心流</option>
+        <option value="signalLoss">信号丢失</option>
+      </select>
+    </div>
+    <div id="alertList"><div class="alert-empty">暂无告警记录</div></div>
+  </div>
 
   <!-- 连接信息 -->
   <div class="connection-info">
@@ -2414,6 +3943,10 @@ export class HeartRateManager {
     var tsEl = $('timeScale');
     var currentTimeScale = tsEl ? parseInt(tsEl.value, 10) : 60;
     var lastChartData = null;
+    // 趋势图断开阈值（ms）：相邻样本间隔超过该值视为信号中断
+    var chartGapMs = 30000;
+    // 历史回看日期（null 表示实时模式）
+    var historyDate = null;
     var chartTransitioning = false;
     if (tsEl) tsEl.addEventListener('change', function(e) {
       currentTimeScale = parseInt(e.target.value, 10);
@@ -2467,18 +4000,76 @@ export class HeartRateManager {
     function updateChart(chartData) {
       if (!chartData || chartData.length === 0) return;
       lastChartData = chartData;
+      // 历史回看中：只缓存实时数据，不覆盖图表
+      if (historyDate) return;
 
       // 按时间尺度过滤
       var now = Date.now();
-      var windowEnd = now;
       var windowStart = now - currentTimeScale * 1000;
       var filtered = chartData.filter(function(d) { return d.ts >= windowStart; });
       if (filtered.length === 0) filtered = chartData.slice(-10);
 
-      // 降采样（最多 600 点，保留 {bpm, ts}）
-      var sampled = downsample(filtered, 600);
+      // 数据覆盖率指示
+      var dataSpan = filtered.length > 1 ? (filtered[filtered.length - 1].ts - filtered[0].ts) / 1000 : 0;
+      var ratio = Math.min(100, Math.round((dataSpan / currentTimeScale) * 100));
+      drawChart(filtered, windowStart, now, '(' + fmtDur(Math.round(dataSpan)) + ' / ' + fmtDur(currentTimeScale) + '  ' + ratio + '%)');
+    }
+
+    // 显示某日逐秒历史曲线（窗口 = 当日数据范围）
+    function showHistoryChart(date, chartData) {
+      historyDate = date;
+      var liveBtn = $('chartLiveBtn');
+      if (liveBtn) liveBtn.style.display = 'inline-block';
+      if (tsEl) tsEl.style.display = 'none';
+
+      if (!chartData || chartData.length === 0) {
+        $('chartLine').setAttribute('d', '');
+        $('chartArea').setAttribute('d', '');
+        $('chartMin').textContent = '-- BPM';
+        $('chartMax').textContent = '-- BPM';
+        var covEl = $('chartCoverage');
+        if (covEl) covEl.textContent = '(' + date + '  无逐秒样本)';
+        return;
+      }
+
+      var windowStart = chartData[0].ts;
+      var windowEnd = Math.max(chartData[chartData.length - 1].ts, windowStart + 1000);
+      var dataSpan = Math.round((windowEnd - windowStart) / 1000);
+      drawChart(chartData, windowStart, windowEnd, '(' + date + '  ' + fmtDur(dataSpan) + '  ' + chartData.length + ' 点)');
+    }
+
+    // 退出历史回看，恢复实时趋势
+    function exitHistoryChart() {
+      historyDate = null;
+      var liveBtn = $('chartLiveBtn');
+      if (liveBtn) liveBtn.style.display = 'none';
+      if (tsEl) tsEl.style.display = '';
+      if (lastChartData) updateChart(lastChartData);
+    }
+
+    // 绘制趋势图（filtered 已按窗口过滤，coverageText 为标题旁的覆盖率说明）
+    function drawChart(filtered, windowStart, windowEnd, coverageText) {
+      // 按信号中断切分为连续段（相邻样本间隔超过 chartGapMs 时断开，不跨中断插值）
+      var segments = [];
+      var seg = [];
+      for (var i = 0; i < filtered.length; i++) {
+        if (seg.length > 0 && filtered[i].ts - seg[seg.length - 1].ts > chartGapMs) {
+          segments.push(seg);
+          seg = [];
+        }
+        seg.push(filtered[i]);
+      }
+      if (seg.length > 0) segments.push(seg);
+
+      // 降采样（总计最多 600 点，按各段点数比例分配，保留 {bpm, ts}）
+      var sampledSegs = segments.map(function(part) {
+        return downsample(part, Math.max(1, Math.round(600 * part.length / filtered.length)));
+      });
 
-      var bpmArr = sampled.map(function(d) { return d.bpm; });
+      var bpmArr = [];
+      sampledSegs.forEach(function(part) {
+        part.forEach(function(d) { bpmArr.push(d.bpm); });
+      });
       var svgW = 600, svgH = 120;
       var pad = 4;
       var minBpm = Math.max(40, Math.min.apply(null, bpmArr) - 5);
@@ -2486,18 +4077,23 @@ export class HeartRateManager {
 
       // 按真实时间比例计算 X 坐标
       var windowSpan = windowEnd - windowStart;
-      var points = sampled.map(function(d) {
-        var x = ((d.ts - windowStart) / windowSpan) * svgW;
-        var y = pad + (1 - (d.bpm - minBpm) / (maxBpm - minBpm)) * (svgH - pad * 2);
-        return x.toFixed(1) + ',' + y.toFixed(1);
-      }).join(' ');
-
-      $('chartLine').setAttribute('points', points);
-      // area 跟随数据实际范围
-      var firstX = ((sampled[0].ts - windowStart) / windowSpan) * svgW;
-      var lastX = ((sampled[sampled.length - 1].ts - windowStart) / windowSpan) * svgW;
-      var areaPoints = firstX.toFixed(1) + ',' + svgH + ' ' + points + ' ' + lastX.toFixed(1) + ',' + svgH;
-      $('chartArea').setAttribute('points', areaPoints);
+      function toX(ts) { return ((ts - windowStart) / windowSpan) * svgW; }
+
+      // 每段独立的折线与面积（单点段以圆头零长线段显示为点）
+      var linePath = '';
+      var areaPath = '';
+      sampledSegs.forEach(function(part) {
+        var pts = part.map(function(d) {
+          var y = pad + (1 - (d.bpm - minBpm) / (maxBpm - minBpm)) * (svgH - pad * 2);
+          return toX(d.ts).toFixed(1) + ',' + y.toFixed(1);
+        });
+        linePath += 'M' + pts.join('L') + (pts.length === 1 ? 'h0' : '');
+        // area 跟随该段实际范围
+        areaPath += 'M' + toX(part[0].ts).toFixed(1) + ',' + svgH + 'L' + pts.join('L') +
+          'L' + toX(part[part.length - 1].ts).toFixed(1) + ',' + svgH + 'Z';
+      });
+      $('chartLine').setAttribute('d', linePath);
+      $('chartArea').setAttribute('d', areaPath);
 
       $('chartMin').textContent = Math.round(Math.min.apply(null, bpmArr)) + ' BPM';
       $('chartMax').textContent = Math.round(Math.max.apply(null, bpmArr)) + ' BPM';
@@ -2514,13 +4110,8 @@ export class HeartRateManager {
         axisEl.innerHTML = labels.join('');
       }
 
-      // 数据覆盖率指示
       var covEl = $('chartCoverage');
-      if (covEl) {
-        var dataSpan = filtered.length > 1 ? (filtered[filtered.length - 1].ts - filtered[0].ts) / 1000 : 0;
-        var ratio = Math.min(100, Math.round((dataSpan / currentTimeScale) * 100));
-        covEl.textContent = '(' + fmtDur(Math.round(dataSpan)) + ' / ' + fmtDur(currentTimeScale) + '  ' + ratio + '%)';
-      }
+      if (covEl) covEl.textContent = coverageText;
     }
 
     // 更新饼图（环形 + 纵向图例 + 比例条）
@@ -2566,7 +4157,7 @@ export class HeartRateManager {
     }
 
     // 更新健康数据（始终显示全部指标，无数据时显示 --）
-    function updateHealth(snapshot) {
+    function updateHealth(snapshot, updatedAt) {
       var grid = $('healthGrid');
       var section = $('healthSection');
       section.classList.remove('hidden');
@@ -2582,12 +4173,34 @@ export class HeartRateManager {
         { icon: '📐', label: 'BMI',      value: s.bmi !== undefined ? s.bmi.toFixed(1) : '--', color: '#00bcd4' },
       ];
 
-      grid.innerHTML = items.map(function(it) {
+      var keys = ['calories', 'stepCount', 'bloodOxygen', 'distance', 'speed', 'bodyMass', 'bmi'];
+      var ages = updatedAt || {};
+      grid.innerHTML = items.map(function(it, i) {
         var dimClass = it.value === '--' ? ' style="opacity:0.35"' : '';
-        return '<div class="stat-card"' + dimClass + '><div class="value">' + it.value + '</div><div class="label">' + it.icon + ' ' + it.label + '</div></div>';
+        // 超过 1 分钟未更新的数据标注年龄
+        var age = '';
+        var at = ages[keys[i]];
+        if (it.value !== '--' && at && Date.now() - at >= 60000) {
+          var ageMin = Math.floor((Date.now() - at) / 60000);
+          age = ' · ' + (ageMin >= 60 ? Math.floor(ageMin / 60) + ' 小时前' : ageMin + ' 分钟前');
+        }
+        return '<div class="stat-card"' + dimClass + '><div class="value">' + it.value + '</div><div class="label">' + it.icon + ' ' + it.label + age + '</div></div>';
       }).join('');
     }
 
+    // 更新 HRV（无 RR 数据时隐藏）
+    function updateHrv(hrv) {
+      if (!hrv) {
+        $('hrvSection').classList.add('hidden');
+        return;
+      }
+      $('hrvSection').classList.remove('hidden');
+      $('hrvRmssd').textContent = hrv.rmssd.toFixed(1);
+      $('hrvSdnn').textContent = hrv.sdnn.toFixed(1);
+      $('hrvPnn50').textContent = hrv.pnn50.toFixed(1);
+      $('hrvWindow').textContent = '最近 ' + Math.round(hrv.windowMs / 60000) + ' 分钟 · ' + hrv.count + ' 个 RR 间期';
+    }
+
     // 主更新函数
     function onUpdate(d) {
       try {
@@ -2621,7 +4234,14 @@ export class HeartRateManager {
       $('sampleCount').textContent = d.samples || 0;
       $('durationVal').textContent = d.durationStr || '0s';
 
+      // 信号丢失：当前心率置灰（显示的是最后读数）
+      $('currentBpm').style.opacity = d.signalLostSince ? '0.35' : '';
+      $('currentBpm').title = d.signalLostSince
+        ? '已 ' + Math.round((Date.now() - d.signalLostSince) / 1000) + ' 秒未收到心率数据'
+        : '';
+
       // 趋势图
+      if (d.chartGapMs) chartGapMs = d.chartGapMs;
       if (d.chartData && d.chartData.length > 0) {
         updateChart(d.chartData);
       }
@@ -2682,6 +4302,15 @@ export class HeartRateManager {
         $('energyVal').textContent = el + '%';
         $('energyBar').style.width = el + '%';
 
+        // 压力指数（已排除走动等体力活动引起的心率升高）
+        const st = Math.round(d.motion.stressIndex || 0);
+        $('stressVal').textContent = st + '/100';
+        $('stressBar').style.width = st + '%';
+        $('stressBar').style.background = st < 30 ? 'var(--vscode-charts-green,#4caf50)' :
+          st < 50 ? 'var(--vscode-charts-blue,#2196f3)' :
+          st < 70 ? 'var(--vscode-charts-yellow,#ff9800)' : 'var(--vscode-charts-red,#f44336)';
+        $('stressIcon').textContent = st < 30 ? '😌' : st < 50 ? '🙂' : st < 70 ? '😟' : '😣';
+
         // 久坐
         const sedMin = Math.floor((d.motion.sedentaryDuration || 0) / 60000);
         var sedItem = $('sedentaryIcon').closest('.motion-item');
@@ -2711,7 +4340,10 @@ export class HeartRateManager {
       }
 
       // 健康数据
-      updateHealth(d.healthSnapshot);
+      updateHealth(d.healthSnapshot, d.healthUpdatedAt);
+
+      // HRV
+      updateHrv(d.hrv);
 
       // 连接信息
       $('providerName').textContent = d.providerName || '--';
@@ -2741,7 +4373,7 @@ export class HeartRateManager {
       return 'rgba(244,67,54,0.75)';
     }
 
-    function renderCalendar(year, month, dates, summaries) {
+    function renderCalendar(year, month, dates, summaries, alertCounts) {
       calSummaries = {};
       if (summaries) {
         for (var i = 0; i < dates.length; i++) {
@@ -2767,7 +4399,8 @@ export class HeartRateManager {
           var hc = heatColor(calSummaries[dateStr].avg);
           if (hc) bgStyle = ' style="--heat-color:' + hc + '"';
         }
-        html += '<div class="' + cls + '" data-date="' + dateStr + '"' + bgStyle + '>' + d + '</div>';
+        var alertBadge = alertCounts && alertCounts[dateStr] ? '<span class="cal-alert-badge">' + alertCounts[dateStr] + '</span>' : '';
+        html += '<div class="' + cls + '" data-date="' + dateStr + '"' + bgStyle + '>' + d + alertBadge + '</div>';
       }
       var calGrid = $('calGrid');
       if (calGrid) calGrid.innerHTML = html;
@@ -2817,7 +4450,7 @@ export class HeartRateManager {
 
       // 基础统计
       var html = '<div class="day-summary-card">' +
-        '<div class="day-summary-header">\ud83d\udccb ' + date + '</div>' +
+        '<div class="day-summary-header">\ud83d\udccb ' + date + (summary.imported ? ' <span style="opacity:0.6;font-size:11px">\uff08\u5bfc\u5165\uff09</span>' : '') + '</div>' +
         '<div class="day-summary-body">' +
         '<div class="day-summary-stats">' +
         '<div class="day-stat"><div class="ds-value">' + (summary.min || '--') + '</div><div class="ds-label">\ud83d\udcc9 \u6700\u4f4e</div></div>' +
@@ -2825,6 +4458,7 @@ export class HeartRateManager {
         '<div class="day-stat"><div class="ds-value">' + (summary.avg || '--') + '</div><div class="ds-label">\ud83d\udcca \u5e73\u5747</div></div>' +
         '</div>' +
         '<div class="day-meta"><span>\ud83d\udd22 ' + (summary.samples || 0) + ' \u6b21</span><span>\u23f1\ufe0f ' + dur + ' \u5206\u949f</span></div>' +
+        '<button class="day-expand-btn" id="daySamplesBtn">\ud83d\udcc8 \u5728\u8d8b\u52bf\u56fe\u4e2d\u67e5\u770b\u5f53\u65e5\u9010\u79d2\u66f2\u7ebf</button>' +
         '<button class="day-expand-btn" id="dayExpandBtn">\u5c55\u5f00\u8be6\u60c5 \u25bc</button>' +
         '<div class="day-detail-area" id="dayDetailArea">';
 
@@ -2843,6 +4477,28 @@ export class HeartRateManager {
       }
       html += '<div class="detail-stat-row"><span class="detail-stat-label">\ud83d\udcc5 \u8986\u76d6\u7387</span><span class="detail-stat-value">' + activeHours + ' / 24 h</span></div>';
 
+      // 当日健康汇总（导入数据 + HRV + 压力）
+      var dayHealth = [];
+      if (summary.stepCount !== undefined) dayHealth.push(['\ud83d\udc5f \u6b65\u6570', summary.stepCount]);
+      if (summary.calories !== undefined) dayHealth.push(['\ud83d\udd25 \u6d3b\u52a8\u80fd\u91cf', summary.calories + ' kcal']);
+      if (summary.distance !== undefined) dayHealth.push(['\ud83d\udccf \u8ddd\u79bb', (summary.distance / 1000).toFixed(2) + ' km']);
+      if (summary.bloodOxygen !== undefined) dayHealth.push(['\ud83e\ude78 \u5e73\u5747\u8840\u6c27', summary.bloodOxygen + '%']);
+      if (summary.hrvRmssd !== undefined) {
+        dayHealth.push(['\ud83d\udc97 \u5e73\u5747 RMSSD', summary.hrvRmssd + ' ms']);
+        dayHealth.push(['\ud83d\udc97 \u5e73\u5747 SDNN', summary.hrvSdnn + ' ms']);
+        dayHealth.push(['\ud83d\udc97 \u5e73\u5747 pNN50', summary.hrvPnn50 + '%']);
+      }
+      if (summary.stressAvg !== undefined) {
+        dayHealth.push(['\ud83d\ude23 \u5e73\u5747 / \u6700\u9ad8\u538b\u529b', summary.stressAvg + ' / ' + summary.stressMax]);
+        dayHealth.push(['\ud83d\udea8 \u9ad8\u538b\u65f6\u957f', (summary.stressHighMinutes || 0) + ' \u5206\u949f']);
+      }
+      if (summary.signalGaps) {
+        dayHealth.push(['\ud83d\udcf5 \u4fe1\u53f7\u4e2d\u65ad', summary.signalGaps + ' \u6b21 / ' + fmtDur(summary.signalGapSeconds || 0)]);
+      }
+      for (var dh = 0; dh < dayHealth.length; dh++) {
+        html += '<div class="detail-stat-row"><span class="detail-stat-label">' + dayHealth[dh][0] + '</span><span class="detail-stat-value">' + dayHealth[dh][1] + '</span></div>';
+      }
+
       // 区间分布横条图
       if (summary.zoneDistribution) {
         html += '<div class="detail-section-label">\ud83c\udfaf \u533a\u95f4\u5206\u5e03</div>';
@@ -2896,6 +4552,14 @@ export class HeartRateManager {
       html += '</div></div></div>';
       area.innerHTML = html;
 
+      // 历史曲线回看
+      var samplesBtn = $('daySamplesBtn');
+      if (samplesBtn) {
+        samplesBtn.addEventListener('click', function() {
+          vscode.postMessage({ type: 'requestDaySamples', date: date });
+        });
+      }
+
       // 展开/收起按钮事件 + 右侧额外数据联动
       var btn = $('dayExpandBtn');
       var detail = $('dayDetailArea');
@@ -2945,6 +4609,9 @@ export class HeartRateManager {
         if (typeof motion.energyLevel === 'number') {
           motionRows.push('<div class="detail-stat-row"><span class="detail-stat-label">\ud83d\udd0b \u7cbe\u529b</span><span class="detail-stat-value">' + Math.round(motion.energyLevel) + '%</span></div>');
         }
+        if (typeof motion.stressIndex === 'number') {
+          motionRows.push('<div class="detail-stat-row"><span class="detail-stat-label">\ud83d\ude23 \u538b\u529b</span><span class="detail-stat-value">' + Math.round(motion.stressIndex) + '/100</span></div>');
+        }
         if (!isCompatMode && motion.sedentaryDuration > 0) {
           var sedMin = Math.floor(motion.sedentaryDuration / 60000);
           if (sedMin > 0) {
@@ -2975,6 +4642,85 @@ export class HeartRateManager {
       return parts.length > 0 ? parts.join('') : '';
     }
 
+    // ── 告警记录 ──
+    var alertRecords = [];
+    var alertKindMap = {
+      rule:      { icon: '🚨', label: '心率规则' },
+      spike:     { icon: '📈', label: '心率骤升' },
+      sedentary: { icon: '🪑', label: '久坐' },
+      posture:   { icon: '🖐️', label: '姿态' },
+      flow:      { icon: '🎯', label: '心流' },
+      signalLoss: { icon: '📵', label: '信号丢失' },
+    };
+    var alertSeverityColor = {
+      info:    'var(--vscode-charts-blue,#2196f3)',
+      warning: 'var(--vscode-charts-yellow,#ff9800)',
+      error:   'var(--vscode-charts-red,#f44336)',
+    };
+    var alertResponseMap = {
+      pending: '未处理',
+      acknowledged: '已确认',
+      snoozed: '已暂停',
+      adjusted: '调整阈值',
+      dismissed: '已关闭',
+      none: '无弹窗',
+    };
+
+    function escapeHtml(text) {
+      return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    function renderAlerts() {
+      var list = $('alertList');
+      if (!list) return;
+
+      // 标签页计数：今日告警数
+      var today = new Date();
+      var todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime();
+      var todayCount = alertRecords.filter(function(r) { return r.timestamp >= todayStart; }).length;
+      var countEl = $('alertTabCount');
+      if (countEl) {
+        countEl.textContent = todayCount;
+        countEl.classList.toggle('hidden', todayCount === 0);
+      }
+
+      var filterEl = $('alertKindFilter');
+      var kind = filterEl ? filterEl.value : 'all';
+      var records = kind === 'all' ? alertRecords : alertRecords.filter(function(r) { return r.kind === kind; });
+      if (records.length === 0) {
+        list.innerHTML = '<div class="alert-empty">暂无告警记录</div>';
+        return;
+      }
+
+      var html = '';
+      var lastDay = '';
+      records.forEach(function(r) {
+        var t = new Date(r.timestamp);
+        var day = t.getFullYear() + '-' + String(t.getMonth() + 1).padStart(2, '0') + '-' + String(t.getDate()).padStart(2, '0');
+        if (day !== lastDay) {
+          lastDay = day;
+          html += '<div class="alert-day-label">' + day + '</div>';
+        }
+        var meta = alertKindMap[r.kind] || { icon: '🔔', label: r.kind };
+        var time = String(t.getHours()).padStart(2, '0') + ':' + String(t.getMinutes()).padStart(2, '0');
+        var values = [];
+        if (r.values && r.values.bpm) values.push(r.values.bpm + ' BPM');
+        if (r.values && typeof r.values.durationMs === 'number' && r.values.durationMs >= 1000) {
+          var sec = Math.round(r.values.durationMs / 1000);
+          values.push(sec >= 60 ? Math.floor(sec / 60) + ' 分钟' : sec + ' 秒');
+        }
+        html += '<div class="alert-item" style="--alert-color:' + (alertSeverityColor[r.severity] || alertSeverityColor.warning) + '">'
+          + '<div class="alert-time">' + time + '</div>'
+          + '<div class="alert-body">'
+          + '<div class="alert-title">' + meta.icon + ' ' + escapeHtml(r.title) + (values.length ? ' · ' + values.join(' · ') : '') + '</div>'
+          + '<div class="alert-message">' + escapeHtml(r.message) + '</div>'
+          + '</div>'
+          + '<div class="alert-response">' + (alertResponseMap[r.response] || r.response) + '</div>'
+          + '</div>';
+      });
+      list.innerHTML = html;
+    }
+
     // ── 消息通道建立（所有函数已声明完毕，消息到达时可安全调用） ──
     window.addEventListener('message', function(event) {
       var msg = event.data;
@@ -2982,14 +4728,39 @@ export class HeartRateManager {
       if (msg.type === 'statsUpdate' && msg.data) {
         onUpdate(msg.data);
       } else if (msg.type === 'calendarData' && msg.data) {
-        renderCalendar(msg.data.year, msg.data.month, msg.data.dates, msg.data.summaries);
+        renderCalendar(msg.data.year, msg.data.month, msg.data.dates, msg.data.summaries, msg.data.alertCounts);
       } else if (msg.type === 'daySummary' && msg.data) {
         renderDaySummary(msg.data.date, msg.data.summary, msg.data.motion, msg.data.healthSnapshot, msg.data.isCompatMode);
+      } else if (msg.type === 'daySamples' && msg.data) {
+        if (msg.data.chartGapMs) chartGapMs = msg.data.chartGapMs;
+        showHistoryChart(msg.data.date, msg.data.chartData);
+        var chartSection = document.querySelector('.chart-section');
+        if (chartSection) chartSection.scrollIntoView({ behavior: 'smooth' });
+      } else if (msg.type === 'alertHistory' && msg.data) {
+        alertRecords = msg.data.records || [];
+        renderAlerts();
       }
     });
 
     // ── DOM 事件绑定（try-catch 保护，不影响消息通道和 ready 信号） ──
     try {
+      // 标签页切换
+      document.querySelectorAll('.tab-btn').forEach(function(btn) {
+        btn.addEventListener('click', function() {
+          var tab = btn.getAttribute('data-tab');
+          document.querySelectorAll('.tab-btn').forEach(function(b) { b.classList.toggle('active', b === btn); });
+          $('tabOverview').classList.toggle('hidden', tab !== 'overview');
+          $('tabAlerts').classList.toggle('hidden', tab !== 'alerts');
+          if (tab === 'alerts') vscode.postMessage({ type: 'requestAlertHistory' });
+        });
+      });
+      var alertFilterEl = $('alertKindFilter');
+      if (alertFilterEl) alertFilterEl.addEventListener('change', renderAlerts);
+
+      // 趋势图：返回实时
+      var liveBtnEl = $('chartLiveBtn');
+      if (liveBtnEl) liveBtnEl.addEventListener('click', exitHistoryChart);
+
       // 日历导航按钮
       var cpEl = $('calPrev');
       if (cpEl) cpEl.addEventListener('click', function() {
@@ -3046,10 +4817,17 @@ export class HeartRateManager {
       ? `🪑 已久坐 ${durationMinutes} 分钟，且检测到心率异常偏高。建议起身活动一下！`
       : `🪑 已久坐 ${durationMinutes} 分钟。建议起身活动一下！`;
 
+    const recordId = this.recordReminder('sedentary', '久坐提醒', message, 'warning', {
+      durationMs: duration,
+      highHeartRate,
+    });
+
     vscode.window
       .showWarningMessage(message, '稍后提醒', '我知道了')
       .then((selection) => {
         this.sedentaryAlertShowing = false;
+        this.respondReminder(recordId,
+          selection === '稍后提醒' ? 'snoozed' : selection === '我知道了' ? 'acknowledged' : 'dismissed');
         if (selection === '稍后提醒') {
           // 清理之前的提醒定时器
           if (this.sedentaryReminderTimer) {
@@ -3088,8 +4866,13 @@ export class HeartRateManager {
     }
 
     this.postureAlertShowing = true;
-    vscode.window.showInformationMessage(message, '收到').then(() => {
+    const recordId = this.recordReminder('posture', '姿态提醒', message, 'info', {
+      durationMs: duration,
+      posture: state,
+    });
+    vscode.window.showInformationMessage(message, '收到').then((selection) => {
       this.postureAlertShowing = false;
+      this.respondReminder(recordId, selection ? 'acknowledged' : 'dismissed');
     });
   }
 
@@ -3100,16 +4883,18 @@ export class HeartRateManager {
 
     if (state.active && state.duration >= 15 * 60 * 1000) {
       // 进入心流状态超过 15 分钟
-      vscode.window.showInformationMessage(
-        `🎯 检测到您已进入心流状态 ${Math.floor(state.duration / 60000)} 分钟！保持专注！`,
-        '太棒了'
-      );
+      const message = `🎯 检测到您已进入心流状态 ${Math.floor(state.duration / 60000)} 分钟！保持专注！`;
+      const recordId = this.recordReminder('flow', '进入心流', message, 'info', { durationMs: state.duration });
+      vscode.window.showInformationMessage(message, '太棒了').then((selection) => {
+        this.respondReminder(recordId, selection ? 'acknowledged' : 'dismissed');
+      });
     } else if (!state.active && state.duration >= 15 * 60 * 1000) {
       // 曾经的心流状态结束
-      vscode.window.showInformationMessage(
-        `🎯 心流状态结束（持续 ${Math.floor(state.duration / 60000)} 分钟）。适当休息一下吧！`,
-        '好的'
-      );
+      const message = `🎯 心流状态结束（持续 ${Math.floor(state.duration / 60000)} 分钟）。适当休息一下吧！`;
+      const recordId = this.recordReminder('flow', '心流结束', message, 'info', { durationMs: state.duration });
+      vscode.window.showInformationMessage(message, '好的').then((selection) => {
+        this.respondReminder(recordId, selection ? 'acknowledged' : 'dismissed');
+      });
     }
   }
 }
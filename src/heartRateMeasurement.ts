@@ -0,0 +1,121 @@
+/**
+ * Heart Socket - BLE Heart Rate Measurement 解析
+ *
+ * 解析标准 BLE Heart Rate Measurement 特征值（0x2A37）与桥接程序转发的文本帧，
+ * 供 BleProvider 使用；不依赖 VS Code API，可直接用桥接帧抓包回放验证（见 test-ble-parser.js）。
+ *
+ * 帧格式（每条消息或每行一帧）：
+ * - 十六进制: `16 4B 1A 03` / `164b1a03` / `hex:164b1a03`
+ * - Base64:   `FksaAw==` / `base64:FksaAw==`
+ * - JSON:     `{"characteristic":"2a37","value":"164b1a03"}`（也接受 data / hrm 字段）
+ *
+ * 0x2A37 结构：
+ * - flags (uint8): bit0 心率格式 (0=uint8, 1=uint16)，bit1-2 皮肤接触状态，
+ *   bit3 含能量消耗，bit4 含 RR 间期
+ * - 心率 (uint8 / uint16)
+ * - 能量消耗 (uint16, kJ，可选)
+ * - RR 间期 (uint16 × N，单位 1/1024 秒，可选)
+ */
+
+/** 解析后的心率测量值 */
+export interface HeartRateMeasurement {
+  /** 心率 (BPM) */
+  bpm: number;
+  /** 皮肤接触：true 已接触，false 未接触，null 传感器不支持检测 */
+  sensorContact: boolean | null;
+  /** 累计能量消耗 (kJ)，未提供时为 null */
+  energyExpended: number | null;
+  /** RR 间期 (ms) */
+  rrIntervals: number[];
+}
+
+/**
+ * 解析 Heart Rate Measurement 特征值（0x2A37）
+ * @returns 帧长度不足时返回 null
+ */
+export function parseHeartRateMeasurement(bytes: Uint8Array): HeartRateMeasurement | null {
+  if (bytes.length < 2) { return null; }
+
+  const flags = bytes[0];
+  const isUint16 = (flags & 0x01) !== 0;
+  const contactSupported = (flags & 0x04) !== 0;
+  const contactDetected = (flags & 0x02) !== 0;
+  const hasEnergy = (flags & 0x08) !== 0;
+  const hasRR = (flags & 0x10) !== 0;
+
+  let offset = 1;
+  let bpm: number;
+  if (isUint16) {
+    if (bytes.length < 3) { return null; }
+    bpm = bytes[1] | (bytes[2] << 8);
+    offset = 3;
+  } else {
+    bpm = bytes[1];
+    offset = 2;
+  }
+
+  let energyExpended: number | null = null;
+  if (hasEnergy) {
+    if (bytes.length < offset + 2) { return null; }
+    energyExpended = bytes[offset] | (bytes[offset + 1] << 8);
+    offset += 2;
+  }
+
+  const rrIntervals: number[] = [];
+  if (hasRR) {
+    for (; offset + 1 < bytes.length; offset += 2) {
+      const raw = bytes[offset] | (bytes[offset + 1] << 8);
+      rrIntervals.push(Math.round((raw * 1000) / 1024));
+    }
+  }
+
+  return {
+    bpm,
+    sensorContact: contactSupported ? contactDetected : null,
+    energyExpended,
+    rrIntervals,
+  };
+}
+
+/**
+ * 将桥接帧（十六进制 / Base64 / JSON 包装）解码为字节
+ * @returns 无法识别或非 0x2A37 特征值时返回 null
+ */
+export function decodeBridgeFrame(frame: string): Uint8Array | null {
+  const text = frame.trim();
+  if (!text) { return null; }
+
+  if (text.startsWith('{')) {
+    try {
+      const json = JSON.parse(text);
+      const characteristic = String(json.characteristic ?? json.uuid ?? '2a37').toLowerCase();
+      if (!characteristic.includes('2a37')) { return null; }
+      const value = json.value ?? json.data ?? json.hrm;
+      return typeof value === 'string' ? decodeBridgeFrame(value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  const lower = text.toLowerCase();
+  if (lower.startsWith('hex:')) { return decodeHex(text.substring(4)); }
+  if (lower.startsWith('base64:')) { return decodeBase64(text.substring(7)); }
+
+  // 未声明编码：纯十六进制字符（允许空格 / 冒号 / 连字符分隔）优先按十六进制解析
+  return decodeHex(text) ?? decodeBase64(text);
+}
+
+function decodeHex(text: string): Uint8Array | null {
+  const hex = text.trim().replace(/^0x/i, '').replace(/[\s:-]/g, '');
+  if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) {
+    return null;
+  }
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+function decodeBase64(text: string): Uint8Array | null {
+  const b64 = text.trim();
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(b64)) { return null; }
+  const bytes = Buffer.from(b64, 'base64');
+  return bytes.length > 0 ? Uint8Array.from(bytes) : null;
+}
@@ -0,0 +1,128 @@
+/**
+ * Heart Socket - 心率变异性（HRV）计算
+ *
+ * 基于 RR 间期（逐搏间隔）在滚动时间窗口内计算时域 HRV 指标：
+ * - RMSSD：相邻 RR 间期差值的均方根，反映副交感（迷走）神经活动，短时窗口下最稳定
+ * - SDNN：RR 间期标准差，反映整体变异性
+ * - pNN50：相邻 RR 间期差值超过 50ms 的比例
+ *
+ * 伪迹处理：丢弃生理范围外的间期，以及与上一个有效间期相差超过 20% 的间期
+ * （漏搏 / 早搏 / 传感器抖动），避免单个异常值拉高 RMSSD。
+ */
+import type { HrvMetrics } from './types';
+
+/** 默认滚动窗口（短时 HRV 标准为 5 分钟） */
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+/** 计算指标所需的最少间期数 */
+const MIN_INTERVALS = 30;
+/** 有效 RR 间期范围 (ms)，对应约 30-200 BPM */
+const MIN_RR_MS = 300;
+const MAX_RR_MS = 2000;
+/** 相邻间期最大相对变化（超过视为伪迹） */
+const MAX_SUCCESSIVE_CHANGE = 0.2;
+
+/**
+ * 将数据源中的 RR 字段规范化为毫秒数组
+ *
+ * 接受数字 / 数字数组 / 逗号或空格分隔的字符串；
+ * 全部数值小于 3 时视为以秒为单位。
+ */
+export function normalizeRRIntervals(value: unknown): number[] {
+  let raw: unknown[];
+  if (Array.isArray(value)) {
+    raw = value;
+  } else if (typeof value === 'number') {
+    raw = [value];
+  } else if (typeof value === 'string') {
+    raw = value.replace(/^\[|\]$/g, '').split(/[\s,;]+/);
+  } else {
+    return [];
+  }
+
+  const nums = raw.map((v) => Number(v)).filter((v) => Number.isFinite(v) && v > 0);
+  if (nums.length === 0) { return []; }
+  const inSeconds = nums.every((v) => v < 3);
+  return nums
+    .map((v) => Math.round(inSeconds ? v * 1000 : v))
+    .filter((v) => v >= MIN_RR_MS && v <= MAX_RR_MS);
+}
+
+export class HrvCalculator {
+  private windowMs: number;
+  /** 窗口内的有效间期（按到达时间排序） */
+  private intervals: Array<{ ts: number; rr: number }> = [];
+  private lastAccepted: number | null = null;
+
+  constructor(windowMs: number = DEFAULT_WINDOW_MS) {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * 输入一组 RR 间期 (ms)
+   */
+  addIntervals(intervals: number[], timestamp: number): void {
+    for (const rr of intervals) {
+      if (rr < MIN_RR_MS || rr > MAX_RR_MS) { continue; }
+      if (this.lastAccepted !== null &&
+          Math.abs(rr - this.lastAccepted) / this.lastAccepted > MAX_SUCCESSIVE_CHANGE) {
+        // 伪迹：不计入，但更新参考值以便节律真实变化后能重新跟上
+        this.lastAccepted = rr;
+        continue;
+      }
+      this.lastAccepted = rr;
+      this.intervals.push({ ts: timestamp, rr });
+    }
+    this.prune(timestamp);
+  }
+
+  /**
+   * 计算当前窗口的 HRV 指标
+   * @returns 有效间期不足时返回 null
+   */
+  getMetrics(now: number = Date.now()): HrvMetrics | null {
+    this.prune(now);
+    const n = this.intervals.length;
+    if (n < MIN_INTERVALS) { return null; }
+
+    let sum = 0;
+    for (const { rr } of this.intervals) { sum += rr; }
+    const mean = sum / n;
+
+    let sqDev = 0;
+    let sqDiff = 0;
+    let nn50 = 0;
+    for (let i = 0; i < n; i++) {
+      const rr = this.intervals[i].rr;
+      sqDev += (rr - mean) ** 2;
+      if (i > 0) {
+        const diff = rr - this.intervals[i - 1].rr;
+        sqDiff += diff * diff;
+        if (Math.abs(diff) > 50) { nn50++; }
+      }
+    }
+
+    return {
+      rmssd: Math.round(Math.sqrt(sqDiff / (n - 1)) * 10) / 10,
+      sdnn: Math.round(Math.sqrt(sqDev / (n - 1)) * 10) / 10,
+      pnn50: Math.round((nn50 / (n - 1)) * 1000) / 10,
+      count: n,
+      windowMs: this.windowMs,
+      timestamp: now,
+    };
+  }
+
+  /**
+   * 清空（重新连接时调用）
+   */
+  reset(): void {
+    this.intervals = [];
+    this.lastAccepted = null;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    let i = 0;
+    while (i < this.intervals.length && this.intervals[i].ts < cutoff) { i++; }
+    if (i > 0) { this.intervals.splice(0, i); }
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Heart Socket - JSONPath 求值
+ *
+ * 用于从数据源消息中按路径提取字段，支持的语法（`$` 前缀可省略，兼容旧版点分路径）：
+ * - 成员：`data.hr`、`$['heart rate']`、`$["data"]`
+ * - 数组下标（负数从末尾计）：`samples[0]`、`samples[-1].hr`、并集 `[0,2]`
+ * - 切片：`samples[-5:]`、`samples[0:3]`
+ * - 通配符：`samples[*].hr`、`data.*`
+ * - 递归下降：`$..hr`
+ * - 过滤器：`samples[?(@.type == 'hr')].value`、`[?(@.hr > 0)]`、`[?(@.rr)]`
+ *
+ * 确定路径（仅成员 / 单个下标）返回唯一匹配值；含通配符 / 切片 / 过滤器 / 递归的路径返回匹配值数组。
+ */
+
+/** 路径片段 */
+type Segment =
+  | { kind: 'names'; names: string[]; recursive: boolean }
+  | { kind: 'indices'; indices: number[]; recursive: boolean }
+  | { kind: 'slice'; start: number | null; end: number | null; recursive: boolean }
+  | { kind: 'wildcard'; recursive: boolean }
+  | { kind: 'filter'; filter: FilterExpression; recursive: boolean };
+
+/** 过滤表达式：@<子路径> [比较运算符 字面量] */
+interface FilterExpression {
+  path: CompiledPath;
+  operator: '==' | '!=' | '<' | '<=' | '>' | '>=' | null;
+  literal: unknown;
+}
+
+interface CompiledPath {
+  segments: Segment[];
+  /** 是否为确定路径（最多匹配一个值） */
+  definite: boolean;
+}
+
+/** 已编译路径缓存（每条消息都会求值，避免重复解析） */
+const compiledCache = new Map<string, CompiledPath>();
+const MAX_CACHE_SIZE = 100;
+
+/**
+ * 按 JSONPath 提取值
+ *
+ * @example
+ * extractJsonPath({data: {hr: 75}}, "data.hr") → 75
+ * extractJsonPath({samples: [{hr: 70}, {hr: 72}]}, "samples[-1].hr") → 72
+ * extractJsonPath({samples: [{hr: 70}, {hr: 72}]}, "$.samples[*].hr") → [70, 72]
+ *
+ * @returns 确定路径返回匹配值（无匹配为 undefined）；其余返回匹配值数组；路径语法错误返回 undefined
+ */
+export function extractJsonPath(obj: unknown, path: string): unknown {
+  let compiled: CompiledPath;
+  try {
+    compiled = compileCached(path);
+  } catch {
+    return undefined;
+  }
+  const matches = evaluate(compiled, obj);
+  return compiled.definite ? matches[0] : matches;
+}
+
+/**
+ * 校验 JSONPath 语法
+ *
+ * @returns 合法返回 null，否则返回错误说明
+ */
+export function validateJsonPath(path: string): string | null {
+  try {
+    compile(path);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// ─── 编译 ───────────────────────────────────────
+
+function compileCached(path: string): CompiledPath {
+  let compiled = compiledCache.get(path);
+  if (!compiled) {
+    compiled = compile(path);
+    if (compiledCache.size >= MAX_CACHE_SIZE) {
+      compiledCache.clear();
+    }
+    compiledCache.set(path, compiled);
+  }
+  return compiled;
+}
+
+function compile(path: string): CompiledPath {
+  const source = path.trim();
+  if (!source) {
+    throw new Error('路径不能为空');
+  }
+
+  const segments: Segment[] = [];
+  let i = 0;
+  if (source[0] === '$') {
+    i = 1;
+  } else if (source[0] === '@') {
+    throw new Error('@ 只能用于过滤表达式');
+  } else if (source[0] !== '[' && source[0] !== '.') {
+    // 兼容旧版：不以 $ 开头的点分路径
+    const { name, next } = readName(source, 0);
+    segments.push({ kind: 'names', names: [name], recursive: false });
+    i = next;
+  }
+
+  while (i < source.length) {
+    let recursive = false;
+    if (source.startsWith('..', i)) {
+      recursive = true;
+      i += 2;
+    } else if (source[i] === '.') {
+      i += 1;
+    } else if (source[i] !== '[') {
+      throw new Error(`位置 ${i} 处语法错误：「${source.substring(i, i + 10)}」`);
+    }
+
+    if (source[i] === '[') {
+      const end = findBracketEnd(source, i);
+      segments.push(parseBracket(source.substring(i + 1, end).trim(), recursive));
+      i = end + 1;
+    } else if (source[i] === '*') {
+      segments.push({ kind: 'wildcard', recursive });
+      i += 1;
+    } else {
+      const { name, next } = readName(source, i);
+      segments.push({ kind: 'names', names: [name], recursive });
+      i = next;
+    }
+  }
+
+  const definite = segments.every((s) =>
+    !s.recursive &&
+    ((s.kind === 'names' && s.names.length === 1) || (s.kind === 'indices' && s.indices.length === 1))
+  );
+  return { segments, definite };
+}
+
+/** 读取点号后的成员名（直到下一个 . 或 [） */
+function readName(source: string, start: number): { name: string; next: number } {
+  let end = start;
+  while (end < source.length && source[end] !== '.' && source[end] !== '[') {
+    end++;
+  }
+  const name = source.substring(start, end).trim();
+  if (!name) {
+    throw new Error(`位置 ${start} 处缺少字段名`);
+  }
+  return { name, next: end };
+}
+
+/** 查找与 [ 配对的 ]（跳过引号与括号内的内容） */
+function findBracketEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') { i++; continue; }
+      if (ch === quote) { quote = null; }
+    } else if (ch === '\'' || ch === '"') {
+      quote = ch;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || (ch === ']' && depth > 0)) {
+      depth--;
+    } else if (ch === ']') {
+      return i;
+    }
+  }
+  throw new Error('方括号未闭合');
+}
+
+function parseBracket(content: string, recursive: boolean): Segment {
+  if (content === '*') {
+    return { kind: 'wildcard', recursive };
+  }
+
+  if (content.startsWith('?')) {
+    const match = /^\?\s*\((.*)\)$/s.exec(content);
+    if (!match) {
+      throw new Error(`过滤表达式格式应为 [?(@.字段 == 值)]：「${content}」`);
+    }
+    return { kind: 'filter', filter: parseFilter(match[1].trim()), recursive };
+  }
+
+  const slice = /^(-?\d+)?\s*:\s*(-?\d+)?$/.exec(content);
+  if (slice) {
+    return {
+      kind: 'slice',
+      start: slice[1] !== undefined ? Number(slice[1]) : null,
+      end: slice[2] !== undefined ? Number(slice[2]) : null,
+      recursive,
+    };
+  }
+
+  const parts = splitUnion(content);
+  if (parts.every((p) => /^-?\d+$/.test(p))) {
+    return { kind: 'indices', indices: parts.map(Number), recursive };
+  }
+  if (parts.every((p) => /^(['"]).*\1$/s.test(p))) {
+    return { kind: 'names', names: parts.map(unquote), recursive };
+  }
+  throw new Error(`无法解析的下标：「[${content}]」`);
+}
+
+/** 按顶层逗号拆分并集（引号内的逗号保留） */
+function splitUnion(content: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quote) {
+      if (ch === '\\' && i + 1 < content.length) {
+        current += ch + content[++i];
+        continue;
+      }
+      if (ch === quote) { quote = null; }
+    } else if (ch === '\'' || ch === '"') {
+      quote = ch;
+    } else if (ch === ',') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function unquote(text: string): string {
+  return text.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+function parseFilter(expression: string): FilterExpression {
+  const match = /^@((?:\.\.?[^\s=!<>]+|\[[^\]]*\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+))?$/s.exec(expression);
+  if (!match) {
+    throw new Error(`过滤表达式格式应为 @.字段 运算符 值：「${expression}」`);
+  }
+
+  const path = compile(`$${match[1] ?? ''}`);
+  const operator = (match[2] ?? null) as FilterExpression['operator'];
+  return {
+    path,
+    operator,
+    literal: operator ? parseLiteral(match[3].trim()) : undefined,
+  };
+}
+
+function parseLiteral(text: string): unknown {
+  if (/^(['"]).*\1$/s.test(text)) { return unquote(text); }
+  if (text === 'true') { return true; }
+  if (text === 'false') { return false; }
+  if (text === 'null') { return null; }
+  const num = Number(text);
+  if (text !== '' && Number.isFinite(num)) { return num; }
+  throw new Error(`无法解析的值：「${text}」`);
+}
+
+// ─── 求值 ───────────────────────────────────────
+
+function evaluate(path: CompiledPath, root: unknown): unknown[] {
+  let nodes: unknown[] = [root];
+  for (const segment of path.segments) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      const candidates = segment.recursive ? descendants(node) : [node];
+      for (const candidate of candidates) {
+        select(segment, candidate, next);
+      }
+    }
+    nodes = next;
+    if (nodes.length === 0) { break; }
+  }
+  return nodes;
+}
+
+/** 节点自身及全部后代（用于递归下降） */
+function descendants(node: unknown): unknown[] {
+  const result: unknown[] = [];
+  const stack: unknown[] = [node];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    result.push(current);
+    if (current !== null && typeof current === 'object') {
+      const children = Array.isArray(current) ? current : Object.values(current);
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push(children[i]);
+      }
+    }
+  }
+  return result;
+}
+
+function select(segment: Segment, node: unknown, out: unknown[]): void {
+  if (node === null || typeof node !== 'object') {
+    return;
+  }
+  const isArray = Array.isArray(node);
+
+  switch (segment.kind) {
+    case 'names':
+      for (const name of segment.names) {
+        if (!isArray && Object.prototype.hasOwnProperty.call(node, name)) {
+          out.push((node as Record<string, unknown>)[name]);
+        } else if (isArray && /^-?\d+$/.test(name)) {
+          pushIndex(node as unknown[], Number(name), out);
+        }
+      }
+      break;
+    case 'indices':
+      if (isArray) {
+        for (const index of segment.indices) {
+          pushIndex(node as unknown[], index, out);
+        }
+      }
+      break;
+    case 'slice':
+      if (isArray) {
+        const arr = node as unknown[];
+        const start = normalizeSliceBound(segment.start ?? 0, arr.length);
+        const end = normalizeSliceBound(segment.end ?? arr.length, arr.length);
+        out.push(...arr.slice(start, end));
+      }
+      break;
+    case 'wildcard':
+      out.push(...(isArray ? (node as unknown[]) : Object.values(node)));
+      break;
+    case 'filter':
+      for (const child of isArray ? (node as unknown[]) : Object.values(node)) {
+        if (matchesFilter(segment.filter, child)) {
+          out.push(child);
+        }
+      }
+      break;
+  }
+}
+
+function pushIndex(arr: unknown[], index: number, out: unknown[]): void {
+  const i = index < 0 ? arr.length + index : index;
+  if (i >= 0 && i < arr.length) {
+    out.push(arr[i]);
+  }
+}
+
+function normalizeSliceBound(bound: number, length: number): number {
+  return bound < 0 ? Math.max(0, length + bound) : Math.min(bound, length);
+}
+
+function matchesFilter(filter: FilterExpression, node: unknown): boolean {
+  const matches = evaluate(filter.path, node);
+  if (!filter.operator) {
+    return matches.length > 0 && matches[0] !== undefined && matches[0] !== null;
+  }
+  if (matches.length === 0) {
+    return false;
+  }
+
+  const value = matches[0];
+  const literal = filter.literal;
+  switch (filter.operator) {
+    case '==':
+      return looselyEqual(value, literal);
+    case '!=':
+      return !looselyEqual(value, literal);
+    default: {
+      const a = toComparable(value);
+      const b = toComparable(literal);
+      if (a === null || b === null) { return false; }
+      switch (filter.operator) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+      }
+    }
+  }
+  return false;
+}
+
+/** 相等比较：数字与数字字符串视为相等（设备 API 常把数字编码为字符串） */
+function looselyEqual(value: unknown, literal: unknown): boolean {
+  if (value === literal) { return true; }
+  if (typeof literal === 'number' && typeof value === 'string') {
+    return value.trim() !== '' && Number(value) === literal;
+  }
+  return false;
+}
+
+function toComparable(value: unknown): number | string | null {
+  if (typeof value === 'number') { return value; }
+  if (typeof value === 'string') {
+    const num = Number(value);
+    return value.trim() !== '' && Number.isFinite(num) ? num : value;
+  }
+  return null;
+}
@@ -122,6 +122,27 @@ const FLOW_TYPING_WINDOW = 300;
 const DEFAULT_HR_BASELINE = 70;
 /** 个人心率基线 EMA 系数（缓慢更新） */
 const HR_BASELINE_ALPHA = 0.01;
+/** 个人 RMSSD 基线 EMA 系数（每分钟约一次输入） */
+const RMSSD_BASELINE_ALPHA = 0.05;
+/** HRV 数据过期时间 (ms)：超过后回退到 BPM 变异系数 */
+const HRV_STALE_MS = 2 * 60 * 1000;
+
+// ─── 压力指数常量 ──────────────────────────────────
+
+/** 压力指数各维度权重（有 HRV 时；无 HRV 时心率升高独占全部权重） */
+const STRESS_WEIGHTS = {
+  hrElevation: 45,
+  hrvSuppression: 55,
+};
+/** 心率高于基线的起算 / 满分偏差 */
+const STRESS_ELEVATION_START = 0.05;
+const STRESS_ELEVATION_FULL = 0.35;
+/** 体力活动后的心率恢复期 (ms)：期间心率升高按比例归因于运动 */
+const STRESS_RECOVERY_MS = 5 * 60 * 1000;
+/** 压力指数平滑系数（每秒一次，约 10 秒时间常数） */
+const STRESS_EMA_ALPHA = 0.1;
+/** 心率数据过期时间 (ms)：超过后压力指数不再更新 */
+const HR_STALE_MS = 30 * 1000;
 
 export class MotionAnalyzer extends EventEmitter {
   private config: MotionConfig;
@@ -159,6 +180,16 @@ export class MotionAnalyzer extends EventEmitter {
   private personalHRBaseline: number = DEFAULT_HR_BASELINE;
   private sessionStartTime: number = Date.now();
 
+  // ── 压力指数 ──
+  private stressIndex: number = 0;
+  private lastHeartRateTime: number = 0;
+  private lastPhysicalActivityTime: number = 0; // 最近一次走动 / 大幅活动 / 步数增长
+
+  // ── HRV（仅提供 RR 间期的数据源）──
+  private latestRmssd: number | null = null;
+  private latestRmssdTime: number = 0;
+  private rmssdBaseline: number = 0;
+
   // ── 分析状态 ──
   private currentIntensity: CodingIntensityLevel = 'idle';
   private currentPosture: PostureState = 'resting';
@@ -264,6 +295,7 @@ export class MotionAnalyzer extends EventEmitter {
     // 步数明显增长 → 视为活动
     if (deltaSteps >= SEDENTARY_STEP_THRESHOLD) {
       this.lastActiveTime = Date.now();
+      this.lastPhysicalActivityTime = Date.now();
     }
   }
 
@@ -278,6 +310,7 @@ export class MotionAnalyzer extends EventEmitter {
     }
 
     this.lastHeartRate = bpm;
+    this.lastHeartRateTime = Date.now();
     this.heartRateHistory.push(bpm);
 
     // 保留最近 5 分钟心率（按每 5 秒 1 条估算）
@@ -293,6 +326,25 @@ export class MotionAnalyzer extends EventEmitter {
     }
   }
 
+  /**
+   * 输入 HRV（RMSSD，ms），替代 BPM 变异系数评估心率稳定性
+   */
+  feedHrv(rmssd: number): void {
+    if (!this.config.enableMotion || !Number.isFinite(rmssd) || rmssd <= 0) {
+      return;
+    }
+
+    this.latestRmssd = rmssd;
+    this.latestRmssdTime = Date.now();
+
+    // 个人 RMSSD 基线：首次直接采用，之后仅在静息状态下缓慢跟踪
+    if (this.rmssdBaseline === 0) {
+      this.rmssdBaseline = rmssd;
+    } else if (this.currentIntensity === 'idle' || this.currentIntensity === 'light') {
+      this.rmssdBaseline = RMSSD_BASELINE_ALPHA * rmssd + (1 - RMSSD_BASELINE_ALPHA) * this.rmssdBaseline;
+    }
+  }
+
   /**
    * 更新配置
    */
@@ -386,6 +438,9 @@ export class MotionAnalyzer extends EventEmitter {
       this.currentPosture = newPosture;
       this.emit('postureChange', newPosture);
     }
+    if (newPosture === 'walking' || newPosture === 'active') {
+      this.lastPhysicalActivityTime = now;
+    }
 
     // 3. 久坐检测
     this.checkSedentary(now);
@@ -815,9 +870,18 @@ export class MotionAnalyzer extends EventEmitter {
 
   /**
    * 判断心率稳定性 (0-1)
-   * 基于变异系数 (CV)，使用 5 分钟窗口
+   *
+   * 有 HRV 时：RMSSD 相对个人基线 — 接近或高于基线说明自主神经调节平稳，
+   * 显著低于基线（交感主导）说明紧张 / 压力，≤ 50% 基线记 0 分。
+   * 无 HRV 时：回退到 BPM 变异系数 (CV)，使用 5 分钟窗口。
    */
   private calculateHRStability(): number {
+    if (this.latestRmssd !== null && this.rmssdBaseline > 0 &&
+        Date.now() - this.latestRmssdTime < HRV_STALE_MS) {
+      const ratio = this.latestRmssd / this.rmssdBaseline;
+      return Math.max(0, Math.min(1, (ratio - 0.5) / 0.5));
+    }
+
     if (this.heartRateHistory.length < 10) {
       return 0.5; // 数据不足时给中间值
     }
@@ -846,12 +910,16 @@ export class MotionAnalyzer extends EventEmitter {
     // 计算精力水平（0-100，简化版）
     const energyLevel = this.calculateEnergyLevel();
 
+    // 计算压力指数（0-100，平滑后）
+    this.updateStressIndex(now);
+
     const result: MotionAnalysisResult = {
       codingIntensity: this.currentIntensity,
       posture: this.currentPosture,
       flowState: { ...this.flowState }, // 浅拷贝避免引用泄漏
       slackingIndex,
       energyLevel,
+      stressIndex: Math.round(this.stressIndex),
       postureAlertDuration,
       sedentaryDuration,
     };
@@ -934,6 +1002,47 @@ export class MotionAnalyzer extends EventEmitter {
     return Math.min(100, Math.round(total));
   }
 
+  /**
+   * 更新压力指数 (心率升高 + HRV 抑制 − 体力活动归因)
+   *
+   * 原始分 (0-100):
+   *   1. 心率升高 — 相对个人基线 +5% 起算，+35% 满分
+   *   2. HRV 抑制 — RMSSD 相对个人基线，100% 记 0 分，≤ 50% 满分（无 HRV 时不参与）
+   *
+   * 体力活动修正: 走动 / 大幅活动中 → ×0.2；活动结束后 5 分钟恢复期内线性回升至 ×1，
+   * 使「刚爬完楼梯」的心率升高不被计为压力，而「低动作下的紧张调试」保持高分。
+   */
+  private updateStressIndex(now: number): void {
+    if (this.lastHeartRate <= 0 || now - this.lastHeartRateTime > HR_STALE_MS) {
+      return; // 无新鲜心率数据：保持上次结果
+    }
+
+    // ── 1. 心率升高 (0-1) ──
+    const deviation = (this.lastHeartRate - this.personalHRBaseline) / this.personalHRBaseline;
+    const elevation = Math.max(0, Math.min(1,
+      (deviation - STRESS_ELEVATION_START) / (STRESS_ELEVATION_FULL - STRESS_ELEVATION_START)
+    ));
+
+    // ── 2. HRV 抑制 (0-1)，仅在 HRV 新鲜时参与 ──
+    let raw: number;
+    if (this.latestRmssd !== null && this.rmssdBaseline > 0 && now - this.latestRmssdTime < HRV_STALE_MS) {
+      const suppression = Math.max(0, Math.min(1, (1 - this.latestRmssd / this.rmssdBaseline) / 0.5));
+      raw = STRESS_WEIGHTS.hrElevation * elevation + STRESS_WEIGHTS.hrvSuppression * suppression;
+    } else {
+      raw = (STRESS_WEIGHTS.hrElevation + STRESS_WEIGHTS.hrvSuppression) * elevation;
+    }
+
+    // ── 3. 体力活动修正 ──
+    const sinceActivity = now - this.lastPhysicalActivityTime;
+    if (this.currentPosture === 'walking' || this.currentPosture === 'active') {
+      raw *= 0.2;
+    } else if (sinceActivity < STRESS_RECOVERY_MS) {
+      raw *= 0.2 + 0.8 * (sinceActivity / STRESS_RECOVERY_MS);
+    }
+
+    this.stressIndex = STRESS_EMA_ALPHA * raw + (1 - STRESS_EMA_ALPHA) * this.stressIndex;
+  }
+
   /**
    * 计算精力水平 (昼夜节律 + HR偏差 + 疲劳累积)
    *
@@ -0,0 +1,124 @@
+/**
+ * Heart Socket - 网络连接选项
+ *
+ * 解析代理（heartSocket.proxy → VSCode http.proxy → 环境变量）与 WebSocket 连接选项
+ * （按数据源附加的请求头与子协议；自定义 CA、证书校验仅自定义数据源）。每次连接 / 重连前重新解析，配置修改后无需重载插件。
+ */
+import * as fs from 'fs';
+import * as tls from 'tls';
+import * as vscode from 'vscode';
+import { shouldBypassProxy } from './proxyTunnel';
+import type { HeartSocketConfig, ResolvedProxy, WebSocketConnectOptions } from './types';
+
+/** 附加请求头 / 子协议的 WebSocket 数据源（传入 null 时只解析代理） */
+export type WebSocketSource = 'custom' | 'pulsoid' | 'hyperate';
+
+/**
+ * 解析连接目标主机应使用的代理
+ *
+ * @param proxySetting heartSocket.proxy：留空自动检测，"direct" 不使用代理，其余视为代理地址
+ * @returns 不使用代理（未配置 / 目标在绕过列表中）时返回 null
+ */
+export function resolveProxy(proxySetting: string, targetHost: string): ResolvedProxy | null {
+  const setting = proxySetting.trim();
+  if (setting.toLowerCase() === 'direct') {
+    return null;
+  }
+
+  const noProxy = [
+    ...vscode.workspace.getConfiguration('http').get<string[]>('noProxy', []),
+    ...(process.env.NO_PROXY || process.env.no_proxy || '').split(','),
+  ];
+  if (shouldBypassProxy(targetHost, noProxy)) {
+    return null;
+  }
+
+  if (setting) {
+    return { url: setting, source: 'heartSocket.proxy' };
+  }
+
+  // 其次读取 VSCode http.proxy 配置
+  const vscodeProxy = vscode.workspace.getConfiguration('http').get<string>('proxy');
+  if (vscodeProxy) {
+    return { url: vscodeProxy, source: 'VSCode' };
+  }
+
+  // 最后读取环境变量
+  const envProxy =
+    process.env.HTTPS_PROXY ||
+    process.env.https_proxy ||
+    process.env.HTTP_PROXY ||
+    process.env.http_proxy;
+  if (envProxy) {
+    return { url: envProxy, source: '环境变量' };
+  }
+
+  return null;
+}
+
+/**
+ * 构造 WebSocket 连接选项
+ *
+ * - 代理：所有 WebSocket 数据源（Pulsoid、HypeRate、自定义）
+ * - 请求头 / 子协议：按 source 读取对应数据源的设置（websocket* / pulsoidWebsocket* / hyperateWebsocket*）
+ * - 自定义 CA / 证书校验：仅自定义数据源。Pulsoid / HypeRate 的 Token 在地址中传输，
+ *   始终使用系统根证书严格校验，避免证书信任设置被用于截获 Token
+ *
+ * @throws CA 证书文件无法读取时抛出错误
+ */
+export function getWebSocketOptions(
+  config: HeartSocketConfig,
+  url: string,
+  source: WebSocketSource | null
+): WebSocketConnectOptions {
+  const options: WebSocketConnectOptions = {};
+
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // 地址无效时交由 WebSocket 报错
+  }
+
+  if (parsed && (parsed.protocol === 'ws:' || parsed.protocol === 'wss:')) {
+    const proxy = resolveProxy(config.proxy, parsed.hostname);
+    if (proxy) {
+      options.proxy = proxy;
+    }
+  }
+
+  if (source === null) {
+    return options;
+  }
+
+  const caFile = source === 'custom' ? config.tlsCaFile.trim() : '';
+  if (caFile) {
+    let ca: string;
+    try {
+      ca = fs.readFileSync(caFile, 'utf-8');
+    } catch (error) {
+      throw new Error(`无法读取 CA 证书文件 ${caFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // 在系统内置根证书之外追加信任（内网桥接的自签名证书）
+    options.ca = [...tls.rootCertificates, ca];
+  }
+  if (source === 'custom' && config.tlsAllowInsecure) {
+    options.rejectUnauthorized = false;
+  }
+
+  const [headerSetting, protocolSetting] =
+    source === 'pulsoid' ? [config.pulsoidWebsocketHeaders, config.pulsoidWebsocketProtocols]
+      : source === 'hyperate' ? [config.hyperateWebsocketHeaders, config.hyperateWebsocketProtocols]
+        : [config.websocketHeaders, config.websocketProtocols];
+  const headers = Object.entries(headerSetting ?? {})
+    .filter(([name, value]) => name.trim() && typeof value === 'string');
+  if (headers.length > 0) {
+    options.headers = Object.fromEntries(headers.map(([name, value]) => [name.trim(), value]));
+  }
+  const protocols = (protocolSetting ?? []).map((p) => p.trim()).filter((p) => p.length > 0);
+  if (protocols.length > 0) {
+    options.protocols = protocols;
+  }
+
+  return options;
+}
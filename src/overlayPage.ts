@@ -0,0 +1,231 @@
+/**
+ * Heart Socket - 直播叠加层页面（OBS 浏览器源）
+ *
+ * 由 BroadcastServer（或挂载了叠加层的 HDS Server）以 `GET /overlay` 提供，
+ * 页面通过同源、同路径前缀的 `live` WebSocket 实时更新（HDS 配对模式下为 `/<配对码>/live`）：
+ * - 当前 BPM + 按心率区间着色、随心率节奏跳动的心形
+ * - 最近 N 分钟心率折线（sparkline）
+ * - 可选的心流状态 / 敲代码强度徽章
+ *
+ * URL 参数可覆盖设置项（方便同一台机器配置多个场景）：
+ * - `minutes=10` — 折线时间窗口（1-15 分钟）
+ * - `badges=0`   — 隐藏徽章
+ * - `scale=1.5`  — 整体缩放
+ */
+
+/** 叠加层默认选项（来自设置项） */
+export interface OverlayOptions {
+  /** 折线时间窗口（分钟） */
+  sparklineMinutes: number;
+  /** 显示心流 / 敲代码强度徽章 */
+  showBadges: boolean;
+}
+
+/** 区间颜色（与统计面板一致） */
+const ZONE_COLORS: Record<string, string> = {
+  low: '#5b9bd5', deepRelax: '#7b68ee', relax: '#5b9bd5', calm: '#4caf50',
+  lightFocus: '#26a69a', focused: '#9c27b0', tense: '#ff9800',
+  stressed: '#ff5722', extreme: '#f44336',
+};
+
+/**
+ * 生成叠加层 HTML（透明背景，适合直接作为 OBS 浏览器源）
+ */
+export function getOverlayHtml(options: OverlayOptions): string {
+  const defaults = JSON.stringify({
+    minutes: options.sparklineMinutes,
+    badges: options.showBadges,
+    zoneColors: ZONE_COLORS,
+  });
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<title>Heart Socket Overlay</title>
+<style>
+  html, body {
+    margin: 0;
+    background: transparent;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+    color: #fff;
+    overflow: hidden;
+  }
+  .overlay {
+    display: inline-flex;
+    flex-direction: column;
+    gap: 6px;
+    padding: 12px 16px;
+    border-radius: 14px;
+    background: rgba(20, 20, 30, 0.55);
+    transform-origin: top left;
+  }
+  .row {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+  }
+  .heart {
+    font-size: 36px;
+    line-height: 1;
+    color: #e74c3c;
+    animation: beat 1s ease-in-out infinite;
+    transition: color 0.4s;
+  }
+  @keyframes beat {
+    0%, 100% { transform: scale(1); }
+    15% { transform: scale(1.22); }
+    30% { transform: scale(1); }
+    45% { transform: scale(1.12); }
+  }
+  .bpm {
+    font-size: 44px;
+    font-weight: 700;
+    font-variant-numeric: tabular-nums;
+    text-shadow: 0 2px 6px rgba(0, 0, 0, 0.5);
+  }
+  .unit {
+    font-size: 14px;
+    opacity: 0.75;
+    align-self: flex-end;
+    margin-bottom: 8px;
+  }
+  .offline .heart { animation: none; opacity: 0.35; }
+  .offline .bpm { opacity: 0.35; }
+  svg { display: block; }
+  .badges {
+    display: flex;
+    gap: 6px;
+    font-size: 12px;
+  }
+  .badge {
+    padding: 2px 8px;
+    border-radius: 10px;
+    background: rgba(255, 255, 255, 0.15);
+    white-space: nowrap;
+  }
+  .badge.flow { background: rgba(156, 39, 176, 0.6); }
+  .hidden { display: none; }
+</style>
+</head>
+<body>
+<div class="overlay offline" id="overlay">
+  <div class="row">
+    <span class="heart" id="heart">❤</span>
+    <span class="bpm" id="bpm">--</span>
+    <span class="unit">BPM</span>
+  </div>
+  <svg id="spark" width="220" height="40" viewBox="0 0 220 40" preserveAspectRatio="none">
+    <polyline id="sparkLine" fill="none" stroke="#e74c3c" stroke-width="2" stroke-linejoin="round" points=""/>
+  </svg>
+  <div class="badges" id="badges">
+    <span class="badge flow hidden" id="flowBadge"></span>
+    <span class="badge hidden" id="intensityBadge"></span>
+  </div>
+</div>
+<script>
+(function() {
+  var defaults = ${defaults};
+  var params = new URLSearchParams(location.search);
+  var minutes = Math.min(15, Math.max(1, parseFloat(params.get('minutes')) || defaults.minutes));
+  var showBadges = params.has('badges') ? params.get('badges') !== '0' : defaults.badges;
+  var scale = parseFloat(params.get('scale')) || 1;
+
+  var overlay = document.getElementById('overlay');
+  var heart = document.getElementById('heart');
+  var bpmEl = document.getElementById('bpm');
+  var sparkLine = document.getElementById('sparkLine');
+  var flowBadge = document.getElementById('flowBadge');
+  var intensityBadge = document.getElementById('intensityBadge');
+  overlay.style.transform = 'scale(' + scale + ')';
+  if (!showBadges) document.getElementById('badges').classList.add('hidden');
+
+  var intensityLabels = {
+    idle: '💤 空闲', light: '⌨️ 轻度打字', moderate: '⚡ 中等打字',
+    intense: '🔥 密集打字', furious: '🚀 疯狂打字'
+  };
+  var history = [];
+  var staleTimer = null;
+
+  function setHeartRate(bpm, zone) {
+    bpmEl.textContent = bpm;
+    var color = defaults.zoneColors[zone] || '#e74c3c';
+    heart.style.color = color;
+    sparkLine.setAttribute('stroke', color);
+    heart.style.animationDuration = (60 / Math.max(30, bpm)).toFixed(2) + 's';
+    overlay.classList.remove('offline');
+    // 15 秒无数据视为离线
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = setTimeout(function() { overlay.classList.add('offline'); }, 15000);
+  }
+
+  function drawSparkline() {
+    var cutoff = Date.now() - minutes * 60000;
+    history = history.filter(function(p) { return p.ts >= cutoff; });
+    if (history.length < 2) { sparkLine.setAttribute('points', ''); return; }
+    var min = Infinity, max = -Infinity;
+    for (var i = 0; i < history.length; i++) {
+      min = Math.min(min, history[i].bpm);
+      max = Math.max(max, history[i].bpm);
+    }
+    var range = Math.max(10, max - min);
+    var span = minutes * 60000;
+    sparkLine.setAttribute('points', history.map(function(p) {
+      var x = ((p.ts - cutoff) / span) * 220;
+      var y = 36 - ((p.bpm - min) / range) * 32;
+      return x.toFixed(1) + ',' + y.toFixed(1);
+    }).join(' '));
+  }
+
+  function setMotion(motion) {
+    if (!motion) return;
+    if (motion.flowState && motion.flowState.active) {
+      flowBadge.textContent = '🎯 心流 ' + Math.floor(motion.flowState.duration / 60000) + ' 分钟';
+      flowBadge.classList.remove('hidden');
+    } else {
+      flowBadge.classList.add('hidden');
+    }
+    if (motion.codingIntensity && intensityLabels[motion.codingIntensity]) {
+      intensityBadge.textContent = intensityLabels[motion.codingIntensity];
+      intensityBadge.classList.remove('hidden');
+    } else {
+      intensityBadge.classList.add('hidden');
+    }
+  }
+
+  function onMessage(msg) {
+    if (msg.type === 'snapshot') {
+      history = (msg.data.history || []).slice();
+      if (msg.data.heartRate) setHeartRate(msg.data.heartRate.bpm, msg.data.zone);
+      setMotion(msg.data.motion);
+      drawSparkline();
+    } else if (msg.type === 'heartRate') {
+      history.push({ bpm: msg.data.bpm, ts: msg.data.timestamp });
+      setHeartRate(msg.data.bpm, msg.zone);
+      drawSparkline();
+    } else if (msg.type === 'motion') {
+      setMotion(msg.data);
+    } else if (msg.type === 'status' && msg.data.status !== 'connected') {
+      overlay.classList.add('offline');
+    }
+  }
+
+  function connect() {
+    var livePath = location.pathname.replace(/overlay$/, 'live');
+    var ws = new WebSocket((location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + livePath);
+    ws.onmessage = function(e) {
+      try { onMessage(JSON.parse(e.data)); } catch (err) { /* 忽略无法解析的消息 */ }
+    };
+    ws.onclose = function() {
+      overlay.classList.add('offline');
+      setTimeout(connect, 2000);
+    };
+  }
+
+  connect();
+  setInterval(drawSparkline, 5000);
+})();
+</script>
+</body>
+</html>`;
+}
@@ -6,42 +6,39 @@
  */
 import { EventEmitter } from 'events';
 import { WebSocketClient } from '../webSocketClient';
+import { getWebSocketOptions } from '../networkOptions';
+import type { WebSocketSource } from '../networkOptions';
 import { ConnectionStatus } from '../types';
-import type { HeartRateData, HeartSocketConfig, HealthDataType } from '../types';
+import type {
+  CredentialAccessor,
+  CredentialKey,
+  HeartRateData,
+  HeartSocketConfig,
+  HealthDataType,
+  IMessageTransport,
+  ReconnectInfo,
+  RRIntervalData,
+  WebSocketConnectOptions,
+} from '../types';
 
 export abstract class BaseProvider extends EventEmitter {
-  protected wsClient: WebSocketClient;
+  protected transport: IMessageTransport;
   protected config: HeartSocketConfig;
+  private credentials: CredentialAccessor | null;
   private _isConnected: boolean = false;
+  /** 连接序号：异步解析 URL 期间被断开 / 重连时丢弃过期结果 */
+  private connectAttempt: number = 0;
+  /** 上次记录的连接选项摘要（仅在变化时输出日志，避免重连时刷屏） */
+  private loggedOptions: string = '';
 
   /** 数据源名称 */
   abstract readonly name: string;
 
-  constructor(config: HeartSocketConfig) {
+  constructor(config: HeartSocketConfig, credentials?: CredentialAccessor) {
     super();
     this.config = config;
-    this.wsClient = new WebSocketClient();
-
-    // 转发 WebSocket 状态变化
-    this.wsClient.on('statusChange', (status: ConnectionStatus) => {
-      this._isConnected = status === ConnectionStatus.Connected;
-      this.emit('statusChange', status);
-    });
-
-    // 转发错误
-    this.wsClient.on('error', (error: Error) => {
-      this.emit('error', error);
-    });
-
-    // 消息处理由子类实现
-    this.wsClient.on('message', (data: string) => {
-      this.onMessage(data);
-    });
-
-    // 连接打开后的初始化（子类可覆盖）
-    this.wsClient.on('open', () => {
-      this.onConnected();
-    });
+    this.credentials = credentials ?? null;
+    this.transport = this.bindTransport(this.createTransport());
   }
 
   /** 是否已连接 */
@@ -51,22 +48,54 @@ export abstract class BaseProvider extends EventEmitter {
 
   /** 当前连接状态 */
   get status(): ConnectionStatus {
-    return this.wsClient.status;
+    return this.transport.status;
   }
 
   /**
    * 连接数据源
    */
   connect(): void {
+    const attempt = ++this.connectAttempt;
     const url = this.getWebSocketUrl();
-    this.wsClient.connect(url);
+    if (typeof url === 'string') {
+      this.transport.connect(url);
+      return;
+    }
+
+    // URL 需异步解析（从 SecretStorage 读取凭据）
+    url.then(
+      (resolved) => {
+        if (attempt === this.connectAttempt) {
+          this.transport.connect(resolved);
+        }
+      },
+      (error: Error) => {
+        if (attempt !== this.connectAttempt) { return; }
+        this.emit('error', error);
+        this.emit('statusChange', ConnectionStatus.Error);
+      }
+    );
   }
 
   /**
    * 断开连接
    */
   disconnect(): void {
-    this.wsClient.disconnect();
+    this.connectAttempt++;
+    this.transport.disconnect();
+  }
+
+  /**
+   * 跳过重连等待立即重试；传输层无法直接重试（如不可重试错误、URL 解析失败）时重新连接
+   */
+  retryNow(): void {
+    const status = this.status;
+    if (status === ConnectionStatus.Connected || status === ConnectionStatus.Connecting) {
+      return;
+    }
+    if (!this.transport.retryNow()) {
+      this.connect();
+    }
   }
 
   /**
@@ -74,20 +103,66 @@ export abstract class BaseProvider extends EventEmitter {
    */
   updateConfig(config: HeartSocketConfig): void {
     this.config = config;
+    this.transport.setReconnectConfig(config.reconnect);
   }
 
   /**
    * 销毁，释放资源
    */
   dispose(): void {
-    this.wsClient.dispose();
+    this.connectAttempt++;
+    this.transport.dispose();
     this.removeAllListeners();
   }
 
   /**
-   * 派发心率数据事件
+   * 创建传输层（默认 WebSocket，子类可覆盖；在构造函数中调用，不可依赖子类字段）
+   */
+  protected createTransport(): IMessageTransport {
+    return new WebSocketClient(undefined, (url) => this.getConnectionOptions(url));
+  }
+
+  /**
+   * WebSocket 连接选项（代理 / CA / 证书校验；每次连接前解析，子类可覆盖以附加请求头等）
    */
-  protected emitHeartRate(bpm: number): void {
+  protected getConnectionOptions(url: string): WebSocketConnectOptions {
+    return this.resolveConnectionOptions(url, null);
+  }
+
+  /**
+   * 解析连接选项并在代理变化时记录日志（source: 附加该数据源配置的请求头与子协议）
+   */
+  protected resolveConnectionOptions(url: string, source: WebSocketSource | null): WebSocketConnectOptions {
+    const options = getWebSocketOptions(this.config, url, source);
+    const insecure = options.rejectUnauthorized === false && /^wss:/i.test(url);
+    const summary = `${options.proxy ? options.proxy.url : ''}|${insecure}`;
+    if (summary !== this.loggedOptions) {
+      this.loggedOptions = summary;
+      if (options.proxy) {
+        // 隐藏代理地址中的用户名与密码
+        this.log(`使用${options.proxy.source}代理: ${options.proxy.url.replace(/\/\/[^@/]*@/, '//')}`);
+      }
+      if (insecure) {
+        this.log('⚠️ 已关闭服务器证书校验（heartSocket.tlsAllowInsecure）');
+      }
+    }
+    return options;
+  }
+
+  /**
+   * 替换传输层（如用户切换了传输方式），旧传输直接销毁
+   */
+  protected replaceTransport(transport: IMessageTransport): void {
+    this.connectAttempt++;
+    this.transport.dispose();
+    this.transport = this.bindTransport(transport);
+    this._isConnected = false;
+  }
+
+  /**
+   * 派发心率数据事件（同帧携带 RR 间期时一并派发 rrInterval 事件）
+   */
+  protected emitHeartRate(bpm: number, rrIntervals?: number[]): void {
     // 心率有效性校验
     if (!Number.isFinite(bpm) || bpm < 20 || bpm > 250) {
       return;
@@ -98,8 +173,28 @@ export abstract class BaseProvider extends EventEmitter {
       timestamp: Date.now(),
       source: this.name,
     };
+    if (rrIntervals && rrIntervals.length > 0) {
+      data.rrIntervals = rrIntervals;
+    }
 
     this.emit('heartRate', data);
+
+    if (data.rrIntervals) {
+      this.emitRRIntervals(data.rrIntervals);
+    }
+  }
+
+  /**
+   * 派发 RR 间期事件（ms）
+   */
+  protected emitRRIntervals(intervals: number[]): void {
+    if (intervals.length === 0) { return; }
+    const data: RRIntervalData = {
+      intervals,
+      timestamp: Date.now(),
+      source: this.name,
+    };
+    this.emit('rrInterval', data);
   }
 
   /**
@@ -114,6 +209,22 @@ export abstract class BaseProvider extends EventEmitter {
     });
   }
 
+  /**
+   * 派发连接往返延迟 (ms)（传输层心跳或应用层心跳测得）
+   */
+  protected emitLatency(ms: number): void {
+    if (Number.isFinite(ms) && ms >= 0) {
+      this.emit('latency', Math.round(ms));
+    }
+  }
+
+  /**
+   * 读取凭据（未注入凭据存储或未保存时返回 undefined）
+   */
+  protected async getCredential(key: CredentialKey): Promise<string | undefined> {
+    return this.credentials ? this.credentials.getCredential(key) : undefined;
+  }
+
   /**
    * 输出调试日志到 Output Channel
    */
@@ -121,13 +232,65 @@ export abstract class BaseProvider extends EventEmitter {
     this.emit('log', message);
   }
 
+  /**
+   * 将传输层事件转发到 Provider
+   */
+  private bindTransport(transport: IMessageTransport): IMessageTransport {
+    transport.setReconnectConfig(this.config.reconnect);
+
+    // 转发连接状态变化
+    transport.on('statusChange', (status: ConnectionStatus) => {
+      this._isConnected = status === ConnectionStatus.Connected;
+      this.emit('statusChange', status);
+    });
+
+    // 转发错误（子类可转换为更具体的错误类型）
+    transport.on('error', (error: Error) => {
+      this.emit('error', this.mapError(error));
+    });
+
+    // 消息处理由子类实现
+    transport.on('message', (data: string, topic?: string) => {
+      this.onMessage(data, topic);
+    });
+
+    // 转发重连计划（状态栏倒计时）
+    transport.on('reconnectScheduled', (info: ReconnectInfo) => {
+      this.emit('reconnectScheduled', info);
+    });
+
+    // 转发心跳往返延迟（子类自行测量应用层延迟时忽略）
+    transport.on('latency', (ms: number) => {
+      if (!this.measuresOwnLatency()) {
+        this.emitLatency(ms);
+      }
+    });
+
+    // 连接打开后的初始化（子类可覆盖）
+    transport.on('open', () => {
+      this.onConnected();
+    });
+
+    return transport;
+  }
+
   // ─── 子类需要实现的方法 ───────────────────────
 
-  /** 获取 WebSocket 连接 URL */
-  protected abstract getWebSocketUrl(): string;
+  /** 获取连接 URL（需读取凭据时返回 Promise） */
+  protected abstract getWebSocketUrl(): string | Promise<string>;
+
+  /** 处理收到的消息（topic 仅 MQTT 等带主题的传输提供） */
+  protected abstract onMessage(data: string, topic?: string): void;
 
-  /** 处理收到的 WebSocket 消息 */
-  protected abstract onMessage(data: string): void;
+  /** 转换传输层错误（可选覆盖，如将认证失败转为 CredentialError） */
+  protected mapError(error: Error): Error {
+    return error;
+  }
+
+  /** 是否由子类测量应用层往返延迟（如 Phoenix heartbeat），为 true 时不转发传输层心跳延迟 */
+  protected measuresOwnLatency(): boolean {
+    return false;
+  }
 
   /** 连接建立后的初始化操作（可选覆盖） */
   protected onConnected(): void {
@@ -0,0 +1,205 @@
+/**
+ * Heart Socket - BLE 心率带 Provider（本地桥接协议）
+ *
+ * 解析标准 BLE Heart Rate Measurement 特征值（0x2A37），
+ * 由一个本地伴随桥接程序（或录制的抓包回放）将原始帧转发给插件，
+ * 使 Polar H10 等胸带无需任何云服务即可直连 Heart Socket。
+ *
+ * 传输方式（heartSocket.bleBridgeUrl）：
+ * - `ws://127.0.0.1:8582` — 连接桥接程序的 WebSocket 服务端
+ * - `\\.\pipe\heart-socket-ble` / `/tmp/heart-socket-ble.sock` — 命名管道 / Unix Socket
+ *
+ * 帧格式与 0x2A37 解析见 heartRateMeasurement.ts。
+ */
+import * as net from 'net';
+import { BaseProvider } from './baseProvider';
+import { getReconnectDelay } from '../webSocketClient';
+import { decodeBridgeFrame, parseHeartRateMeasurement } from '../heartRateMeasurement';
+import { ConnectionStatus, ReconnectExhaustedError } from '../types';
+
+/** 1 kcal = 4.184 kJ */
+const KJ_PER_KCAL = 4.184;
+
+export class BleProvider extends BaseProvider {
+  readonly name = 'BLE Heart Rate';
+
+  // 命名管道模式状态（WebSocket 模式由 BaseProvider 的 transport 管理）
+  private pipe: net.Socket | null = null;
+  private pipeBuffer: string = '';
+  private pipeStatus: ConnectionStatus = ConnectionStatus.Disconnected;
+  private pipeReconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 管道连续重连次数（连接成功后清零） */
+  private pipeReconnectAttempt: number = 0;
+  private pipeClosing: boolean = false;
+  /** 已提示过未接触皮肤（避免每秒刷屏） */
+  private warnedNoContact: boolean = false;
+
+  get isConnected(): boolean {
+    return this.isPipeMode ? this.pipeStatus === ConnectionStatus.Connected : super.isConnected;
+  }
+
+  get status(): ConnectionStatus {
+    return this.isPipeMode ? this.pipeStatus : super.status;
+  }
+
+  private get isPipeMode(): boolean {
+    const url = this.config.bleBridgeUrl;
+    return !url.startsWith('ws://') && !url.startsWith('wss://');
+  }
+
+  connect(): void {
+    if (!this.config.bleBridgeUrl) {
+      throw new Error('BLE 心率带需要配置桥接地址（heartSocket.bleBridgeUrl）');
+    }
+    if (this.isPipeMode) {
+      this.pipeClosing = false;
+      this.pipeReconnectAttempt = 0;
+      this.connectPipe();
+    } else {
+      super.connect();
+    }
+  }
+
+  disconnect(): void {
+    this.closePipe();
+    super.disconnect();
+  }
+
+  dispose(): void {
+    this.closePipe();
+    super.dispose();
+  }
+
+  protected getWebSocketUrl(): string {
+    return this.config.bleBridgeUrl;
+  }
+
+  protected onConnected(): void {
+    this.log(`已连接到 BLE 桥接程序: ${this.config.bleBridgeUrl}`);
+  }
+
+  protected onMessage(data: string): void {
+    // 一条消息中可能包含多帧（按行分隔）
+    for (const line of data.split(/\r?\n/)) {
+      if (line.trim()) {
+        this.handleFrame(line);
+      }
+    }
+  }
+
+  // ─── 帧处理 ─────────────────────────────────────
+
+  private handleFrame(frame: string): void {
+    const bytes = decodeBridgeFrame(frame);
+    const measurement = bytes ? parseHeartRateMeasurement(bytes) : null;
+    if (!measurement) {
+      this.log(`[BLE] 无法解析的帧: ${frame.substring(0, 80)}`);
+      return;
+    }
+
+    // 传感器支持接触检测且未接触皮肤：心率值无意义
+    if (measurement.sensorContact === false) {
+      if (!this.warnedNoContact) {
+        this.warnedNoContact = true;
+        this.log('[BLE] 心率带未接触皮肤，已暂停采集');
+      }
+      return;
+    }
+    this.warnedNoContact = false;
+
+    this.emitHeartRate(measurement.bpm, measurement.rrIntervals);
+
+    if (measurement.energyExpended !== null) {
+      this.emitHealthData('calories', Math.round((measurement.energyExpended / KJ_PER_KCAL) * 10) / 10);
+    }
+  }
+
+  // ─── 命名管道传输 ───────────────────────────────
+
+  private connectPipe(): void {
+    this.clearPipeReconnect();
+    this.setPipeStatus(this.pipeStatus === ConnectionStatus.Disconnected
+      ? ConnectionStatus.Connecting
+      : ConnectionStatus.Reconnecting);
+
+    const socket = net.createConnection(this.config.bleBridgeUrl);
+    this.pipe = socket;
+    this.pipeBuffer = '';
+    socket.setEncoding('utf-8');
+
+    socket.on('connect', () => {
+      this.pipeReconnectAttempt = 0;
+      this.setPipeStatus(ConnectionStatus.Connected);
+      this.onConnected();
+    });
+
+    socket.on('data', (chunk: string) => {
+      this.pipeBuffer += chunk;
+      const lines = this.pipeBuffer.split(/\r?\n/);
+      this.pipeBuffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) {
+          this.handleFrame(line);
+        }
+      }
+    });
+
+    socket.on('error', (err: Error) => {
+      this.log(`[BLE] 管道错误: ${err.message}`);
+    });
+
+    socket.on('close', () => {
+      if (this.pipe !== socket) { return; }
+      this.pipe = null;
+      if (this.pipeClosing) { return; }
+      // 桥接程序未启动或已退出：按重连策略重试
+      this.schedulePipeReconnect();
+    });
+  }
+
+  private schedulePipeReconnect(): void {
+    const { maxRetries } = this.config.reconnect;
+    if (maxRetries !== -1 && this.pipeReconnectAttempt >= maxRetries) {
+      this.setPipeStatus(ConnectionStatus.Error);
+      this.emit('error', new ReconnectExhaustedError(maxRetries));
+      return;
+    }
+
+    this.setPipeStatus(ConnectionStatus.Reconnecting);
+    this.pipeReconnectAttempt++;
+    const delay = getReconnectDelay(this.config.reconnect, this.pipeReconnectAttempt);
+    this.pipeReconnectTimer = setTimeout(() => this.connectPipe(), delay);
+    this.emit('reconnectScheduled', {
+      attempt: this.pipeReconnectAttempt,
+      maxRetries,
+      retryAt: Date.now() + delay,
+    });
+  }
+
+  private closePipe(): void {
+    this.pipeClosing = true;
+    this.clearPipeReconnect();
+    if (this.pipe) {
+      this.pipe.removeAllListeners();
+      this.pipe.destroy();
+      this.pipe = null;
+    }
+    if (this.isPipeMode) {
+      this.setPipeStatus(ConnectionStatus.Disconnected);
+    }
+  }
+
+  private clearPipeReconnect(): void {
+    if (this.pipeReconnectTimer) {
+      clearTimeout(this.pipeReconnectTimer);
+      this.pipeReconnectTimer = null;
+    }
+  }
+
+  private setPipeStatus(status: ConnectionStatus): void {
+    if (this.pipeStatus !== status) {
+      this.pipeStatus = status;
+      this.emit('statusChange', status);
+    }
+  }
+}
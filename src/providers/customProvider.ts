@@ -1,131 +1,100 @@
 /**
- * Heart Socket - 自定义 WebSocket Provider
+ * Heart Socket - 自定义数据源 Provider
  *
- * 支持任意 WebSocket 数据源，通过可配置的 JSON 路径提取心率及健康数据。
+ * 支持任意 WebSocket / SSE / HTTP 轮询 / TCP / UDP 数据源，通过可配置的 JSON 路径提取心率及健康数据。
  *
  * 配置项：
- * - heartSocket.websocketUrl: WebSocket 连接地址
- * - heartSocket.heartRateJsonPath: 心率字段的 JSON 路径（如 "data.heart_rate"）
+ * - heartSocket.customTransport: 传输方式（websocket / sse / http-poll / tcp / udp）
+ * - heartSocket.websocketUrl: 数据源地址（ws(s):// / http(s):// / tcp:// / udp://，与传输方式对应）
+ * - heartSocket.customPollInterval: HTTP 轮询间隔（秒）
+ * - heartSocket.websocketHeaders / websocketProtocols: WebSocket 握手请求头与子协议
+ * - heartSocket.heartRateJsonPath: 心率字段的 JSONPath（如 "data.heart_rate"、"$.samples[-1].hr"）
  * - heartSocket.caloriesJsonPath: 卡路里字段的 JSON 路径（如 "data.calories"，留空不启用）
  * - heartSocket.stepCountJsonPath: 步数字段的 JSON 路径（如 "data.steps"，留空不启用）
  * - heartSocket.bloodOxygenJsonPath: 血氧字段的 JSON 路径（如 "data.spo2"，留空不启用）
  * - heartSocket.distanceJsonPath: 距离字段的 JSON 路径（如 "data.distance"，留空不启用）
  * - heartSocket.speedJsonPath: 速度字段的 JSON 路径（如 "data.speed"，留空不启用）
+ * - heartSocket.rrIntervalsJsonPath: RR 间期字段的 JSON 路径（如 "data.rr"，留空不启用）
+ * - heartSocket.jsonTransforms: 各字段的值转换（数组取值 / 字符串转数字 / 倍率 / RR→BPM）
  *
- * 支持的数据格式：
- * 1. 纯数字: "75" → 视为心率
- * 2. 简单 JSON: {"heartRate": 75}
- * 3. 嵌套 JSON: {"data": {"heart_rate": 75, "calories": 120, "steps": 5000}}
- * 4. 多字段 JSON: 一条消息中可同时包含心率 + 卡路里 + 步数 + 血氧 + 距离 + 速度
+ * 消息解析见 jsonPayload.ts（纯数字视为心率，JSON 按上述路径提取）。
  */
 import { BaseProvider } from './baseProvider';
-import type { HealthDataType } from '../types';
-
-/** 健康数据字段映射定义 */
-interface HealthFieldMapping {
-  /** 配置中的 JSON Path key */
-  configKey: 'caloriesJsonPath' | 'stepCountJsonPath' | 'bloodOxygenJsonPath' | 'distanceJsonPath' | 'speedJsonPath' | 'bodyMassJsonPath' | 'bmiJsonPath';
-  /** 对应的 HealthDataType */
-  type: HealthDataType;
-  /** 数值校验函数（可选） */
-  validate?: (v: number) => boolean;
-}
-
-/** 所有健康数据字段的映射关系 */
-const HEALTH_FIELD_MAPPINGS: HealthFieldMapping[] = [
-  { configKey: 'caloriesJsonPath', type: 'calories', validate: (v) => v >= 0 },
-  { configKey: 'stepCountJsonPath', type: 'stepCount', validate: (v) => v >= 0 && Number.isInteger(v) },
-  { configKey: 'bloodOxygenJsonPath', type: 'bloodOxygen', validate: (v) => v >= 0 && v <= 100 },
-  { configKey: 'distanceJsonPath', type: 'distance', validate: (v) => v >= 0 },
-  { configKey: 'speedJsonPath', type: 'speed', validate: (v) => v >= 0 },
-  { configKey: 'bodyMassJsonPath', type: 'bodyMass', validate: (v) => v > 0 && v < 500 },
-  { configKey: 'bmiJsonPath', type: 'bmi', validate: (v) => v > 0 && v < 100 },
-];
+import { extractPayload } from './jsonPayload';
+import { createCustomTransport } from '../customTransports';
+import type { CustomTransportType, HeartSocketConfig, IMessageTransport, WebSocketConnectOptions } from '../types';
+
+/** 各传输方式的数据源名称 */
+const TRANSPORT_NAMES: Record<CustomTransportType, string> = {
+  websocket: 'Custom WebSocket',
+  sse: 'Custom SSE',
+  'http-poll': 'Custom HTTP',
+  tcp: 'Custom TCP',
+  udp: 'Custom UDP',
+};
 
 export class CustomProvider extends BaseProvider {
-  readonly name = 'Custom WebSocket';
-
-  protected getWebSocketUrl(): string {
-    return this.config.websocketUrl;
+  /** 当前传输层对应的传输方式与轮询间隔（配置变更后在下次连接时重建传输层） */
+  private transportType: CustomTransportType;
+  private pollInterval: number;
+
+  constructor(config: HeartSocketConfig) {
+    super(config);
+    this.transportType = config.customTransport;
+    this.pollInterval = config.customPollInterval;
   }
 
-  protected onConnected(): void {
-    this.log('已连接到自定义 WebSocket 服务端');
+  get name(): string {
+    return TRANSPORT_NAMES[this.transportType] ?? TRANSPORT_NAMES.websocket;
   }
 
-  protected onMessage(data: string): void {
-    try {
-      const trimmed = data.trim();
-
-      // 尝试直接解析为数字（视为心率）
-      const directNum = Number(trimmed);
-      if (Number.isFinite(directNum) && directNum > 0) {
-        this.emitHeartRate(directNum);
-        return;
-      }
-
-      // 解析 JSON 并提取各字段
-      const json = JSON.parse(trimmed);
-
-      // 1. 提取心率
-      if (this.config.heartRateJsonPath) {
-        const bpm = this.extractValue(json, this.config.heartRateJsonPath);
-        if (typeof bpm === 'number') {
-          this.emitHeartRate(bpm);
-        }
-      }
-
-      // 2. 提取健康数据（卡路里、步数、血氧、距离、速度）
-      this.extractHealthData(json);
-    } catch {
-      // 无法解析的消息忽略
+  connect(): void {
+    const { customTransport, customPollInterval } = this.config;
+    if (customTransport !== this.transportType || customPollInterval !== this.pollInterval) {
+      this.transportType = customTransport;
+      this.pollInterval = customPollInterval;
+      this.replaceTransport(this.createTransport());
     }
+    super.connect();
   }
 
-  /**
-   * 从 JSON 消息中提取健康数据并派发事件
-   *
-   * 遍历所有已配置的健康数据字段映射，
-   * 对每个有效字段 emit 'healthData' 事件。
-   */
-  private extractHealthData(json: unknown): void {
-    for (const { configKey, type, validate } of HEALTH_FIELD_MAPPINGS) {
-      const path = this.config[configKey];
-      if (!path) {
-        continue; // 未配置则跳过
-      }
+  protected createTransport(): IMessageTransport {
+    return createCustomTransport(
+      this.config.customTransport,
+      this.config.customPollInterval,
+      (url) => this.getConnectionOptions(url)
+    );
+  }
 
-      const value = this.extractValue(json, path);
-      if (typeof value !== 'number' || !Number.isFinite(value)) {
-        continue; // 非有效数字跳过
-      }
+  /** 自定义 WebSocket 额外附加请求头与子协议 */
+  protected getConnectionOptions(url: string): WebSocketConnectOptions {
+    return this.resolveConnectionOptions(url, 'custom');
+  }
 
-      if (validate && !validate(value)) {
-        continue; // 校验不通过跳过
-      }
+  protected getWebSocketUrl(): string {
+    return this.config.websocketUrl;
+  }
 
-      this.emitHealthData(type, value);
-    }
+  protected onConnected(): void {
+    this.log(`已连接到自定义数据源（${this.name}）: ${this.config.websocketUrl}`);
   }
 
-  /**
-   * 通过 JSON 路径提取嵌套值
-   *
-   * @example
-   * extractValue({data: {hr: 75}}, "data.hr") → 75
-   * extractValue({heartRate: 75}, "heartRate") → 75
-   */
-  private extractValue(obj: unknown, path: string): unknown {
-    const keys = path.split('.');
-    let current: unknown = obj;
+  protected onMessage(data: string): void {
+    const values = extractPayload(data, this.config);
+    if (!values) {
+      return; // 无法解析的消息忽略
+    }
 
-    for (const key of keys) {
-      if (current === null || current === undefined || typeof current !== 'object') {
-        return undefined;
-      }
-      current = (current as Record<string, unknown>)[key];
+    // 1. 心率（及同帧的 RR 间期）
+    if (values.bpm !== undefined) {
+      this.emitHeartRate(values.bpm, values.rrIntervals);
+    } else {
+      this.emitRRIntervals(values.rrIntervals);
     }
 
-    return current;
+    // 2. 健康数据（卡路里、步数、血氧、距离、速度）
+    for (const { type, value } of values.health) {
+      this.emitHealthData(type, value);
+    }
   }
 }
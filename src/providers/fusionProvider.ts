@@ -0,0 +1,323 @@
+/**
+ * Heart Socket - 多数据源融合 Provider（主备切换）
+ *
+ * 同时连接按优先级排列的多个数据源（如 HDS 本地 + Pulsoid 备用），
+ * 任一时刻只转发「活跃数据源」的数据：
+ *
+ * - 活跃源进入 Reconnecting / Error，或超过静默阈值没有数据 → 提升下一个可用源
+ * - 更高优先级的源恢复并再次产生数据 → 切回高优先级源
+ * - 切换瞬间两个源的数据可能重叠：丢弃与上一条转发样本间隔过近的心率样本
+ *
+ * 对 HeartRateManager 而言，本类与单个 Provider 的接口完全一致，
+ * 整体状态为各成员状态的聚合（任一成员已连接即视为 Connected）。
+ */
+import { EventEmitter } from 'events';
+import { ConnectionStatus } from '../types';
+import type {
+  HeartRateData,
+  HealthData,
+  HeartSocketConfig,
+  IHeartRateProvider,
+  MotionData,
+  ProviderType,
+  ReconnectInfo,
+  RRIntervalData,
+} from '../types';
+
+/** 融合成员 */
+export interface FusionMember {
+  type: ProviderType;
+  /** 显示名称（日志 / tooltip） */
+  label: string;
+  provider: IHeartRateProvider;
+}
+
+/** 活跃数据源切换事件 */
+export interface ActiveProviderChange {
+  type: ProviderType;
+  label: string;
+  /** 上一个活跃源（首次选定时为 null） */
+  previousLabel: string | null;
+  /** 切换原因 */
+  reason: string;
+}
+
+interface MemberState extends FusionMember {
+  status: ConnectionStatus;
+  /** 最近一次收到数据的时间 (ms)，0 表示从未收到 */
+  lastDataAt: number;
+}
+
+/** 静默检测间隔 (ms) */
+const SILENCE_CHECK_INTERVAL = 2000;
+/** 切换后的去重窗口：与上一条转发样本间隔小于此值的心率样本视为重叠 (ms) */
+const DEDUPE_WINDOW = 800;
+/** 切换后启用去重的时长 (ms)：之后按原频率转发，不影响高频数据源（BLE 心率带等） */
+const SWITCH_DEDUPE_PERIOD = 3000;
+
+export class FusionProvider extends EventEmitter {
+  readonly name: string;
+  private members: MemberState[];
+  private activeIndex: number = -1;
+  private silenceTimeoutMs: number;
+  private silenceTimer: ReturnType<typeof setInterval> | null = null;
+  private lastForwardedTs: number = 0;
+  /** 最近一次切换活跃源的时间 */
+  private switchedAt: number = 0;
+  private _status: ConnectionStatus = ConnectionStatus.Disconnected;
+
+  constructor(members: FusionMember[], config: HeartSocketConfig) {
+    super();
+    this.members = members.map((m) => ({ ...m, status: ConnectionStatus.Disconnected, lastDataAt: 0 }));
+    this.name = `融合 (${members.map((m) => m.label).join(' → ')})`;
+    this.silenceTimeoutMs = config.failoverSilenceSeconds * 1000;
+    this.members.forEach((member, index) => this.bindMember(member, index));
+  }
+
+  get isConnected(): boolean {
+    return this._status === ConnectionStatus.Connected;
+  }
+
+  get status(): ConnectionStatus {
+    return this._status;
+  }
+
+  /** 当前活跃数据源的显示名称 */
+  get activeLabel(): string | null {
+    return this.activeIndex >= 0 ? this.members[this.activeIndex].label : null;
+  }
+
+  /**
+   * 查找指定类型的成员 Provider（用于 HDS Cloud ID、HDS 端口等专属功能）
+   */
+  getMember<T>(ctor: new (...args: never[]) => T): T | null {
+    for (const member of this.members) {
+      if (member.provider instanceof ctor) {
+        return member.provider as T;
+      }
+    }
+    return null;
+  }
+
+  connect(): void {
+    for (const member of this.members) {
+      member.provider.connect();
+    }
+    this.startSilenceCheck();
+  }
+
+  disconnect(): void {
+    this.stopSilenceCheck();
+    for (const member of this.members) {
+      member.provider.disconnect();
+    }
+    this.activeIndex = -1;
+    this.updateAggregateStatus();
+  }
+
+  /** 所有未连接的成员立即重试 */
+  retryNow(): void {
+    for (const member of this.members) {
+      if (member.provider.status !== ConnectionStatus.Connected) {
+        member.provider.retryNow();
+      }
+    }
+  }
+
+  updateConfig(config: HeartSocketConfig): void {
+    this.silenceTimeoutMs = config.failoverSilenceSeconds * 1000;
+    for (const member of this.members) {
+      member.provider.updateConfig(config);
+    }
+  }
+
+  dispose(): void {
+    this.stopSilenceCheck();
+    for (const member of this.members) {
+      member.provider.dispose();
+    }
+    this.removeAllListeners();
+  }
+
+  // ─── 成员事件 ───────────────────────────────────
+
+  private bindMember(member: MemberState, index: number): void {
+    const p = member.provider;
+
+    p.on('heartRate', (data: HeartRateData) => {
+      member.lastDataAt = Date.now();
+      if (!this.acceptFrom(index)) { return; }
+
+      // 切换瞬间的重叠样本去重（仅切换后短时间内生效）
+      if (Date.now() - this.switchedAt < SWITCH_DEDUPE_PERIOD &&
+          data.timestamp - this.lastForwardedTs < DEDUPE_WINDOW) { return; }
+      this.lastForwardedTs = data.timestamp;
+      this.emit('heartRate', data);
+    });
+
+    p.on('rrInterval', (data: RRIntervalData) => {
+      // RR 间期总是伴随心率到达，活跃源判定已由 heartRate 完成
+      if (index === this.activeIndex) {
+        this.emit('rrInterval', data);
+      }
+    });
+
+    p.on('healthData', (data: HealthData) => {
+      member.lastDataAt = Date.now();
+      if (this.acceptFrom(index)) {
+        this.emit('healthData', data);
+      }
+    });
+
+    p.on('motionData', (data: MotionData) => {
+      // Motion 数据只来自 HDS，不参与活跃源判定，但仅在其为活跃源时转发
+      if (index === this.activeIndex) {
+        this.emit('motionData', data);
+      }
+    });
+
+    p.on('statusChange', (status: ConnectionStatus) => {
+      member.status = status;
+      this.emit('log', `[Fusion] ${member.label}: ${status}`);
+
+      // 活跃源掉线：立即提升下一个已连接的源
+      if (index === this.activeIndex &&
+          (status === ConnectionStatus.Reconnecting || status === ConnectionStatus.Error ||
+           status === ConnectionStatus.Disconnected)) {
+        const next = this.findFallback(index, false);
+        if (next >= 0) {
+          this.promote(next, `${member.label} ${status === ConnectionStatus.Error ? '连接错误' : '连接中断'}`);
+        }
+      }
+      this.updateAggregateStatus();
+    });
+
+    p.on('error', (error: Error) => {
+      this.emit('error', error);
+    });
+
+    p.on('reconnectScheduled', (info: ReconnectInfo) => {
+      // 仅转发活跃源（尚无活跃源时为任一成员）的重连计划
+      if (index === this.activeIndex || this.activeIndex < 0) {
+        this.emit('reconnectScheduled', info);
+      }
+    });
+
+    p.on('latency', (ms: number) => {
+      // 仅转发活跃源的连接延迟
+      if (index === this.activeIndex) {
+        this.emit('latency', ms);
+      }
+    });
+
+    p.on('log', (message: string) => {
+      this.emit('log', `[${member.label}] ${message}`);
+    });
+  }
+
+  /**
+   * 判断是否接受某成员的数据；必要时完成活跃源切换
+   */
+  private acceptFrom(index: number): boolean {
+    if (index === this.activeIndex) { return true; }
+
+    const member = this.members[index];
+    if (this.activeIndex < 0) {
+      this.promote(index, '首个产生数据的数据源');
+      return true;
+    }
+
+    // 高优先级源恢复：切回
+    if (index < this.activeIndex) {
+      this.promote(index, `${member.label} 已恢复`);
+      return true;
+    }
+
+    // 低优先级源：仅在当前活跃源不健康时接管
+    const active = this.members[this.activeIndex];
+    if (!this.isHealthy(active)) {
+      this.promote(index, `${active.label} ${active.status === ConnectionStatus.Connected ? '无数据' : '不可用'}`);
+      return true;
+    }
+    return false;
+  }
+
+  private isHealthy(member: MemberState): boolean {
+    if (member.status !== ConnectionStatus.Connected) { return false; }
+    return member.lastDataAt > 0 && Date.now() - member.lastDataAt <= this.silenceTimeoutMs;
+  }
+
+  /**
+   * 寻找除 exclude 外优先级最高的可用成员
+   * @param requireData true 时要求近期有数据，否则只要求已连接
+   */
+  private findFallback(exclude: number, requireData: boolean): number {
+    for (let i = 0; i < this.members.length; i++) {
+      if (i === exclude) { continue; }
+      const m = this.members[i];
+      if (requireData ? this.isHealthy(m) : m.status === ConnectionStatus.Connected) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private promote(index: number, reason: string): void {
+    if (index === this.activeIndex) { return; }
+    const previousLabel = this.activeLabel;
+    if (this.activeIndex >= 0) {
+      this.switchedAt = Date.now();
+    }
+    this.activeIndex = index;
+    const member = this.members[index];
+    const change: ActiveProviderChange = { type: member.type, label: member.label, previousLabel, reason };
+    this.emit('activeProviderChange', change);
+    this.updateAggregateStatus();
+  }
+
+  // ─── 静默检测 ───────────────────────────────────
+
+  private startSilenceCheck(): void {
+    this.stopSilenceCheck();
+    this.silenceTimer = setInterval(() => {
+      if (this.activeIndex < 0) { return; }
+      const active = this.members[this.activeIndex];
+      if (this.isHealthy(active)) { return; }
+      const next = this.findFallback(this.activeIndex, true);
+      if (next >= 0) {
+        this.promote(next, `${active.label} 超过 ${Math.round(this.silenceTimeoutMs / 1000)} 秒无数据`);
+      }
+    }, SILENCE_CHECK_INTERVAL);
+  }
+
+  private stopSilenceCheck(): void {
+    if (this.silenceTimer) {
+      clearInterval(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+  }
+
+  /**
+   * 聚合状态：任一成员已连接 → Connected；否则取最「接近连接」的状态
+   */
+  private updateAggregateStatus(): void {
+    const statuses = this.members.map((m) => m.status);
+    let status: ConnectionStatus;
+    if (statuses.includes(ConnectionStatus.Connected)) {
+      status = ConnectionStatus.Connected;
+    } else if (statuses.includes(ConnectionStatus.Reconnecting)) {
+      status = ConnectionStatus.Reconnecting;
+    } else if (statuses.includes(ConnectionStatus.Connecting)) {
+      status = ConnectionStatus.Connecting;
+    } else if (statuses.includes(ConnectionStatus.Error)) {
+      status = ConnectionStatus.Error;
+    } else {
+      status = ConnectionStatus.Disconnected;
+    }
+
+    if (status !== this._status) {
+      this._status = status;
+      this.emit('statusChange', status);
+    }
+  }
+}
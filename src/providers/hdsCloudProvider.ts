@@ -22,9 +22,11 @@
 import { EventEmitter } from 'events';
 import * as http from 'http';
 import * as https from 'https';
-import * as net from 'net';
 import * as vscode from 'vscode';
-import { ConnectionStatus } from '../types';
+import { resolveProxy } from '../networkOptions';
+import { connectViaProxy } from '../proxyTunnel';
+import { getReconnectDelay } from '../webSocketClient';
+import { ConnectionStatus, ReconnectExhaustedError } from '../types';
 import type { HeartRateData, HealthData, HealthDataType, HeartSocketConfig } from '../types';
 
 /** Firebase 配置 */
@@ -94,7 +96,11 @@ export class HdsCloudProvider extends EventEmitter {
   // 重连逻辑
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 10;
+  /** 已达到最大重连次数而停止重连 */
+  private exhausted: boolean = false;
+
+  /** 已销毁标记（防止异步连接流程在 dispose 后继续建立 SSE） */
+  private isDisposed: boolean = false;
 
   constructor(config: HeartSocketConfig, context: vscode.ExtensionContext) {
     super();
@@ -139,10 +145,25 @@ export class HdsCloudProvider extends EventEmitter {
     return id;
   }
 
+  /**
+   * 重新生成 Cloud ID（旧 ID 作废，Watch 端需要同步更新）
+   */
+  async regenerateCloudId(): Promise<string> {
+    this.cloudId = '';
+    await this.context.globalState.update('hdsCloudId', undefined);
+    const id = this.getCloudId();
+    this.log(`Cloud ID 已重新生成: ${id}`);
+    return id;
+  }
+
   /**
    * 启动连接
    */
   async connect(): Promise<void> {
+    if (this.isDisposed) {
+      return;
+    }
+
     this.getCloudId();
     this.updateStatus(ConnectionStatus.Connecting);
     this.log('正在连接到 HDS Cloud...');
@@ -163,6 +184,10 @@ export class HdsCloudProvider extends EventEmitter {
       await this.setLastConnected();
       this.log('[connect] Step 3/5: lastConnected 设置完成');
 
+      if (this.isDisposed) {
+        return;
+      }
+
       // 4. 启动 SSE 监听
       this.log('[connect] Step 4/5: 启动 SSE 监听...');
       await this.startListening();
@@ -210,6 +235,7 @@ export class HdsCloudProvider extends EventEmitter {
   }
 
   dispose(): void {
+    this.isDisposed = true;
     this.cleanup();
     this.removeAllListeners();
   }
@@ -458,12 +484,19 @@ export class HdsCloudProvider extends EventEmitter {
   // ─── 重连逻辑 ───────────────────────────────────
 
   private scheduleReconnect(): void {
+    if (this.isDisposed) {
+      return;
+    }
+
     if (this.reconnectTimer) {
       return; // 已有重连任务
     }
 
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+    const { maxRetries } = this.config.reconnect;
+    if (maxRetries !== -1 && this.reconnectAttempts >= maxRetries) {
       this.log('已达到最大重连次数，停止重连');
+      this.exhausted = true;
+      this.emit('error', new ReconnectExhaustedError(maxRetries));
       this.updateStatus(ConnectionStatus.Error);
 
       // 显示友好的用户提示
@@ -473,10 +506,9 @@ export class HdsCloudProvider extends EventEmitter {
         '重新连接'
       ).then(action => {
         if (action === '重新连接') {
-          this.reconnectAttempts = 0;
-          this.connect();
+          this.retryNow();
         } else if (action === '切换到本地 HDS') {
-          vscode.commands.executeCommand('heart-socket.switchProvider');
+          vscode.commands.executeCommand('heartSocket.switchProvider');
         }
       });
 
@@ -484,15 +516,32 @@ export class HdsCloudProvider extends EventEmitter {
     }
 
     this.reconnectAttempts++;
-    const delay = Math.min(5000 * this.reconnectAttempts, 60000); // 最多延迟 60 秒
-
-    this.log(`${delay / 1000} 秒后重连（${this.reconnectAttempts}/${this.maxReconnectAttempts}）`);
+    const delay = getReconnectDelay(this.config.reconnect, this.reconnectAttempts);
 
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
       this.cleanup();
       this.connect();
     }, delay);
+    this.emit('reconnectScheduled', { attempt: this.reconnectAttempts, maxRetries, retryAt: Date.now() + delay });
+  }
+
+  /**
+   * 跳过重连等待立即重试；已放弃重连时从第 1 次重新开始
+   */
+  retryNow(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    if (this.reconnectTimer) {
+      this.cleanup();
+      this.connect();
+    } else if (this.exhausted || this._status === ConnectionStatus.Error || this._status === ConnectionStatus.Disconnected) {
+      this.exhausted = false;
+      this.reconnectAttempts = 0;
+      this.cleanup();
+      this.connect();
+    }
   }
 
   // ─── 工具方法 ───────────────────────────────────
@@ -532,87 +581,14 @@ export class HdsCloudProvider extends EventEmitter {
   private static readonly REQUEST_TIMEOUT = 20000;
 
   /**
-   * 获取代理 URL（从 VSCode 配置或环境变量）
+   * 获取代理 URL（heartSocket.proxy → VSCode http.proxy → 环境变量）
    */
-  private getProxyUrl(): string | null {
-    // 优先读取 VSCode http.proxy 配置
-    const vscodeProxy = vscode.workspace.getConfiguration('http').get<string>('proxy');
-    if (vscodeProxy) {
-      this.log(`使用 VSCode 代理: ${vscodeProxy}`);
-      return vscodeProxy;
+  private getProxyUrl(hostname: string): string | null {
+    const proxy = resolveProxy(this.config.proxy, hostname);
+    if (proxy) {
+      this.log(`使用${proxy.source}代理: ${proxy.url}`);
     }
-
-    // 其次读取环境变量
-    const envProxy =
-      process.env.HTTPS_PROXY ||
-      process.env.https_proxy ||
-      process.env.HTTP_PROXY ||
-      process.env.http_proxy;
-    if (envProxy) {
-      this.log(`使用环境变量代理: ${envProxy}`);
-      return envProxy;
-    }
-
-    return null;
-  }
-
-  /**
-   * 通过 HTTP CONNECT 隧道建立 TLS 连接
-   * 返回一个 TLS socket，可用于 HTTPS 请求
-   */
-  private connectViaProxy(
-    proxyUrl: string,
-    targetHost: string,
-    targetPort: number
-  ): Promise<net.Socket> {
-    return new Promise((resolve, reject) => {
-      const proxy = new URL(proxyUrl);
-      const proxyHost = proxy.hostname;
-      const proxyPort = parseInt(proxy.port, 10) || (proxy.protocol === 'https:' ? 443 : 80);
-
-      // 设置代理认证（如果有）
-      const headers: Record<string, string> = {
-        'Host': `${targetHost}:${targetPort}`,
-      };
-      if (proxy.username && proxy.password) {
-        const auth = Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64');
-        headers['Proxy-Authorization'] = `Basic ${auth}`;
-      }
-
-      const connectReq = http.request({
-        host: proxyHost,
-        port: proxyPort,
-        method: 'CONNECT',
-        path: `${targetHost}:${targetPort}`,
-        headers,
-      });
-
-      const timeout = setTimeout(() => {
-        connectReq.destroy();
-        reject(new Error(`代理连接超时（${HdsCloudProvider.REQUEST_TIMEOUT / 1000}s）`));
-      }, HdsCloudProvider.REQUEST_TIMEOUT);
-
-      connectReq.on('connect', (_res, socket) => {
-        clearTimeout(timeout);
-
-        if (_res.statusCode !== 200) {
-          socket.destroy();
-          reject(new Error(`代理 CONNECT 失败: HTTP ${_res.statusCode}`));
-          return;
-        }
-
-        // 返回原始 TCP socket（CONNECT 隧道）
-        // 让 https.request 自己在隧道上建立 TLS，避免双重 TLS
-        resolve(socket);
-      });
-
-      connectReq.on('error', (err) => {
-        clearTimeout(timeout);
-        reject(new Error(`代理连接失败: ${err.message}`));
-      });
-
-      connectReq.end();
-    });
+    return proxy?.url ?? null;
   }
 
   /**
@@ -631,7 +607,7 @@ export class HdsCloudProvider extends EventEmitter {
       msg.includes('socket disconnected') ||
       msg.includes('socket hang up')
     ) {
-      const proxyUrl = this.getProxyUrl();
+      const proxyUrl = this.getProxyUrl(hostname);
       const hint = proxyUrl
         ? `（已检测到代理 ${proxyUrl}，但连接仍然失败）`
         : `\n💡 提示: 无法连接到 ${hostname}。如果你在中国大陆，Google 服务可能被屏蔽。\n` +
@@ -649,7 +625,7 @@ export class HdsCloudProvider extends EventEmitter {
   private httpsPost(url: string, data: string): Promise<string> {
     return new Promise(async (resolve, reject) => {
       const parsedUrl = new URL(url);
-      const proxyUrl = this.getProxyUrl();
+      const proxyUrl = this.getProxyUrl(parsedUrl.hostname);
 
       const requestHeaders: Record<string, string | number> = {
         'Content-Type': 'application/json',
@@ -662,7 +638,7 @@ export class HdsCloudProvider extends EventEmitter {
 
         if (proxyUrl) {
           // 通过代理隧道
-          const tunnelSocket = await this.connectViaProxy(proxyUrl, parsedUrl.hostname, 443);
+          const tunnelSocket = await connectViaProxy(proxyUrl, parsedUrl.hostname, 443, HdsCloudProvider.REQUEST_TIMEOUT);
 
           req = https.request(
             {
@@ -710,7 +686,7 @@ export class HdsCloudProvider extends EventEmitter {
   private httpsPut(url: string, data: string, extraHeaders?: Record<string, string>): Promise<string> {
     return new Promise(async (resolve, reject) => {
       const parsedUrl = new URL(url);
-      const proxyUrl = this.getProxyUrl();
+      const proxyUrl = this.getProxyUrl(parsedUrl.hostname);
 
       const requestHeaders: Record<string, string | number> = {
         'Content-Type': 'application/json',
@@ -723,7 +699,7 @@ export class HdsCloudProvider extends EventEmitter {
         let req: http.ClientRequest;
 
         if (proxyUrl) {
-          const tunnelSocket = await this.connectViaProxy(proxyUrl, parsedUrl.hostname, 443);
+          const tunnelSocket = await connectViaProxy(proxyUrl, parsedUrl.hostname, 443, HdsCloudProvider.REQUEST_TIMEOUT);
 
           req = https.request(
             {
@@ -769,7 +745,7 @@ export class HdsCloudProvider extends EventEmitter {
   private httpsGet(url: string, extraHeaders?: Record<string, string>): Promise<string> {
     return new Promise(async (resolve, reject) => {
       const parsedUrl = new URL(url);
-      const proxyUrl = this.getProxyUrl();
+      const proxyUrl = this.getProxyUrl(parsedUrl.hostname);
 
       const requestHeaders: Record<string, string> = {
         'Referer': 'https://hds.dev/',
@@ -780,7 +756,7 @@ export class HdsCloudProvider extends EventEmitter {
         let req: http.ClientRequest;
 
         if (proxyUrl) {
-          const tunnelSocket = await this.connectViaProxy(proxyUrl, parsedUrl.hostname, 443);
+          const tunnelSocket = await connectViaProxy(proxyUrl, parsedUrl.hostname, 443, HdsCloudProvider.REQUEST_TIMEOUT);
 
           req = https.request(
             {
@@ -856,7 +832,7 @@ export class HdsCloudProvider extends EventEmitter {
     this.log(`[startListening] 开始监听 Cloud ID: ${this.cloudId}`);
 
     const parsedUrl = new URL(url);
-    const proxyUrl = this.getProxyUrl();
+    const proxyUrl = this.getProxyUrl(parsedUrl.hostname);
 
     const sseHeaders: Record<string, string> = {
       'Accept': 'text/event-stream',
@@ -905,7 +881,7 @@ export class HdsCloudProvider extends EventEmitter {
     try {
       if (proxyUrl) {
         // 通过代理隧道建立 SSE 连接
-        const tunnelSocket = await this.connectViaProxy(proxyUrl, parsedUrl.hostname, 443);
+        const tunnelSocket = await connectViaProxy(proxyUrl, parsedUrl.hostname, 443, HdsCloudProvider.REQUEST_TIMEOUT);
 
         this.sseRequest = https.request(
           {
@@ -7,13 +7,27 @@
  *
  * 数据流：Apple Watch HDS App → 本地 Wi-Fi → 本插件 WebSocket Server
  *
+ * 配对模式（heartSocket.serverPairing）：生成配对码并持久化在 globalState，
+ * Watch 地址需携带配对码（http://<host>:<port>/<配对码>/），未配对的设备无法推送数据。
+ *
+ * HTTPS 模式（heartSocket.serverTls）：使用用户证书或自动生成的自签名证书（见 serverCertificate.ts），
+ * 证书指纹在引导面板中展示，供设备固定证书。
+ *
+ * 开启广播并挂载直播叠加层后（setOverlayRelay），OBS 也可使用 HDS 端口上的 `/overlay` 页面。
+ *
  * 数据格式示例：
  * {"heartRate": 75} / {"bpm": 75} / {"hr": 75} / 纯数字 75
+ * RR 间期（可选）：rrIntervals:812,790 / {"heartRate": 75, "rrIntervals": [812, 790]}
  */
+import * as crypto from 'crypto';
 import { EventEmitter } from 'events';
+import * as vscode from 'vscode';
 import { HeartSocketServer } from '../webSocketServer';
+import type { OverlayRelay } from '../webSocketServer';
+import { loadServerCertificate } from '../serverCertificate';
+import { normalizeRRIntervals } from '../hrvCalculator';
 import { ConnectionStatus } from '../types';
-import type { HeartRateData, HealthData, HealthDataType, MotionData, Vector3, AttitudeData, HeartSocketConfig } from '../types';
+import type { HeartRateData, HealthData, HealthDataType, MotionData, Vector3, AttitudeData, HeartSocketConfig, RRIntervalData, ServerAccessPolicy, ServerCertificate } from '../types';
 
 /** HDS key → HealthDataType 映射（key 均为小写，因为解析时会 toLowerCase） */
 const HEALTH_KEY_MAP: Record<string, HealthDataType> = {
@@ -27,17 +41,56 @@ const HEALTH_KEY_MAP: Record<string, HealthDataType> = {
   bmi: 'bmi',
 };
 
+/** 配对码字符集（去掉易混淆的 0/o/1/l/i，方便在 Watch 上核对） */
+const PAIRING_TOKEN_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const PAIRING_TOKEN_LENGTH = 12;
+/** 配对码在 globalState 中的键 */
+const PAIRING_TOKEN_KEY = 'hdsPairingToken';
+
+/**
+ * 获取或生成配对码（globalState 持久化，重启后 Watch 地址不变）
+ *
+ * 直接读写 globalState，HDS 未在运行时（如引导面板）也能得到与服务端一致的配对码。
+ */
+export function getPairingToken(context: vscode.ExtensionContext): string {
+  const stored = context.globalState.get<string>(PAIRING_TOKEN_KEY);
+  if (stored) {
+    return stored;
+  }
+
+  let token = '';
+  for (let i = 0; i < PAIRING_TOKEN_LENGTH; i++) {
+    token += PAIRING_TOKEN_ALPHABET[crypto.randomInt(PAIRING_TOKEN_ALPHABET.length)];
+  }
+  void context.globalState.update(PAIRING_TOKEN_KEY, token);
+  return token;
+}
+
+/**
+ * 重新生成配对码（旧地址立即失效，Watch 端需要更新地址）
+ */
+export async function regeneratePairingToken(context: vscode.ExtensionContext): Promise<string> {
+  await context.globalState.update(PAIRING_TOKEN_KEY, undefined);
+  return getPairingToken(context);
+}
+
 export class HdsProvider extends EventEmitter {
   readonly name = 'Health Data Server';
   private server: HeartSocketServer;
   private config: HeartSocketConfig;
+  private context: vscode.ExtensionContext;
+  /** 当前 HTTPS 证书（未启用 HTTPS 时为 null） */
+  private certificate: ServerCertificate | null = null;
+  /** 证书加载失败，服务未能启动 */
+  private startFailed: boolean = false;
   private _isConnected: boolean = false;
   /** 已警告过的未识别 key 集合（避免重复日志刷屏） */
   private warnedKeys: Set<string> = new Set();
 
-  constructor(config: HeartSocketConfig) {
+  constructor(config: HeartSocketConfig, context: vscode.ExtensionContext) {
     super();
     this.config = config;
+    this.context = context;
     this.server = new HeartSocketServer();
 
     // 转发状态变化
@@ -67,7 +120,17 @@ export class HdsProvider extends EventEmitter {
   }
 
   get status(): ConnectionStatus {
-    return this.server.status;
+    return this.startFailed ? ConnectionStatus.Error : this.server.status;
+  }
+
+  /** 是否以 HTTPS / WSS 方式监听 */
+  get secure(): boolean {
+    return this.server.secure;
+  }
+
+  /** HTTPS 证书 SHA-256 指纹（未启用 HTTPS 时为 null） */
+  get certificateFingerprint(): string | null {
+    return this.server.secure ? this.certificate?.fingerprint ?? null : null;
   }
 
   /** 获取当前监听端口 */
@@ -75,23 +138,88 @@ export class HdsProvider extends EventEmitter {
     return this.server.port;
   }
 
+  /** 本机访问的叠加层地址（开启配对模式时携带配对码） */
+  get overlayUrl(): string {
+    const prefix = this.config.serverPairing ? `/${getPairingToken(this.context)}` : '';
+    return `${this.server.secure ? 'https' : 'http'}://localhost:${this.port}${prefix}/overlay`;
+  }
+
+  /**
+   * 挂载直播叠加层（/overlay 页面与 /live 订阅），传入 null 卸载
+   */
+  setOverlayRelay(relay: OverlayRelay | null): void {
+    this.server.setOverlayRelay(relay);
+  }
+
+  /**
+   * 重新读取配对码并应用到服务端（配对码在外部重新生成后调用）
+   */
+  reloadPairingToken(): void {
+    this.server.setAccessPolicy(this.getAccessPolicy());
+  }
+
   /**
    * 启动 WebSocket Server
    */
   connect(): void {
     const port = this.config.serverPort;
-    this.server.start(port);
+    this.startFailed = false;
+    this.certificate = null;
+
+    if (this.config.serverTls) {
+      try {
+        this.certificate = loadServerCertificate(
+          this.config.serverTlsCertFile,
+          this.config.serverTlsKeyFile,
+          this.context.globalStorageUri.fsPath
+        );
+      } catch (err) {
+        this.startFailed = true;
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        this.emit('statusChange', ConnectionStatus.Error);
+        return;
+      }
+      const source = this.certificate.selfSigned ? '自签名证书' : '用户证书';
+      this.emit('log', `[HDS] HTTPS 已启用（${source}），SHA-256 指纹: ${this.certificate.fingerprint}`);
+    }
+
+    this.server.setAccessPolicy(this.getAccessPolicy());
+    this.server.start(port, this.certificate);
+    if (this.config.serverPairing) {
+      this.emit('log', '[HDS] 配对模式已开启，仅接受携带配对码的设备');
+    }
   }
 
   /**
    * 停止 WebSocket Server
    */
   disconnect(): void {
+    this.startFailed = false;
     this.server.stop();
   }
 
+  /**
+   * 服务器启动失败（如端口被占用）时重新启动；等待设备连接时无需重试
+   */
+  retryNow(): void {
+    if (this.status === ConnectionStatus.Error || this.status === ConnectionStatus.Disconnected) {
+      this.connect();
+    }
+  }
+
   updateConfig(config: HeartSocketConfig): void {
+    const tlsChanged =
+      this.config.serverTls !== config.serverTls ||
+      this.config.serverTlsCertFile !== config.serverTlsCertFile ||
+      this.config.serverTlsKeyFile !== config.serverTlsKeyFile;
     this.config = config;
+    this.server.setAccessPolicy(this.getAccessPolicy());
+
+    // HTTPS 设置变化：已启动的服务需要重新监听
+    if (tlsChanged && this.status !== ConnectionStatus.Disconnected) {
+      this.emit('log', `[HDS] HTTPS 设置已变化，重启服务（${config.serverTls ? 'HTTPS' : 'HTTP'}）`);
+      this.connect();
+    }
   }
 
   dispose(): void {
@@ -99,6 +227,15 @@ export class HdsProvider extends EventEmitter {
     this.removeAllListeners();
   }
 
+  private getAccessPolicy(): ServerAccessPolicy {
+    return {
+      token: this.config.serverPairing ? getPairingToken(this.context) : null,
+      allowedIps: this.config.serverAllowedIps,
+      maxBodyBytes: Math.max(1, this.config.serverMaxRequestSize) * 1024,
+      rateLimit: Math.max(0, this.config.serverRateLimit),
+    };
+  }
+
   // ─── 数据解析 ───────────────────────────────
 
   private onMessage(data: string): void {
@@ -127,6 +264,12 @@ export class HdsProvider extends EventEmitter {
           return;
         }
 
+        // RR 间期（单独一条消息，逗号分隔的毫秒值）
+        if (key === 'rrintervals' || key === 'rrinterval' || key === 'rr') {
+          this.emitRRIntervals(normalizeRRIntervals(value));
+          return;
+        }
+
         // motion 数据（加速度传感器等，高频）
         if (key === 'motion') {
           this.parseMotionData(value);
@@ -164,8 +307,11 @@ export class HdsProvider extends EventEmitter {
         json.HeartRate ??
         json.value;
 
+      const rr = normalizeRRIntervals(json.rrIntervals ?? json.rr_intervals ?? json.rr ?? json.RRIntervals);
       if (typeof bpm === 'number') {
-        this.emitHeartRate(bpm);
+        this.emitHeartRate(bpm, rr);
+      } else {
+        this.emitRRIntervals(rr);
       }
 
       // ── 从 JSON 提取健康数据（calories, stepCount, bloodOxygen 等）──
@@ -201,7 +347,7 @@ export class HdsProvider extends EventEmitter {
     }
   }
 
-  private emitHeartRate(bpm: number): void {
+  private emitHeartRate(bpm: number, rrIntervals?: number[]): void {
     if (!Number.isFinite(bpm) || bpm < 20 || bpm > 250) {
       return;
     }
@@ -211,8 +357,25 @@ export class HdsProvider extends EventEmitter {
       timestamp: Date.now(),
       source: this.name,
     };
+    if (rrIntervals && rrIntervals.length > 0) {
+      data.rrIntervals = rrIntervals;
+    }
 
     this.emit('heartRate', data);
+
+    if (data.rrIntervals) {
+      this.emitRRIntervals(data.rrIntervals);
+    }
+  }
+
+  private emitRRIntervals(intervals: number[]): void {
+    if (intervals.length === 0) { return; }
+    const data: RRIntervalData = {
+      intervals,
+      timestamp: Date.now(),
+      source: this.name,
+    };
+    this.emit('rrInterval', data);
   }
 
   private emitHealthData(type: HealthDataType, value: number): void {
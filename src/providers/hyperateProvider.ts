@@ -4,19 +4,33 @@
  * HypeRate 使用 Phoenix Channel 协议通过 WebSocket 传输心率数据。
  *
  * 连接流程：
- * 1. 连接到 wss://app.hyperate.io/socket/websocket?token=API_TOKEN
+ * 1. 连接到 wss://app.hyperate.io/socket/websocket?token=API_TOKEN（Token 保存在 SecretStorage）
  * 2. 发送 join 消息加入频道 hr:SESSION_ID
- * 3. 定期发送 phoenix heartbeat 保持连接
+ * 3. 每 30 秒发送 phoenix heartbeat 保持连接；10 秒内未收到对应 phx_reply 视为连接失效并重连，
+ *    回复的往返时间作为连接延迟
  * 4. 接收 hr_update 事件获取心率数据
  *
  * 数据格式：
  * {"topic": "hr:SESSION_ID", "event": "hr_update", "payload": {"hr": 75}, "ref": null}
+ * 设备支持时 payload 中还可能带有 RR 间期（rr / rr_intervals）
  */
 import { BaseProvider } from './baseProvider';
+import { normalizeRRIntervals } from '../hrvCalculator';
+import { CredentialError } from '../types';
+import type { WebSocketConnectOptions } from '../types';
+
+/** Phoenix heartbeat 间隔 (ms) */
+const HEARTBEAT_INTERVAL = 30000;
+
+/** 等待 heartbeat 回复的期限 (ms) */
+const HEARTBEAT_REPLY_TIMEOUT = 10000;
 
 export class HypeRateProvider extends BaseProvider {
   readonly name = 'HypeRate';
   private phoenixHeartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatReplyTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 等待回复的 heartbeat（ref 与发送时间） */
+  private pendingHeartbeat: { ref: number; sentAt: number } | null = null;
   /** Phoenix Channel 消息引用计数（实例级别，避免多实例间共享污染） */
   private refCounter = 0;
 
@@ -24,14 +38,19 @@ export class HypeRateProvider extends BaseProvider {
     return ++this.refCounter;
   }
 
-  protected getWebSocketUrl(): string {
-    const token = this.config.apiToken;
+  protected async getWebSocketUrl(): Promise<string> {
+    const token = await this.getCredential('hyperateToken');
     if (!token) {
-      throw new Error('HypeRate 需要配置 API Token（heartSocket.apiToken）');
+      throw new CredentialError('hyperateToken', 'HypeRate 需要配置 API Token（运行 Heart Socket: Switch Provider 重新配置）');
     }
     return `wss://app.hyperate.io/socket/websocket?token=${token}`;
   }
 
+  /** 附加 heartSocket.hyperateWebsocketHeaders / hyperateWebsocketProtocols */
+  protected getConnectionOptions(url: string): WebSocketConnectOptions {
+    return this.resolveConnectionOptions(url, 'hyperate');
+  }
+
   /**
    * 连接成功后加入频道并启动 Phoenix heartbeat
    */
@@ -49,7 +68,7 @@ export class HypeRateProvider extends BaseProvider {
       payload: {},
       ref: this.nextRef(),
     });
-    this.wsClient.send(joinMsg);
+    this.transport.send(joinMsg);
     this.log(`正在加入 HypeRate 频道 hr:${sessionId}...`);
 
     // 启动 Phoenix heartbeat（每30秒）
@@ -63,11 +82,18 @@ export class HypeRateProvider extends BaseProvider {
       // 处理心率更新事件
       if (msg.event === 'hr_update' && msg.payload) {
         const bpm = msg.payload.hr ?? msg.payload.heartRate ?? msg.payload.bpm;
+        const rr = normalizeRRIntervals(msg.payload.rr ?? msg.payload.rr_intervals ?? msg.payload.rrIntervals);
         if (typeof bpm === 'number') {
-          this.emitHeartRate(bpm);
+          this.emitHeartRate(bpm, rr);
         }
       }
 
+      // heartbeat 回复：连接存活，记录往返延迟
+      if (msg.event === 'phx_reply' && msg.topic === 'phoenix') {
+        this.handleHeartbeatReply(Number(msg.ref));
+        return;
+      }
+
       // 处理 join 回复
       if (msg.event === 'phx_reply' && msg.payload?.status === 'ok') {
         this.log('已成功加入 HypeRate 频道');
@@ -89,14 +115,48 @@ export class HypeRateProvider extends BaseProvider {
   private startPhoenixHeartbeat(): void {
     this.stopPhoenixHeartbeat();
     this.phoenixHeartbeatTimer = setInterval(() => {
+      if (this.pendingHeartbeat) {
+        return; // 上一次 heartbeat 仍在等待回复
+      }
+      const ref = this.nextRef();
       const heartbeat = JSON.stringify({
         topic: 'phoenix',
         event: 'heartbeat',
         payload: {},
-        ref: this.nextRef(),
+        ref,
       });
-      this.wsClient.send(heartbeat);
-    }, 30000);
+      if (!this.transport.send(heartbeat)) {
+        return; // 未连接（传输层正在重连）
+      }
+
+      this.pendingHeartbeat = { ref, sentAt: Date.now() };
+      this.heartbeatReplyTimer = setTimeout(() => {
+        this.heartbeatReplyTimer = null;
+        this.pendingHeartbeat = null;
+        this.transport.reconnect(`HypeRate 心跳超时：${HEARTBEAT_REPLY_TIMEOUT / 1000} 秒内未收到回复，正在重连`);
+      }, HEARTBEAT_REPLY_TIMEOUT);
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  /** 连接延迟取 heartbeat 回复的往返时间 */
+  protected measuresOwnLatency(): boolean {
+    return true;
+  }
+
+  private handleHeartbeatReply(ref: number): void {
+    if (!this.pendingHeartbeat || this.pendingHeartbeat.ref !== ref) {
+      return;
+    }
+    this.emitLatency(Date.now() - this.pendingHeartbeat.sentAt);
+    this.clearPendingHeartbeat();
+  }
+
+  private clearPendingHeartbeat(): void {
+    if (this.heartbeatReplyTimer) {
+      clearTimeout(this.heartbeatReplyTimer);
+      this.heartbeatReplyTimer = null;
+    }
+    this.pendingHeartbeat = null;
   }
 
   private stopPhoenixHeartbeat(): void {
@@ -104,6 +164,12 @@ export class HypeRateProvider extends BaseProvider {
       clearInterval(this.phoenixHeartbeatTimer);
       this.phoenixHeartbeatTimer = null;
     }
+    this.clearPendingHeartbeat();
+  }
+
+  disconnect(): void {
+    this.stopPhoenixHeartbeat();
+    super.disconnect();
   }
 
   dispose(): void {
@@ -0,0 +1,219 @@
+/**
+ * Heart Socket - 消息 JSON 路径提取
+ *
+ * 自定义数据源与 MQTT 共用：按 heartSocket.*JsonPath 配置（JSONPath，见 jsonPath.ts）从消息中提取心率、RR 间期及健康数据，
+ * 再按 heartSocket.jsonTransforms 对各字段做取值 / 数字转换 / 倍率 / RR→BPM 换算。
+ *
+ * 支持的数据格式：
+ * 1. 纯数字: "75" → 视为心率
+ * 2. 简单 JSON: {"heartRate": 75}
+ * 3. 嵌套 JSON: {"data": {"heart_rate": 75, "calories": 120, "steps": 5000}}
+ * 4. 多字段 JSON: 一条消息中可同时包含心率 + 卡路里 + 步数 + 血氧 + 距离 + 速度
+ */
+import { normalizeRRIntervals } from '../hrvCalculator';
+import { extractJsonPath } from '../jsonPath';
+import type { HealthDataType, HeartSocketConfig, JsonFieldTransform } from '../types';
+
+/** 健康数据字段映射定义 */
+export interface HealthFieldMapping {
+  /** 配置中的 JSON Path key */
+  configKey: 'caloriesJsonPath' | 'stepCountJsonPath' | 'bloodOxygenJsonPath' | 'distanceJsonPath' | 'speedJsonPath' | 'bodyMassJsonPath' | 'bmiJsonPath';
+  /** 对应的 HealthDataType */
+  type: HealthDataType;
+  /** 数值校验函数（可选） */
+  validate?: (v: number) => boolean;
+}
+
+/** 所有健康数据字段的映射关系 */
+export const HEALTH_FIELD_MAPPINGS: HealthFieldMapping[] = [
+  { configKey: 'caloriesJsonPath', type: 'calories', validate: (v) => v >= 0 },
+  { configKey: 'stepCountJsonPath', type: 'stepCount', validate: (v) => v >= 0 && Number.isInteger(v) },
+  { configKey: 'bloodOxygenJsonPath', type: 'bloodOxygen', validate: (v) => v >= 0 && v <= 100 },
+  { configKey: 'distanceJsonPath', type: 'distance', validate: (v) => v >= 0 },
+  { configKey: 'speedJsonPath', type: 'speed', validate: (v) => v >= 0 },
+  { configKey: 'bodyMassJsonPath', type: 'bodyMass', validate: (v) => v > 0 && v < 500 },
+  { configKey: 'bmiJsonPath', type: 'bmi', validate: (v) => v > 0 && v < 100 },
+];
+
+/** 从一条消息中提取出的数据 */
+export interface PayloadValues {
+  /** 心率（消息中没有心率字段时为 undefined） */
+  bpm?: number;
+  /** RR 间期 (ms) */
+  rrIntervals: number[];
+  /** 健康数据 */
+  health: Array<{ type: HealthDataType; value: number }>;
+}
+
+/**
+ * 解析一条消息：纯数字视为心率，JSON 按配置的各字段路径提取
+ *
+ * @returns 无法解析时返回 null
+ */
+export function extractPayload(data: string, config: HeartSocketConfig): PayloadValues | null {
+  const trimmed = data.trim();
+
+  // 尝试直接解析为数字（视为心率）
+  const directNum = Number(trimmed);
+  if (trimmed && Number.isFinite(directNum) && directNum > 0) {
+    return { bpm: transformValue(directNum, config.jsonTransforms.heartRate), rrIntervals: [], health: [] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  // 1. 提取心率（及同帧的 RR 间期）
+  const rrIntervals = config.rrIntervalsJsonPath
+    ? transformRRIntervals(extractJsonPath(json, config.rrIntervalsJsonPath), config.jsonTransforms.rrIntervals)
+    : [];
+  const bpm = config.heartRateJsonPath
+    ? transformValue(extractJsonPath(json, config.heartRateJsonPath), config.jsonTransforms.heartRate)
+    : undefined;
+
+  // 2. 提取健康数据（卡路里、步数、血氧、距离、速度）
+  const health: PayloadValues['health'] = [];
+  for (const mapping of HEALTH_FIELD_MAPPINGS) {
+    const value = extractHealthValue(json, mapping, config);
+    if (value !== null) {
+      health.push({ type: mapping.type, value });
+    }
+  }
+
+  return { bpm, rrIntervals, health };
+}
+
+/**
+ * 解析单项健康数据消息（如 MQTT 中每项数据单独一个主题）：纯数字直接作为数值，JSON 按该项的字段路径提取
+ *
+ * @returns 无效时返回 null
+ */
+export function extractHealthPayload(data: string, type: HealthDataType, config: HeartSocketConfig): number | null {
+  const mapping = HEALTH_FIELD_MAPPINGS.find((m) => m.type === type);
+  if (!mapping) { return null; }
+
+  const trimmed = data.trim();
+  const directNum = Number(trimmed);
+  if (trimmed && Number.isFinite(directNum)) {
+    const value = transformValue(directNum, config.jsonTransforms[type]);
+    return value !== undefined && (!mapping.validate || mapping.validate(value)) ? value : null;
+  }
+
+  try {
+    return extractHealthValue(JSON.parse(trimmed), mapping, config);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 按转换配置将提取到的原始值转为数字（pick → number → scale → rrToBpm）
+ *
+ * @returns 无法得到有效数字时返回 undefined
+ */
+function transformValue(raw: unknown, transform: JsonFieldTransform = {}): number | undefined {
+  let value: number | undefined;
+  if (Array.isArray(raw)) {
+    // 通配符路径可能匹配到多个数组（如 samples[*].rr），展开一层
+    value = pickFromArray(raw.flat(), transform);
+  } else {
+    value = toNumber(raw, transform.number === true);
+  }
+  if (value === undefined) { return undefined; }
+
+  if (typeof transform.scale === 'number' && Number.isFinite(transform.scale)) {
+    value *= transform.scale;
+  }
+  if (transform.rrToBpm) {
+    value = value > 0 ? 60000 / value : undefined;
+  }
+  return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * RR 间期转换：逐项应用数字转换与倍率后规范化为毫秒数组（pick / rrToBpm 不适用）
+ */
+function transformRRIntervals(raw: unknown, transform?: JsonFieldTransform): number[] {
+  // 通配符路径可能匹配到多个数组（如 samples[*].rr），展开一层
+  const flat = Array.isArray(raw) ? raw.flat() : raw;
+  if (!transform || (transform.number !== true && transform.scale === undefined)) {
+    return normalizeRRIntervals(flat);
+  }
+
+  const items = Array.isArray(flat)
+    ? flat
+    : typeof flat === 'string'
+      ? flat.replace(/^\[|\]$/g, '').split(/[\s,;]+/)
+      : [flat];
+  const values = items
+    .map((item) => transformValue(item, { number: transform.number, scale: transform.scale }))
+    .filter((v): v is number => v !== undefined);
+  return normalizeRRIntervals(values);
+}
+
+/**
+ * 数组取值：未配置 pick 时仅接受单元素数组
+ */
+function pickFromArray(values: unknown[], transform: JsonFieldTransform): number | undefined {
+  const lenient = transform.number === true;
+  switch (transform.pick) {
+    case 'first':
+      return toNumber(values[0], lenient);
+    case 'last':
+      return toNumber(values[values.length - 1], lenient);
+    case 'average':
+    case 'min':
+    case 'max': {
+      const nums = values.map((v) => toNumber(v, lenient)).filter((v): v is number => v !== undefined);
+      if (nums.length === 0) { return undefined; }
+      if (transform.pick === 'min') { return Math.min(...nums); }
+      if (transform.pick === 'max') { return Math.max(...nums); }
+      return nums.reduce((sum, v) => sum + v, 0) / nums.length;
+    }
+    default:
+      return values.length === 1 ? toNumber(values[0], lenient) : undefined;
+  }
+}
+
+/**
+ * 转为有限数字：数字原样返回，纯数字字符串直接识别；lenient 时提取字符串中的第一个数字（如 "75 bpm"）
+ */
+function toNumber(value: unknown, lenient: boolean): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const strict = Number(value.trim());
+  if (Number.isFinite(strict)) { return strict; }
+  if (!lenient) { return undefined; }
+
+  const match = /-?\d+(?:\.\d+)?/.exec(value);
+  return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * 按映射提取并校验一项健康数据（未配置路径、非有效数字或校验不通过时返回 null）
+ */
+function extractHealthValue(json: unknown, mapping: HealthFieldMapping, config: HeartSocketConfig): number | null {
+  const path = config[mapping.configKey];
+  if (!path) {
+    return null; // 未配置则跳过
+  }
+
+  const value = transformValue(extractJsonPath(json, path), config.jsonTransforms[mapping.type]);
+  if (value === undefined) {
+    return null; // 非有效数字跳过
+  }
+
+  if (mapping.validate && !mapping.validate(value)) {
+    return null; // 校验不通过跳过
+  }
+
+  return value;
+}
@@ -0,0 +1,106 @@
+/**
+ * Heart Socket - MQTT Provider
+ *
+ * 连接 MQTT Broker（如 Mosquitto / Home Assistant），订阅心率主题及各健康数据主题，
+ * 消息内容沿用自定义数据源的 JSON 路径提取（见 jsonPayload.ts）：
+ * - 心率主题：纯数字视为心率；JSON 按 heartRateJsonPath / rrIntervalsJsonPath 及各健康字段路径提取
+ * - 健康数据主题：纯数字直接作为该项数值；JSON 按该项的 JSON 路径提取（如 caloriesJsonPath）
+ *
+ * 配置项：
+ * - heartSocket.mqttBrokerUrl: Broker 地址（mqtt:// / mqtts:// / ws:// / wss://）
+ * - heartSocket.mqttUsername: 用户名（密码保存在 SecretStorage）
+ * - heartSocket.mqttHeartRateTopic: 心率主题（支持 + / # 通配符）
+ * - heartSocket.mqttHealthTopics: 各健康数据主题，如 { "calories": "polar/calories" }
+ */
+import { BaseProvider } from './baseProvider';
+import { extractHealthPayload, extractPayload } from './jsonPayload';
+import { MqttClient, mqttTopicMatches } from '../mqttClient';
+import { CredentialError, MqttConnectError } from '../types';
+import type { HealthDataType, IMessageTransport } from '../types';
+
+export class MqttProvider extends BaseProvider {
+  readonly name = 'MQTT';
+
+  protected createTransport(): IMessageTransport {
+    return new MqttClient({ getTopics: () => this.getTopics() });
+  }
+
+  /**
+   * Broker 地址（用户名与 SecretStorage 中的密码写入 userinfo，由 MqttClient 解析）
+   */
+  protected async getWebSocketUrl(): Promise<string> {
+    if (!this.config.mqttHeartRateTopic.trim()) {
+      throw new Error('MQTT 需要配置心率主题（heartSocket.mqttHeartRateTopic）');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(this.config.mqttBrokerUrl);
+    } catch {
+      throw new Error('MQTT Broker 地址无效（heartSocket.mqttBrokerUrl）');
+    }
+
+    const username = this.config.mqttUsername.trim();
+    if (username) {
+      url.username = encodeURIComponent(username);
+      const password = await this.getCredential('mqttPassword');
+      if (password) {
+        url.password = encodeURIComponent(password);
+      }
+    }
+    return url.toString();
+  }
+
+  protected onConnected(): void {
+    const host = this.config.mqttBrokerUrl.replace(/\/\/[^@/]*@/, '//');
+    this.log(`已连接到 MQTT Broker: ${host}，订阅 ${this.getTopics().join(', ')}`);
+  }
+
+  protected onMessage(data: string, topic?: string): void {
+    if (!topic) {
+      return;
+    }
+
+    // 心率主题：与自定义数据源相同的完整提取
+    if (mqttTopicMatches(this.config.mqttHeartRateTopic.trim(), topic)) {
+      const values = extractPayload(data, this.config);
+      if (values) {
+        if (values.bpm !== undefined) {
+          this.emitHeartRate(values.bpm, values.rrIntervals);
+        } else {
+          this.emitRRIntervals(values.rrIntervals);
+        }
+        for (const { type, value } of values.health) {
+          this.emitHealthData(type, value);
+        }
+      }
+    }
+
+    // 健康数据主题：每个主题对应一项数据
+    for (const [type, filter] of Object.entries(this.config.mqttHealthTopics)) {
+      if (!filter?.trim() || !mqttTopicMatches(filter.trim(), topic)) {
+        continue;
+      }
+      const value = extractHealthPayload(data, type as HealthDataType, this.config);
+      if (value !== null) {
+        this.emitHealthData(type as HealthDataType, value);
+      }
+    }
+  }
+
+  /** 用户名或密码被 Broker 拒绝时转为凭据错误，引导重新配置 */
+  protected mapError(error: Error): Error {
+    if (error instanceof MqttConnectError && (error.returnCode === 4 || error.returnCode === 5)) {
+      return new CredentialError('mqttPassword', error.message, true);
+    }
+    return error;
+  }
+
+  /**
+   * 需要订阅的全部主题（心率 + 已配置的健康数据）
+   */
+  private getTopics(): string[] {
+    const topics = [this.config.mqttHeartRateTopic, ...Object.values(this.config.mqttHealthTopics)];
+    return [...new Set(topics.map((t) => (t ?? '').trim()).filter((t) => t.length > 0))];
+  }
+}
@@ -4,6 +4,8 @@
  * Pulsoid 提供 WebSocket API 实时接收心率数据。
  *
  * 连接 URL: wss://dev.pulsoid.net/api/v1/data/real_time?access_token=TOKEN
+ * Access Token 保存在 SecretStorage（pulsoidToken），通过 OAuth 登录时由 PulsoidAuth 自动续期。
+ * 握手返回 401/403 时转为 CredentialError，由上层尝试续期或引导重新登录。
  *
  * 数据格式：
  * {
@@ -14,18 +16,32 @@
  * }
  */
 import { BaseProvider } from './baseProvider';
+import { CredentialError, WebSocketError } from '../types';
+import type { WebSocketConnectOptions } from '../types';
 
 export class PulsoidProvider extends BaseProvider {
   readonly name = 'Pulsoid';
 
-  protected getWebSocketUrl(): string {
-    const token = this.config.apiToken;
+  protected async getWebSocketUrl(): Promise<string> {
+    const token = await this.getCredential('pulsoidToken');
     if (!token) {
-      throw new Error('Pulsoid 需要配置 Access Token（heartSocket.apiToken）');
+      throw new CredentialError('pulsoidToken', 'Pulsoid 需要配置 Access Token（运行 Heart Socket: Switch Provider 重新配置）');
     }
     return `wss://dev.pulsoid.net/api/v1/data/real_time?access_token=${token}`;
   }
 
+  /** 附加 heartSocket.pulsoidWebsocketHeaders / pulsoidWebsocketProtocols */
+  protected getConnectionOptions(url: string): WebSocketConnectOptions {
+    return this.resolveConnectionOptions(url, 'pulsoid');
+  }
+
+  protected mapError(error: Error): Error {
+    if (error instanceof WebSocketError && (error.httpStatus === 401 || error.httpStatus === 403)) {
+      return new CredentialError('pulsoidToken', `Pulsoid ${error.userMessage}`, true);
+    }
+    return error;
+  }
+
   protected onMessage(data: string): void {
     try {
       const msg = JSON.parse(data);
@@ -0,0 +1,99 @@
+/**
+ * Heart Socket - HTTP 代理隧道
+ *
+ * 通过 HTTP CONNECT 建立到目标主机的 TCP 隧道，供 HDS Cloud（HTTPS / SSE）
+ * 与 WebSocket 数据源（Pulsoid / HypeRate / 自定义）共用。
+ */
+import * as http from 'http';
+import * as net from 'net';
+
+/**
+ * 通过 HTTP CONNECT 隧道连接到目标主机
+ * 返回原始 TCP socket（隧道），TLS 由调用方在隧道上建立
+ */
+export function connectViaProxy(
+  proxyUrl: string,
+  targetHost: string,
+  targetPort: number,
+  timeoutMs: number
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const proxy = new URL(proxyUrl);
+    const proxyHost = proxy.hostname;
+    const proxyPort = parseInt(proxy.port, 10) || (proxy.protocol === 'https:' ? 443 : 80);
+    const target = `${net.isIPv6(targetHost) ? `[${targetHost}]` : targetHost}:${targetPort}`;
+
+    // 设置代理认证（如果有）
+    const headers: Record<string, string> = {
+      'Host': target,
+    };
+    if (proxy.username && proxy.password) {
+      const auth = Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64');
+      headers['Proxy-Authorization'] = `Basic ${auth}`;
+    }
+
+    const connectReq = http.request({
+      host: proxyHost,
+      port: proxyPort,
+      method: 'CONNECT',
+      path: target,
+      headers,
+    });
+
+    const timeout = setTimeout(() => {
+      connectReq.destroy();
+      reject(new Error(`代理连接超时（${timeoutMs / 1000}s）`));
+    }, timeoutMs);
+
+    connectReq.on('connect', (_res, socket) => {
+      clearTimeout(timeout);
+
+      if (_res.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`代理 CONNECT 失败: HTTP ${_res.statusCode}`));
+        return;
+      }
+
+      // 返回原始 TCP socket（CONNECT 隧道）
+      resolve(socket);
+    });
+
+    connectReq.on('error', (err) => {
+      clearTimeout(timeout);
+      reject(new Error(`代理连接失败: ${err.message}`));
+    });
+
+    connectReq.end();
+  });
+}
+
+/**
+ * 目标主机是否应绕过代理
+ * - 本机、局域网私有地址与 .local 域名始终直连（心率桥接通常在局域网内）
+ * - noProxy 条目：`*` 匹配全部；`example.com` / `.example.com` 匹配该域名及其子域名
+ */
+export function shouldBypassProxy(hostname: string, noProxy: string[]): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!host || host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) {
+    return true;
+  }
+
+  if (net.isIPv4(host)) {
+    const [a, b] = host.split('.').map(Number);
+    if (a === 127 || a === 10 || (a === 192 && b === 168) || (a === 172 && b >= 16 && b <= 31) || (a === 169 && b === 254)) {
+      return true;
+    }
+  } else if (net.isIPv6(host)) {
+    if (host === '::1' || host.startsWith('fe80:') || /^f[cd]/.test(host)) {
+      return true;
+    }
+  }
+
+  return noProxy.some((entry) => {
+    const pattern = entry.trim().toLowerCase().replace(/:\d+$/, '');
+    if (!pattern) { return false; }
+    if (pattern === '*') { return true; }
+    const domain = pattern.replace(/^\*?\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
@@ -0,0 +1,359 @@
+/**
+ * Heart Socket - Pulsoid OAuth 登录
+ *
+ * 使用 OAuth 2.0 授权码 + PKCE 流程获取 Pulsoid Access Token，免去手动复制粘贴：
+ * 1. 在本机回环地址启动临时 HTTP 监听（http://127.0.0.1:<port>/callback）
+ * 2. 浏览器打开 Pulsoid 授权页（携带 code_challenge），用户登录并授权
+ * 3. 回调携带授权码（校验 state 防 CSRF）→ 凭 code_verifier 换取 Access Token / Refresh Token
+ * 4. Token 存入 SecretStorage；即将过期或被服务端拒绝（401/403）时用 Refresh Token 自动续期
+ *
+ * 作为公共客户端登录，不需要也不保存 Client Secret。
+ * 授权 / Token 端点可通过构造参数替换，便于对接本地模拟授权服务器（见 test-pulsoid-oauth.js）。
+ */
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { CredentialStore } from './credentialStore';
+import type { CredentialAccessor, CredentialKey } from './types';
+
+/** OAuth 端点 */
+export interface OAuthEndpoints {
+  authorizeUrl: string;
+  tokenUrl: string;
+}
+
+/** Pulsoid 官方 OAuth 端点 */
+export const PULSOID_OAUTH_ENDPOINTS: OAuthEndpoints = {
+  authorizeUrl: 'https://pulsoid.net/oauth2/authorize',
+  tokenUrl: 'https://pulsoid.net/oauth2/token',
+};
+
+/** 回调监听地址（与 redirect_uri 中的主机一致，使用 IP 字面量避免 localhost 解析到 IPv6） */
+const LOOPBACK_HOST = '127.0.0.1';
+
+/** 读取实时心率所需的权限 */
+const PULSOID_SCOPE = 'data:heart_rate:read';
+
+/** 等待用户在浏览器中完成授权的最长时间 (ms) */
+const AUTHORIZE_TIMEOUT = 5 * 60 * 1000;
+
+/** Token 请求超时 (ms) */
+const REQUEST_TIMEOUT = 20 * 1000;
+
+/** 距过期不足该时长时提前刷新 (ms) */
+const REFRESH_MARGIN = 5 * 60 * 1000;
+
+/** 登录参数 */
+export interface PulsoidSignInOptions {
+  clientId: string;
+  /** 回环监听端口（须与 Pulsoid 后台登记的 Redirect URI 一致） */
+  redirectPort: number;
+  /** 打开浏览器（由调用方提供，通常为 vscode.env.openExternal） */
+  openBrowser: (url: string) => Thenable<boolean> | Promise<boolean>;
+  /** 取消信号（用户关闭进度通知时触发） */
+  signal?: AbortSignal;
+}
+
+/** Token 端点响应 */
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+export class PulsoidAuth extends EventEmitter implements CredentialAccessor {
+  private store: CredentialStore;
+  private endpoints: OAuthEndpoints;
+  private clientId: string;
+  /** 进行中的刷新（并发请求共用同一次刷新） */
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(store: CredentialStore, clientId: string, endpoints: OAuthEndpoints = PULSOID_OAUTH_ENDPOINTS) {
+    super();
+    this.store = store;
+    this.clientId = clientId;
+    this.endpoints = endpoints;
+  }
+
+  /**
+   * 更新 Client ID（配置变更时调用）
+   */
+  updateClientId(clientId: string): void {
+    this.clientId = clientId;
+  }
+
+  /**
+   * 凭据读取：Pulsoid Access Token 即将过期时先自动刷新，其余凭据直接读取
+   */
+  async getCredential(key: CredentialKey): Promise<string | undefined> {
+    if (key !== 'pulsoidToken') {
+      return this.store.getCredential(key);
+    }
+
+    const expiresAt = Number(await this.store.getCredential('pulsoidTokenExpiresAt'));
+    if (expiresAt > 0 && Date.now() >= expiresAt - REFRESH_MARGIN) {
+      await this.refresh();
+    }
+    return this.store.getCredential('pulsoidToken');
+  }
+
+  /**
+   * 是否可以静默刷新（通过 OAuth 登录且保存了 Refresh Token）
+   */
+  async canRefresh(): Promise<boolean> {
+    return !!(await this.store.getCredential('pulsoidRefreshToken'));
+  }
+
+  /**
+   * OAuth 登录：启动回环监听 → 打开浏览器授权 → 换取并保存 Token
+   */
+  async signIn(options: PulsoidSignInOptions): Promise<void> {
+    const state = crypto.randomBytes(16).toString('hex');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const redirectUri = `http://${LOOPBACK_HOST}:${options.redirectPort}/callback`;
+
+    // 内部取消控制：外部取消或打开浏览器失败时都立即关闭回环监听
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+    const codePromise = this.waitForAuthorizationCode(options.redirectPort, state, controller.signal);
+    // 监听可能在打开浏览器期间就失败（如端口占用），先挂上处理避免未处理的 rejection
+    codePromise.catch(() => undefined);
+
+    const authorizeUrl = new URL(this.endpoints.authorizeUrl);
+    authorizeUrl.searchParams.set('response_type', 'code');
+    authorizeUrl.searchParams.set('client_id', options.clientId);
+    authorizeUrl.searchParams.set('redirect_uri', redirectUri);
+    authorizeUrl.searchParams.set('scope', PULSOID_SCOPE);
+    authorizeUrl.searchParams.set('state', state);
+    authorizeUrl.searchParams.set('code_challenge', codeChallenge);
+    authorizeUrl.searchParams.set('code_challenge_method', 'S256');
+
+    let code: string;
+    try {
+      this.log(`[Pulsoid OAuth] 等待浏览器授权（回调 ${redirectUri}）...`);
+      await options.openBrowser(authorizeUrl.toString());
+      code = await codePromise;
+    } catch (error) {
+      controller.abort();
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const token = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: options.clientId,
+      code_verifier: codeVerifier,
+    });
+
+    this.clientId = options.clientId;
+    await this.saveToken(token);
+    this.log('[Pulsoid OAuth] 登录成功，Token 已保存到安全存储');
+  }
+
+  /**
+   * 使用 Refresh Token 续期
+   * @returns 是否刷新成功（无 Refresh Token 或被拒绝时返回 false）
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 保存手动粘贴的 Token（清除 OAuth 续期信息，避免用旧 Refresh Token 覆盖）
+   */
+  async setManualToken(token: string): Promise<void> {
+    await this.store.setCredential('pulsoidToken', token);
+    await this.store.deleteCredential('pulsoidRefreshToken');
+    await this.store.deleteCredential('pulsoidTokenExpiresAt');
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  private async doRefresh(): Promise<boolean> {
+    const refreshToken = await this.store.getCredential('pulsoidRefreshToken');
+    if (!refreshToken || !this.clientId) {
+      return false;
+    }
+
+    try {
+      const token = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: this.clientId,
+      });
+      await this.saveToken(token, refreshToken);
+      this.log('[Pulsoid OAuth] Access Token 已自动续期');
+      return true;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      this.log(`[Pulsoid OAuth] 续期失败: ${msg}`);
+      return false;
+    }
+  }
+
+  /**
+   * 保存 Token（响应未返回新的 Refresh Token 时沿用旧值）
+   */
+  private async saveToken(token: TokenResponse, previousRefreshToken?: string): Promise<void> {
+    await this.store.setCredential('pulsoidToken', token.access_token ?? '');
+
+    const refreshToken = token.refresh_token ?? previousRefreshToken;
+    if (refreshToken) {
+      await this.store.setCredential('pulsoidRefreshToken', refreshToken);
+    } else {
+      await this.store.deleteCredential('pulsoidRefreshToken');
+    }
+
+    if (typeof token.expires_in === 'number' && token.expires_in > 0) {
+      await this.store.setCredential('pulsoidTokenExpiresAt', String(Date.now() + token.expires_in * 1000));
+    } else {
+      await this.store.deleteCredential('pulsoidTokenExpiresAt');
+    }
+  }
+
+  /**
+   * 启动临时回环监听，等待授权回调
+   */
+  private waitForAuthorizationCode(port: number, state: string, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? '/', `http://${LOOPBACK_HOST}:${port}`);
+        if (url.pathname !== '/callback') {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        if (url.searchParams.get('state') !== state) {
+          // 与本次登录无关的回调（旧标签页、其他页面伪造）：拒绝但继续等待正确的回调
+          respond(res, false, '授权请求已失效，请回到 VS Code 重新登录。');
+        } else if (error) {
+          respond(res, false, `授权未完成：${url.searchParams.get('error_description') ?? error}`);
+          finish(new Error(`授权被拒绝: ${error}`));
+        } else if (!code) {
+          respond(res, false, '回调缺少授权码。');
+          finish(new Error('回调缺少授权码'));
+        } else {
+          respond(res, true, '登录成功，可以关闭此页面并返回 VS Code。');
+          finish(null, code);
+        }
+      });
+
+      const finish = (error: Error | null, code?: string): void => {
+        if (settled) { return; }
+        settled = true;
+        if (timer) { clearTimeout(timer); }
+        signal?.removeEventListener('abort', onAbort);
+        server.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(code as string);
+        }
+      };
+
+      const onAbort = (): void => finish(new Error('已取消登录'));
+      signal?.addEventListener('abort', onAbort);
+
+      server.on('error', (err: NodeJS.ErrnoException) => {
+        finish(err.code === 'EADDRINUSE'
+          ? new Error(`回调端口 ${port} 已被占用，请在设置中修改 heartSocket.pulsoidRedirectPort`)
+          : err);
+      });
+
+      timer = setTimeout(() => finish(new Error('等待授权超时')), AUTHORIZE_TIMEOUT);
+      server.listen(port, LOOPBACK_HOST);
+    });
+  }
+
+  /**
+   * 请求 Token 端点（application/x-www-form-urlencoded）
+   */
+  private requestToken(params: Record<string, string>): Promise<TokenResponse> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(this.endpoints.tokenUrl);
+      const body = new URLSearchParams(params).toString();
+      const transport = url.protocol === 'http:' ? http : https;
+
+      const req = transport.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Content-Length': Buffer.byteLength(body),
+            'Accept': 'application/json',
+          },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf-8');
+            let data: TokenResponse = {};
+            try {
+              data = JSON.parse(text);
+            } catch {
+              // 非 JSON 响应，按错误处理
+            }
+            const status = res.statusCode ?? 0;
+            if (status >= 200 && status < 300 && data.access_token) {
+              resolve(data);
+            } else {
+              reject(new Error(data.error_description ?? data.error ?? `HTTP ${status}`));
+            }
+          });
+        }
+      );
+
+      req.setTimeout(REQUEST_TIMEOUT, () => {
+        req.destroy(new Error(`请求超时（${REQUEST_TIMEOUT / 1000}s）`));
+      });
+      req.on('error', reject);
+      req.write(body);
+      req.end();
+    });
+  }
+
+  private log(message: string): void {
+    this.emit('log', message);
+  }
+}
+
+/**
+ * 回调页面响应
+ */
+function respond(res: http.ServerResponse, ok: boolean, message: string): void {
+  res.writeHead(ok ? 200 : 400, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Heart Socket</title></head>` +
+    `<body style="font-family:sans-serif;text-align:center;padding-top:80px">` +
+    `<h2>${ok ? '💓' : '⚠️'} Heart Socket</h2><p>${escapeHtml(message)}</p></body></html>`
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,369 @@
+/**
+ * Heart Socket - 原始采样持久化模块
+ *
+ * DataStore 只保存每日摘要；本模块将逐秒心率样本以追加写入方式
+ * 保存到 globalStorageUri 下的分块文件，跨重启保留完整分辨率的历史曲线。
+ *
+ * 存储结构（globalStorageUri/samples/）：
+ * - `YYYY-MM-DD.ndjson`    — 当日追加日志，每行一条 RawSample JSON
+ * - `YYYY-MM-DD.ndjson.gz` — 压缩分块（跨日后自动压缩：排序 + 按秒去重 + gzip）
+ *
+ * 写入策略：
+ * - 内存缓冲，每 10 秒批量追加一次（同一秒内的多条样本只保留最后一条）
+ * - 跨日时压缩前一天的追加日志
+ * - 启动时压缩遗留日志，并按保留天数清理过期分块
+ */
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import * as vscode from 'vscode';
+import type { RawSample } from './types';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/** 批量写入间隔 (ms) */
+const FLUSH_INTERVAL = 10 * 1000;
+/** 样本目录名 */
+const SAMPLE_DIR = 'samples';
+/** 追加日志扩展名 */
+const LOG_EXT = '.ndjson';
+/** 压缩分块扩展名 */
+const CHUNK_EXT = '.ndjson.gz';
+/** 文件名日期格式 */
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.ndjson(\.gz)?$/;
+/** 日期参数格式（防止路径穿越） */
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class SampleStore extends EventEmitter {
+  private dir: string;
+  private retentionDays: number;
+  private buffer: RawSample[] = [];
+  private currentDate: string;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  /** 写入队列：串行化所有文件操作，避免追加与压缩交错 */
+  private queue: Promise<void>;
+  private isDisposed: boolean = false;
+
+  constructor(context: vscode.ExtensionContext, retentionDays: number) {
+    super();
+    this.dir = path.join(context.globalStorageUri.fsPath, SAMPLE_DIR);
+    this.retentionDays = retentionDays;
+    this.currentDate = this.toDateString(Date.now());
+    this.queue = this.enqueue(() => this.init());
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, FLUSH_INTERVAL);
+  }
+
+  /**
+   * 记录一条样本（同一秒内只保留最后一条）
+   */
+  record(sample: RawSample): void {
+    if (this.isDisposed) { return; }
+
+    const last = this.buffer[this.buffer.length - 1];
+    if (last && Math.floor(last.ts / 1000) === Math.floor(sample.ts / 1000)) {
+      this.buffer[this.buffer.length - 1] = { ...last, ...sample };
+    } else {
+      this.buffer.push(sample);
+    }
+
+    // 跨日：先落盘，再压缩前一天
+    const date = this.toDateString(sample.ts);
+    if (date !== this.currentDate) {
+      const previous = this.currentDate;
+      this.currentDate = date;
+      this.flush();
+      this.enqueue(() => this.compact(previous));
+    }
+  }
+
+  /**
+   * 将缓冲区追加写入当日日志
+   */
+  flush(): Promise<void> {
+    if (this.buffer.length === 0) {
+      return this.queue;
+    }
+    const batch = this.buffer;
+    this.buffer = [];
+    return this.enqueue(() => this.appendBatch(batch));
+  }
+
+  /**
+   * 批量写入导入的历史样本（非当日的直接压缩为分块）
+   */
+  importSamples(samples: RawSample[]): Promise<void> {
+    if (samples.length === 0) {
+      return this.queue;
+    }
+    return this.enqueue(async () => {
+      await this.appendBatch(samples);
+      for (const date of this.groupByDate(samples).keys()) {
+        if (date !== this.currentDate) {
+          await this.compact(date);
+        }
+      }
+    });
+  }
+
+  /**
+   * 读取某日的全部样本（按时间升序，已按秒去重）
+   */
+  async readDay(date: string): Promise<RawSample[]> {
+    if (!DAY_PATTERN.test(date)) {
+      throw new Error(`无效的日期: ${date}`);
+    }
+    await this.flush();
+    const samples: RawSample[] = [];
+    samples.push(...await this.readChunk(date));
+    samples.push(...await this.readLog(date));
+    return this.normalize(samples);
+  }
+
+  /**
+   * 读取某个时间区间内的样本（跨日自动拼接）
+   */
+  async readRange(startTs: number, endTs: number): Promise<RawSample[]> {
+    const result: RawSample[] = [];
+    for (const date of this.datesBetween(startTs, endTs)) {
+      const day = await this.readDay(date);
+      result.push(...day.filter(s => s.ts >= startTs && s.ts <= endTs));
+    }
+    return result;
+  }
+
+  /**
+   * 获取有样本数据的所有日期（升序）
+   */
+  async getAvailableDates(): Promise<string[]> {
+    await this.flush();
+    const dates = new Set<string>();
+    for (const file of await this.listFiles()) {
+      const match = DATE_PATTERN.exec(file);
+      if (match) { dates.add(match[1]); }
+    }
+    return Array.from(dates).sort();
+  }
+
+  /**
+   * 更新保留天数（下次清理时生效）
+   */
+  updateRetention(retentionDays: number): void {
+    if (retentionDays === this.retentionDays) { return; }
+    this.retentionDays = retentionDays;
+    this.enqueue(() => this.applyRetention());
+  }
+
+  /**
+   * 销毁：同步写出剩余缓冲，确保退出时不丢数据
+   */
+  dispose(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.isDisposed = true;
+    if (this.buffer.length > 0) {
+      try {
+        fs.mkdirSync(this.dir, { recursive: true });
+        for (const [date, batch] of this.groupByDate(this.buffer)) {
+          fs.appendFileSync(this.logPath(date), this.serialize(batch));
+        }
+      } catch (err) {
+        this.log(`退出时写入样本失败: ${this.errorMessage(err)}`);
+      }
+      this.buffer = [];
+    }
+    this.removeAllListeners();
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = (this.queue ?? Promise.resolve()).then(task).catch((err) => {
+      this.log(`样本存储错误: ${this.errorMessage(err)}`);
+    });
+    this.queue = run;
+    return run;
+  }
+
+  /**
+   * 初始化：创建目录 → 压缩非当日遗留日志 → 清理过期分块
+   */
+  private async init(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    for (const file of await this.listFiles()) {
+      const match = DATE_PATTERN.exec(file);
+      if (match && !match[2] && match[1] !== this.currentDate) {
+        await this.compact(match[1]);
+      }
+    }
+    await this.applyRetention();
+  }
+
+  private async appendBatch(batch: RawSample[]): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    for (const [date, samples] of this.groupByDate(batch)) {
+      await fs.promises.appendFile(this.logPath(date), this.serialize(samples));
+    }
+  }
+
+  /**
+   * 压缩某日的追加日志为 gzip 分块（与已有分块合并）
+   */
+  private async compact(date: string): Promise<void> {
+    const logSize = await this.fileSize(this.logPath(date));
+    const logSamples = await this.readLog(date);
+    if (logSamples.length === 0) { return; }
+
+    const merged = this.normalize([...await this.readChunk(date), ...logSamples]);
+    const compressed = await gzip(Buffer.from(this.serialize(merged), 'utf-8'));
+    const chunkPath = this.chunkPath(date);
+    const tmpPath = `${chunkPath}.tmp`;
+
+    // 先写临时文件再原子替换，避免压缩中断导致分块损坏
+    await fs.promises.writeFile(tmpPath, compressed);
+    await fs.promises.rename(tmpPath, chunkPath);
+
+    // 压缩期间日志有新写入（如退出时 dispose 同步追加）：保留日志，下次压缩时合并去重
+    if (await this.fileSize(this.logPath(date)) !== logSize) {
+      this.log(`[SampleStore] ${date} 压缩期间有新样本写入，保留追加日志`);
+      return;
+    }
+    await fs.promises.unlink(this.logPath(date));
+    this.log(`[SampleStore] 已压缩 ${date}: ${merged.length} 条样本`);
+  }
+
+  private async fileSize(file: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(file)).size;
+    } catch {
+      return -1;
+    }
+  }
+
+  /**
+   * 清理超出保留天数的分块
+   */
+  private async applyRetention(): Promise<void> {
+    const cutoff = this.toDateString(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+    for (const file of await this.listFiles()) {
+      const match = DATE_PATTERN.exec(file);
+      if (match && match[1] < cutoff) {
+        await fs.promises.unlink(path.join(this.dir, file));
+        this.log(`[SampleStore] 已清理过期样本: ${file}`);
+      }
+    }
+  }
+
+  private async readLog(date: string): Promise<RawSample[]> {
+    try {
+      const text = await fs.promises.readFile(this.logPath(date), 'utf-8');
+      return this.parse(text);
+    } catch {
+      return [];
+    }
+  }
+
+  private async readChunk(date: string): Promise<RawSample[]> {
+    try {
+      const compressed = await fs.promises.readFile(this.chunkPath(date));
+      const text = (await gunzip(compressed)).toString('utf-8');
+      return this.parse(text);
+    } catch {
+      return [];
+    }
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return await fs.promises.readdir(this.dir);
+    } catch {
+      return [];
+    }
+  }
+
+  private serialize(samples: RawSample[]): string {
+    return samples.map(s => JSON.stringify(s)).join('\n') + '\n';
+  }
+
+  /** 逐行解析，跳过损坏的行（如进程中断导致的半行） */
+  private parse(text: string): RawSample[] {
+    const samples: RawSample[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) { continue; }
+      try {
+        const sample = JSON.parse(line) as RawSample;
+        if (typeof sample.ts === 'number' && typeof sample.bpm === 'number') {
+          samples.push(sample);
+        }
+      } catch {
+        // 损坏的行忽略
+      }
+    }
+    return samples;
+  }
+
+  /** 排序 + 按秒去重（保留同一秒内最后写入的样本） */
+  private normalize(samples: RawSample[]): RawSample[] {
+    const bySecond = new Map<number, RawSample>();
+    for (const s of samples) {
+      const second = Math.floor(s.ts / 1000);
+      bySecond.set(second, { ...bySecond.get(second), ...s });
+    }
+    return Array.from(bySecond.values()).sort((a, b) => a.ts - b.ts);
+  }
+
+  private groupByDate(samples: RawSample[]): Map<string, RawSample[]> {
+    const groups = new Map<string, RawSample[]>();
+    for (const s of samples) {
+      const date = this.toDateString(s.ts);
+      const group = groups.get(date);
+      if (group) {
+        group.push(s);
+      } else {
+        groups.set(date, [s]);
+      }
+    }
+    return groups;
+  }
+
+  private datesBetween(startTs: number, endTs: number): string[] {
+    const dates: string[] = [];
+    const cursor = new Date(startTs);
+    cursor.setHours(0, 0, 0, 0);
+    while (cursor.getTime() <= endTs) {
+      dates.push(this.toDateString(cursor.getTime()));
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    return dates;
+  }
+
+  private logPath(date: string): string {
+    return path.join(this.dir, date + LOG_EXT);
+  }
+
+  private chunkPath(date: string): string {
+    return path.join(this.dir, date + CHUNK_EXT);
+  }
+
+  private toDateString(ts: number): string {
+    const d = new Date(ts);
+    const y = d.getFullYear();
+    const m = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${y}-${m}-${day}`;
+  }
+
+  private errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  private log(message: string): void {
+    this.emit('log', message);
+  }
+}
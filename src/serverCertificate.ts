@@ -0,0 +1,261 @@
+/**
+ * Heart Socket - HDS Server HTTPS 证书
+ *
+ * HDS 本地服务启用 HTTPS / WSS（heartSocket.serverTls）时使用的证书：
+ * - 配置了 heartSocket.serverTlsCertFile / serverTlsKeyFile 时读取用户证书
+ * - 否则自动生成自签名证书（ECDSA P-256，有效期 825 天），持久化在 globalStorageUri/hds-tls/，
+ *   重启后指纹不变，设备固定（pin）一次即可；临近过期时自动重新生成
+ *
+ * 自签名证书由本模块直接按 DER 编码 X.509 v3 结构并用 Node crypto 签名，无需 OpenSSL 或第三方依赖。
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerCertificateError } from './types';
+import type { ServerCertificate } from './types';
+
+/** 证书目录名 */
+const CERT_DIR = 'hds-tls';
+const CERT_FILE = 'cert.pem';
+const KEY_FILE = 'key.pem';
+/** 自签名证书有效期（天）：Apple 设备不接受超过 825 天的 TLS 证书 */
+const VALIDITY_DAYS = 825;
+/** 剩余有效期不足该天数时重新生成 */
+const RENEW_BEFORE_DAYS = 30;
+/** 证书主题名称 */
+const COMMON_NAME = 'Heart Socket HDS';
+
+/** 用到的 OID */
+const OID = {
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  subjectAltName: '2.5.29.17',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  serverAuth: '1.3.6.1.5.5.7.3.1',
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 加载 HDS Server 证书：优先使用用户配置的证书，否则读取或生成自签名证书
+ *
+ * @param storageDir 自签名证书的存放目录（globalStorageUri）
+ * @throws 用户证书无法读取、格式错误或与私钥不匹配时抛出错误
+ */
+export function loadServerCertificate(certFile: string, keyFile: string, storageDir: string): ServerCertificate {
+  const userCert = certFile.trim();
+  const userKey = keyFile.trim();
+  if (userCert || userKey) {
+    if (!userCert || !userKey) {
+      throw new ServerCertificateError('HTTPS 证书与私钥需同时配置（heartSocket.serverTlsCertFile / serverTlsKeyFile）');
+    }
+    const cert = readPem(userCert, '证书');
+    const key = readPem(userKey, '私钥');
+    return { cert, key, fingerprint: verifyPair(cert, key), selfSigned: false };
+  }
+
+  const dir = path.join(storageDir, CERT_DIR);
+  const certPath = path.join(dir, CERT_FILE);
+  const keyPath = path.join(dir, KEY_FILE);
+
+  // 复用已生成的证书（指纹保持不变），损坏或临近过期时重新生成
+  if (fs.existsSync(certPath) && fs.existsSync(keyPath)) {
+    try {
+      const cert = fs.readFileSync(certPath, 'utf-8');
+      const key = fs.readFileSync(keyPath, 'utf-8');
+      const validTo = new Date(new crypto.X509Certificate(cert).validTo).getTime();
+      if (validTo - Date.now() > RENEW_BEFORE_DAYS * DAY_MS) {
+        return { cert, key, fingerprint: verifyPair(cert, key), selfSigned: true };
+      }
+    } catch {
+      // 文件损坏：重新生成
+    }
+  }
+
+  const { cert, key } = generateSelfSignedCertificate();
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(keyPath, key, { encoding: 'utf-8', mode: 0o600 });
+    fs.writeFileSync(certPath, cert, 'utf-8');
+  } catch (error) {
+    throw new ServerCertificateError(`无法保存自签名证书到 ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { cert, key, fingerprint: verifyPair(cert, key), selfSigned: true };
+}
+
+/**
+ * 生成自签名证书（PEM）
+ *
+ * SAN 包含本机名称（含 .local）、localhost、回环地址及当前局域网 IPv4；
+ * IP 变化后证书无需重新生成（设备按指纹固定证书）。
+ */
+function generateSelfSignedCertificate(): { cert: string; key: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  const hostname = os.hostname().replace(/\.local$/i, '');
+  const dnsNames = [...new Set(['localhost', hostname, `${hostname}.local`].filter((n) => /^[A-Za-z0-9.-]+$/.test(n)))];
+  const ips = ['127.0.0.1', '::1'];
+  for (const list of Object.values(os.networkInterfaces())) {
+    for (const iface of list ?? []) {
+      if (iface.family === 'IPv4' && !iface.internal) {
+        ips.push(iface.address);
+      }
+    }
+  }
+
+  // 生效时间提前一天容忍设备时钟偏差；总有效期（含提前的一天）不超过 VALIDITY_DAYS
+  const notBefore = new Date(Date.now() - DAY_MS);
+  const notAfter = new Date(notBefore.getTime() + VALIDITY_DAYS * DAY_MS);
+  const serial = crypto.randomBytes(16);
+  serial[0] = (serial[0] & 0x7f) | 0x01; // 正整数且无前导零
+
+  const name = sequence(set(sequence(oid(OID.commonName), utf8String(COMMON_NAME))));
+  const signatureAlgorithm = sequence(oid(OID.ecdsaWithSha256));
+
+  const extensions = sequence(
+    extension(OID.subjectAltName, false, sequence(
+      ...dnsNames.map((n) => tlv(0x82, Buffer.from(n, 'ascii'))),
+      ...ips.map((ip) => tlv(0x87, ipToBytes(ip))),
+    )),
+    extension(OID.basicConstraints, true, sequence()),
+    extension(OID.keyUsage, true, tlv(0x03, Buffer.from([0x07, 0x80]))), // digitalSignature
+    extension(OID.extKeyUsage, false, sequence(oid(OID.serverAuth))),
+  );
+
+  const tbs = sequence(
+    tlv(0xa0, integer(Buffer.from([0x02]))), // v3
+    integer(serial),
+    signatureAlgorithm,
+    name,
+    sequence(utcTime(notBefore), utcTime(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    tlv(0xa3, extensions),
+  );
+
+  const signature = crypto.sign('sha256', tbs, privateKey); // ECDSA 默认输出 DER 编码签名
+  const der = sequence(tbs, signatureAlgorithm, tlv(0x03, Buffer.concat([Buffer.from([0x00]), signature])));
+
+  return {
+    cert: toPem(der, 'CERTIFICATE'),
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+}
+
+// ─── 文件与校验 ────────────────────────────────
+
+function readPem(file: string, label: string): string {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new ServerCertificateError(`无法读取 HTTPS ${label}文件 ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 校验证书与私钥匹配，返回证书 SHA-256 指纹（冒号分隔的十六进制）
+ */
+function verifyPair(cert: string, key: string): string {
+  let x509: crypto.X509Certificate;
+  try {
+    x509 = new crypto.X509Certificate(cert);
+  } catch (error) {
+    throw new ServerCertificateError(`HTTPS 证书格式无效: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = crypto.createPrivateKey(key);
+  } catch (error) {
+    throw new ServerCertificateError(`HTTPS 私钥格式无效: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!x509.checkPrivateKey(privateKey)) {
+    throw new ServerCertificateError('HTTPS 证书与私钥不匹配');
+  }
+  return x509.fingerprint256;
+}
+
+// ─── DER 编码 ─────────────────────────────────
+
+function tlv(tag: number, value: Buffer): Buffer {
+  const length = value.length;
+  let header: Buffer;
+  if (length < 0x80) {
+    header = Buffer.from([tag, length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = length; n > 0; n >>= 8) {
+      bytes.unshift(n & 0xff);
+    }
+    header = Buffer.from([tag, 0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([header, value]);
+}
+
+function sequence(...items: Buffer[]): Buffer {
+  return tlv(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return tlv(0x31, Buffer.concat(items));
+}
+
+function integer(value: Buffer): Buffer {
+  return tlv(0x02, value);
+}
+
+function utf8String(value: string): Buffer {
+  return tlv(0x0c, Buffer.from(value, 'utf-8'));
+}
+
+function oid(value: string): Buffer {
+  const parts = value.split('.').map(Number);
+  const bytes = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const encoded = [part & 0x7f];
+    for (let n = part >> 7; n > 0; n >>= 7) {
+      encoded.unshift((n & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+}
+
+/** UTCTime（YYMMDDHHMMSSZ），有效期内的年份均早于 2050 */
+function utcTime(date: Date): Buffer {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const text =
+    pad(date.getUTCFullYear() % 100) + pad(date.getUTCMonth() + 1) + pad(date.getUTCDate()) +
+    pad(date.getUTCHours()) + pad(date.getUTCMinutes()) + pad(date.getUTCSeconds()) + 'Z';
+  return tlv(0x17, Buffer.from(text, 'ascii'));
+}
+
+function extension(id: string, critical: boolean, value: Buffer): Buffer {
+  return critical
+    ? sequence(oid(id), tlv(0x01, Buffer.from([0xff])), tlv(0x04, value))
+    : sequence(oid(id), tlv(0x04, value));
+}
+
+function ipToBytes(ip: string): Buffer {
+  if (net.isIPv4(ip)) {
+    return Buffer.from(ip.split('.').map(Number));
+  }
+  // IPv6：展开 :: 后按 16 位分组
+  const [head, tail = ''] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = ip.includes('::') && tail ? tail.split(':') : [];
+  const groups = ip.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+  const buf = Buffer.alloc(16);
+  groups.forEach((g, i) => buf.writeUInt16BE(parseInt(g, 16) || 0, i * 2));
+  return buf;
+}
+
+function toPem(der: Buffer, label: string): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
@@ -0,0 +1,124 @@
+/**
+ * Heart Socket - 信号看门狗
+ *
+ * 连接期间监测心率数据是否持续到达（适用于所有数据源）：
+ * - 超过 staleDataSeconds 未收到心率 → 判定信号丢失（手表摘下、App 退到后台、链路静默断开等）
+ * - 信号丢失后再次收到心率 → 判定恢复，并给出本次中断的起止时间
+ *
+ * 事件：
+ * - signalLost: { lastDataAt } 最后一次收到数据的时间
+ * - signalRestored: { start, end, durationMs } 本次中断区间
+ */
+import { EventEmitter } from 'events';
+
+/** 检查间隔 (ms) */
+const CHECK_INTERVAL_MS = 5 * 1000;
+
+/** 信号中断区间 */
+export interface SignalGap {
+  /** 最后一次收到数据的时间 (ms) */
+  start: number;
+  /** 数据恢复的时间 (ms) */
+  end: number;
+  durationMs: number;
+}
+
+export class SignalWatchdog extends EventEmitter {
+  private timeoutMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastDataAt: number = 0;
+  private lost: boolean = false;
+  private running: boolean = false;
+
+  /**
+   * @param timeoutSeconds 判定信号丢失的静默秒数（0 = 关闭检测）
+   */
+  constructor(timeoutSeconds: number) {
+    super();
+    this.timeoutMs = Math.max(0, timeoutSeconds) * 1000;
+  }
+
+  /** 当前是否处于信号丢失状态 */
+  get isSignalLost(): boolean {
+    return this.lost;
+  }
+
+  /** 信号丢失时返回最后一次收到数据的时间，否则为 null */
+  get lostSince(): number | null {
+    return this.lost ? this.lastDataAt : null;
+  }
+
+  /**
+   * 开始监测（连接建立时调用，从此刻起计时）
+   */
+  start(): void {
+    this.stop();
+    this.running = true;
+    this.lastDataAt = Date.now();
+    this.syncTimer();
+  }
+
+  /**
+   * 停止监测（断开 / 重连 / 出错时调用；丢失状态直接清除，不计为中断）
+   */
+  stop(): void {
+    this.running = false;
+    this.syncTimer();
+    this.lost = false;
+  }
+
+  /**
+   * 收到一条心率数据
+   */
+  feed(timestamp: number = Date.now()): void {
+    if (this.lost) {
+      this.lost = false;
+      const gap: SignalGap = {
+        start: this.lastDataAt,
+        end: timestamp,
+        durationMs: timestamp - this.lastDataAt,
+      };
+      this.emit('signalRestored', gap);
+    }
+    this.lastDataAt = timestamp;
+  }
+
+  /**
+   * 更新判定阈值（配置变更时调用，运行中立即生效）
+   */
+  updateTimeout(timeoutSeconds: number): void {
+    const timeoutMs = Math.max(0, timeoutSeconds) * 1000;
+    if (timeoutMs === this.timeoutMs) { return; }
+    this.timeoutMs = timeoutMs;
+    // 关闭检测时丢失状态保留到下一条数据到达，以便仍能记录本次中断
+    this.syncTimer();
+  }
+
+  dispose(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+
+  // ─── 私有方法 ───────────────────────────────────
+
+  /**
+   * 按运行状态与阈值启停定时器
+   */
+  private syncTimer(): void {
+    const shouldRun = this.running && this.timeoutMs > 0;
+    if (shouldRun && !this.timer) {
+      this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    } else if (!shouldRun && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private check(): void {
+    if (this.lost || this.timeoutMs <= 0) { return; }
+    if (Date.now() - this.lastDataAt >= this.timeoutMs) {
+      this.lost = true;
+      this.emit('signalLost', { lastDataAt: this.lastDataAt });
+    }
+  }
+}
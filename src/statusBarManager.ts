@@ -7,6 +7,8 @@
  * - 心跳动画效果
  * - 连接状态指示
  * - 敲代码强度指示器（Motion）
+ * - 告警闪烁
+ * - 信号丢失置灰（连接期间超时未收到心率）
  */
 import * as vscode from 'vscode';
 import { ConnectionStatus } from './types';
@@ -17,6 +19,10 @@ import type {
   HeartSocketConfig,
   CodingIntensityLevel,
   MotionAnalysisResult,
+  HrvMetrics,
+  AlertSeverity,
+  HealthDataType,
+  ReconnectInfo,
 } from './types';
 
 /** 心率区间对应的颜色主题（9 级） */
@@ -45,6 +51,12 @@ const ZONE_LABELS: Record<HeartRateZoneName, string> = {
   extreme: '🚨 异常',
 };
 
+/** 健康数据超过此时长未更新时在 tooltip 标注数据年龄 (ms) */
+const HEALTH_AGE_HINT_MS = 60 * 1000;
+
+/** 信号丢失时的状态栏颜色 */
+const SIGNAL_LOST_COLOR = new vscode.ThemeColor('disabledForeground');
+
 /** 心跳动画图标交替 */
 const HEART_ICONS = ['♥', '♡'];
 
@@ -74,6 +86,10 @@ export class StatusBarManager {
   private connectionStatus: ConnectionStatus = ConnectionStatus.Disconnected;
   private config: HeartSocketConfig;
   private healthSnapshot: HealthSnapshot = {};
+  private healthUpdatedAt: Partial<Record<HealthDataType, number>> = {};
+
+  // 信号丢失：最后一次收到心率的时间（null 表示信号正常）
+  private signalLostSince: number | null = null;
 
   // Motion 相关状态
   private codingIntensity: CodingIntensityLevel = 'idle';
@@ -85,6 +101,19 @@ export class StatusBarManager {
   // 监测时长（毫秒）
   private sessionDuration: number = 0;
 
+  // HRV（仅提供 RR 间期的数据源）
+  private hrv: HrvMetrics | null = null;
+
+  // 多数据源模式下的当前活跃数据源（单数据源时为 null）
+  private activeSource: string | null = null;
+
+  // 连接往返延迟 (ms)，未测得时为 null
+  private latency: number | null = null;
+
+  // 重连倒计时（已安排重连时每秒刷新状态栏文本）
+  private reconnectInfo: ReconnectInfo | null = null;
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+
   // 缓存：避免重复赋值相同内容导致 VS Code 状态栏重渲染 → 悬浮框闪烁
   private cachedText: string = '';
   private cachedTooltip: string = '';
@@ -99,6 +128,11 @@ export class StatusBarManager {
   private readonly UPDATE_THROTTLE = 500;
   private pendingUpdate: ReturnType<typeof setTimeout> | null = null;
 
+  /** 告警闪烁 */
+  private flashTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly FLASH_INTERVAL = 500;
+  private readonly FLASH_COUNT = 12;
+
   constructor(config: HeartSocketConfig) {
     this.config = config;
 
@@ -121,20 +155,56 @@ export class StatusBarManager {
   /**
    * 更新心率显示
    */
-  updateHeartRate(data: HeartRateData, healthSnapshot?: HealthSnapshot): void {
+  updateHeartRate(
+    data: HeartRateData,
+    healthSnapshot?: HealthSnapshot,
+    healthUpdatedAt?: Partial<Record<HealthDataType, number>>
+  ): void {
     this.lastBpm = data.bpm;
     this.lastZone = this.getZone(data.bpm);
     if (healthSnapshot) {
       this.healthSnapshot = healthSnapshot;
     }
+    if (healthUpdatedAt) {
+      this.healthUpdatedAt = healthUpdatedAt;
+    }
     this.throttledUpdate();
   }
 
   /**
    * 更新健康数据快照（仅刷新 tooltip）
+   * @param updatedAt 各项数据的最后更新时间，用于标注数据年龄
    */
-  updateHealthSnapshot(snapshot: HealthSnapshot): void {
+  updateHealthSnapshot(snapshot: HealthSnapshot, updatedAt?: Partial<Record<HealthDataType, number>>): void {
     this.healthSnapshot = snapshot;
+    if (updatedAt) {
+      this.healthUpdatedAt = updatedAt;
+    }
+    this.tooltipDirty = true;
+  }
+
+  /**
+   * 更新信号丢失状态
+   * @param lastDataAt 最后一次收到心率的时间；null 表示信号已恢复
+   */
+  updateSignalLost(lastDataAt: number | null): void {
+    if (lastDataAt !== null) {
+      this.signalLostSince = lastDataAt;
+      this.stopAnimation();
+      this.statusBarItem.color = SIGNAL_LOST_COLOR;
+      this.renderText();
+      this.flushTooltip();
+      return;
+    }
+
+    if (this.signalLostSince === null) { return; }
+    this.signalLostSince = null;
+    this.lastSetZone = this.lastZone;
+    this.statusBarItem.color = ZONE_COLORS[this.lastZone];
+    if (this.config.showHeartbeatAnimation && this.connectionStatus === ConnectionStatus.Connected) {
+      this.startAnimation();
+    }
+    this.renderText();
     this.tooltipDirty = true;
   }
 
@@ -144,6 +214,12 @@ export class StatusBarManager {
    */
   updateStatus(status: ConnectionStatus, context?: { waitingForDevice?: boolean }): void {
     this.connectionStatus = status;
+    this.signalLostSince = null;
+    if (status !== ConnectionStatus.Connected) {
+      this.latency = null;
+    }
+    // 重连计划总在状态变化之后派发，状态变化时清除旧的倒计时
+    this.stopCountdown();
 
     switch (status) {
       case ConnectionStatus.Disconnected:
@@ -211,6 +287,67 @@ export class StatusBarManager {
     this.sessionDuration = duration;
   }
 
+  /**
+   * 更新 HRV 指标（null 表示无 RR 数据，不显示）
+   */
+  updateHrv(metrics: HrvMetrics | null): void {
+    this.hrv = metrics;
+    this.tooltipDirty = true;
+  }
+
+  /**
+   * 更新当前活跃数据源（多数据源融合模式，null 表示不显示）
+   */
+  updateActiveSource(label: string | null): void {
+    this.activeSource = label;
+    this.tooltipDirty = true;
+  }
+
+  /**
+   * 更新连接往返延迟（null 表示未知，不显示）
+   */
+  updateLatency(ms: number | null): void {
+    this.latency = ms;
+    this.tooltipDirty = true;
+  }
+
+  /**
+   * 显示重连倒计时（已安排下一次重连时调用）
+   */
+  updateReconnect(info: ReconnectInfo): void {
+    if (this.connectionStatus === ConnectionStatus.Connected || this.connectionStatus === ConnectionStatus.Connecting) {
+      return;
+    }
+    this.stopCountdown();
+    this.reconnectInfo = info;
+    this.statusBarItem.color = new vscode.ThemeColor('charts.yellow');
+    this.statusBarItem.command = 'heartSocket.retryNow';
+    // tooltip 不含秒数，避免每秒刷新导致悬浮框闪烁
+    this.statusBarItem.tooltip = `Heart Socket - 连接中断，等待${this.formatAttempt(info)}重连\n\n点击立即重试`;
+    this.renderCountdown();
+    this.countdownTimer = setInterval(() => this.renderCountdown(), 1000);
+  }
+
+  /**
+   * 告警闪烁：背景色交替闪烁约 6 秒（告警规则动作 statusBarFlash）
+   */
+  flashAlert(severity: AlertSeverity): void {
+    this.stopFlash();
+    const color = new vscode.ThemeColor(
+      severity === 'error' ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground'
+    );
+    let count = 0;
+    this.statusBarItem.backgroundColor = color;
+    this.flashTimer = setInterval(() => {
+      count++;
+      if (count >= this.FLASH_COUNT) {
+        this.stopFlash();
+        return;
+      }
+      this.statusBarItem.backgroundColor = count % 2 === 0 ? color : undefined;
+    }, this.FLASH_INTERVAL);
+  }
+
   /**
    * 更新配置
    */
@@ -228,6 +365,8 @@ export class StatusBarManager {
   dispose(): void {
     this.stopAnimation();
     this.stopTooltipTimer();
+    this.stopCountdown();
+    this.stopFlash();
     if (this.pendingUpdate) {
       clearTimeout(this.pendingUpdate);
       this.pendingUpdate = null;
@@ -262,8 +401,8 @@ export class StatusBarManager {
   private renderHeartRate(): void {
     // 更新文本（含动画图标）
     this.renderText();
-    // 更新颜色（仅在 zone 真正变化时才赋值，避免无谓的 setter 触发重渲染）
-    if (this.lastZone !== this.lastSetZone) {
+    // 更新颜色（仅在 zone 真正变化时才赋值，避免无谓的 setter 触发重渲染；信号丢失期间保持置灰）
+    if (this.signalLostSince === null && this.lastZone !== this.lastSetZone) {
       this.lastSetZone = this.lastZone;
       this.statusBarItem.color = ZONE_COLORS[this.lastZone];
     }
@@ -275,6 +414,12 @@ export class StatusBarManager {
    * 仅渲染状态栏文本（心跳动画用，不触碰 tooltip / color）
    */
   private renderText(): void {
+    if (this.signalLostSince !== null) {
+      // 信号丢失：保留最后读数，以断开图标提示数据已过期（连接后从未收到心率时不显示读数）
+      this.setTextIfChanged(`$(debug-disconnect) ${this.lastBpm > 0 ? this.lastBpm : '--'} BPM`);
+      return;
+    }
+
     const icon = this.config.showHeartbeatAnimation
       ? HEART_ICONS[this.animationFrame % HEART_ICONS.length]
       : HEART_ICONS[0];
@@ -312,10 +457,21 @@ export class StatusBarManager {
     const lines = [
       `Heart Socket - ${zoneLabel}`,
       `━━━━━━━━━━━━━━━━━━━━`,
-      `💓 当前心率: ${this.lastBpm} BPM`,
-      `📊 心率区间: ${zoneLabel}`,
     ];
 
+    // 信号丢失提示（tooltip 定时器每 5 秒重建，秒数随之更新）
+    if (this.signalLostSince !== null) {
+      const lostSec = Math.floor((Date.now() - this.signalLostSince) / 1000);
+      lines.push(this.lastBpm > 0
+        ? `⚠️ 已 ${this.formatAge(lostSec)}未收到心率数据，以下为最后读数`
+        : `⚠️ 已 ${this.formatAge(lostSec)}未收到心率数据`);
+    }
+
+    lines.push(
+      `💓 当前心率: ${this.lastBpm > 0 ? `${this.lastBpm} BPM` : '暂无数据'}`,
+      `📊 心率区间: ${this.lastBpm > 0 ? zoneLabel : '--'}`,
+    );
+
     // 添加心率统计摘要（min/max/avg）
     if (this.heartRateStats) {
       const { min, max, avg } = this.heartRateStats;
@@ -324,6 +480,12 @@ export class StatusBarManager {
       lines.push(`📉 最低/最高/平均: ${minDisplay} / ${maxDisplay} / ${avg} BPM`);
     }
 
+    // HRV（取整显示，避免 tooltip 频繁变化）
+    if (this.hrv) {
+      const { rmssd, sdnn, pnn50 } = this.hrv;
+      lines.push(`💗 HRV: RMSSD ${Math.round(rmssd)} ms · SDNN ${Math.round(sdnn)} ms · pNN50 ${Math.round(pnn50)}%`);
+    }
+
     // 添加监测时长（精确到分钟，避免每秒变化导致 tooltip 高频刷新）
     if (this.sessionDuration > 0) {
       const totalSec = Math.floor(this.sessionDuration / 1000);
@@ -372,6 +534,13 @@ export class StatusBarManager {
         `🔋 精力水平: ${Math.round(this.motionAnalysis.energyLevel)}%`
       );
 
+      // 压力指数
+      if (this.config.showStressIndex) {
+        const stress = this.motionAnalysis.stressIndex;
+        const stressEmoji = stress < 30 ? '😌' : stress < 50 ? '🙂' : stress < 70 ? '😟' : '😣';
+        lines.push(`${stressEmoji} 压力指数: ${stress}/100`);
+      }
+
       // 姿态状态（中文翻译）
       const postureMap: Record<string, { emoji: string; label: string }> = {
         resting: { emoji: '😴', label: '静息' },
@@ -402,6 +571,13 @@ export class StatusBarManager {
 
     lines.push(`━━━━━━━━━━━━━━━━━━━━`);
     lines.push(`🔗 连接状态: ${this.getStatusLabel()}`);
+    if (this.activeSource) {
+      lines.push(`📡 当前数据源: ${this.activeSource}`);
+    }
+    if (this.latency !== null) {
+      const quality = this.latency < 150 ? '良好' : this.latency < 400 ? '一般' : '较差';
+      lines.push(`📶 连接延迟: ${this.latency} ms（${quality}）`);
+    }
     lines.push(``);
     lines.push(`点击断开连接`);
 
@@ -416,30 +592,50 @@ export class StatusBarManager {
     const s = this.healthSnapshot;
 
     if (s.calories !== undefined) {
-      lines.push(`🔥 卡路里: ${Math.round(s.calories)} kcal`);
+      lines.push(`🔥 卡路里: ${Math.round(s.calories)} kcal${this.ageSuffix('calories')}`);
     }
     if (s.stepCount !== undefined) {
-      lines.push(`👟 步数: ${Math.round(s.stepCount)}`);
+      lines.push(`👟 步数: ${Math.round(s.stepCount)}${this.ageSuffix('stepCount')}`);
     }
     if (s.bloodOxygen !== undefined) {
-      lines.push(`🩸 血氧: ${Number(s.bloodOxygen).toFixed(1)}%`);
+      lines.push(`🩸 血氧: ${Number(s.bloodOxygen).toFixed(1)}%${this.ageSuffix('bloodOxygen')}`);
     }
     if (s.distance !== undefined) {
-      lines.push(`📏 距离: ${s.distance.toFixed(2)} km`);
+      lines.push(`📏 距离: ${s.distance.toFixed(2)} km${this.ageSuffix('distance')}`);
     }
     if (s.speed !== undefined) {
-      lines.push(`⚡ 速度: ${s.speed.toFixed(1)} km/h`);
+      lines.push(`⚡ 速度: ${s.speed.toFixed(1)} km/h${this.ageSuffix('speed')}`);
     }
     if (s.bodyMass !== undefined) {
-      lines.push(`⚖️ 体重: ${Number(s.bodyMass).toFixed(1)} kg`);
+      lines.push(`⚖️ 体重: ${Number(s.bodyMass).toFixed(1)} kg${this.ageSuffix('bodyMass')}`);
     }
     if (s.bmi !== undefined) {
-      lines.push(`📐 BMI: ${s.bmi.toFixed(1)}`);
+      lines.push(`📐 BMI: ${s.bmi.toFixed(1)}${this.ageSuffix('bmi')}`);
     }
 
     return lines;
   }
 
+  /**
+   * 健康数据年龄后缀（超过 1 分钟未更新时显示，如「 · 5 分钟前」）
+   */
+  private ageSuffix(type: HealthDataType): string {
+    const updatedAt = this.healthUpdatedAt[type];
+    if (updatedAt === undefined) { return ''; }
+    const ageMs = Date.now() - updatedAt;
+    if (ageMs < HEALTH_AGE_HINT_MS) { return ''; }
+    return ` · ${this.formatAge(Math.floor(ageMs / 1000))}前`;
+  }
+
+  /**
+   * 格式化时长（秒 → 「N 秒 / N 分钟 / N 小时」）
+   */
+  private formatAge(seconds: number): string {
+    if (seconds < 60) { return `${seconds} 秒`; }
+    if (seconds < 3600) { return `${Math.floor(seconds / 60)} 分钟`; }
+    return `${Math.floor(seconds / 3600)} 小时`;
+  }
+
   private getStatusLabel(): string {
     const labels: Record<string, string> = {
       disconnected: '未连接',
@@ -467,6 +663,14 @@ export class StatusBarManager {
     return 'extreme';
   }
 
+  private stopFlash(): void {
+    if (this.flashTimer) {
+      clearInterval(this.flashTimer);
+      this.flashTimer = null;
+      this.statusBarItem.backgroundColor = undefined;
+    }
+  }
+
   /**
    * 启动心跳动画
    */
@@ -544,6 +748,34 @@ export class StatusBarManager {
     this.statusBarItem.tooltip = 'Heart Socket - 设备断开，正在等待重新连接...';
   }
 
+  /**
+   * 渲染重连倒计时文本，到点后停止计时等待连接结果
+   */
+  private renderCountdown(): void {
+    if (!this.reconnectInfo) { return; }
+    const seconds = Math.ceil((this.reconnectInfo.retryAt - Date.now()) / 1000);
+    const attemptLabel = this.formatAttempt(this.reconnectInfo);
+
+    if (seconds <= 0) {
+      this.stopCountdown();
+      this.statusBarItem.text = `$(sync~spin) 重连中...`;
+      return;
+    }
+    this.statusBarItem.text = `$(sync~spin) ${seconds} 秒后重试（${attemptLabel}）`;
+  }
+
+  private formatAttempt(info: ReconnectInfo): string {
+    return info.maxRetries > 0 ? `第 ${info.attempt}/${info.maxRetries} 次` : `第 ${info.attempt} 次`;
+  }
+
+  private stopCountdown(): void {
+    if (this.countdownTimer) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+    this.reconnectInfo = null;
+  }
+
   private showError(): void {
     this.statusBarItem.text = `$(error) Heart Socket`;
     this.statusBarItem.color = new vscode.ThemeColor('charts.red');
@@ -10,6 +10,34 @@ export interface HeartRateData {
   timestamp: number;
   /** 数据来源 */
   source: string;
+  /** 与本次心率同帧到达的 RR 间期 (ms)，数据源不提供时省略 */
+  rrIntervals?: number[];
+}
+
+/** RR 间期数据（BLE 心率带等可提供逐搏间期的数据源） */
+export interface RRIntervalData {
+  /** 本次测量包含的 RR 间期 (ms)，按时间顺序 */
+  intervals: number[];
+  /** 时间戳 (ms) */
+  timestamp: number;
+  /** 数据来源 */
+  source: string;
+}
+
+/** 心率变异性（HRV）时域指标，基于滚动窗口内的 RR 间期 */
+export interface HrvMetrics {
+  /** 相邻 RR 间期差值均方根 (ms) */
+  rmssd: number;
+  /** RR 间期标准差 (ms) */
+  sdnn: number;
+  /** 相邻差值 > 50ms 的比例 (%) */
+  pnn50: number;
+  /** 参与计算的有效间期数 */
+  count: number;
+  /** 窗口长度 (ms) */
+  windowMs: number;
+  /** 计算时间 (ms) */
+  timestamp: number;
 }
 
 /** 健康数据（HDS 扩展数据） */
@@ -93,6 +121,8 @@ export interface MotionAnalysisResult {
   slackingIndex: number;
   /** 精力水平 (0-100) */
   energyLevel: number;
+  /** 压力指数 (0-100)：心率高于个人基线 + HRV 抑制，已扣除体力活动引起的心率升高 */
+  stressIndex: number;
   /** 非工作姿态持续时间 (ms)，posture=active/walking 时有值 */
   postureAlertDuration: number;
   /** 久坐持续时间 (ms) */
@@ -141,7 +171,7 @@ export enum ConnectionStatus {
 }
 
 /** 数据源类型 */
-export type ProviderType = 'hds' | 'hyperate' | 'pulsoid' | 'custom';
+export type ProviderType = 'hds' | 'hds-cloud' | 'hyperate' | 'pulsoid' | 'custom' | 'ble' | 'mqtt';
 
 /** 心率区间（编程场景优化，9 级细粒度划分） */
 export interface HeartRateZones {
@@ -164,18 +194,209 @@ export interface HeartRateZones {
 /** 心率区间名称（9 级） */
 export type HeartRateZoneName = 'low' | 'deepRelax' | 'relax' | 'calm' | 'lightFocus' | 'focused' | 'tense' | 'stressed' | 'extreme';
 
+/** 告警严重程度 */
+export type AlertSeverity = 'info' | 'warning' | 'error';
+
+/** 告警动作：弹窗通知 / 状态栏闪烁 / 执行 VS Code 命令 */
+export type AlertAction = 'notification' | 'statusBarFlash' | 'command';
+
+/** 告警规则条件（所有已设置的条件同时满足才算命中） */
+export interface AlertRuleConditions {
+  /** 心率 ≥ 此值 */
+  bpmAbove?: number;
+  /** 心率 ≤ 此值 */
+  bpmBelow?: number;
+  /** 当前心率区间属于其中之一 */
+  zones?: HeartRateZoneName[];
+  /** 当前姿态属于其中之一 */
+  postures?: PostureState[];
+  /** 当前敲代码强度属于其中之一 */
+  codingIntensities?: CodingIntensityLevel[];
+  /** 是否处于心流状态 */
+  inFlow?: boolean;
+  /** 血氧 (%) < 此值（需数据源提供血氧） */
+  spo2Below?: number;
+  /** 时段起点 "HH:MM"（含） */
+  after?: string;
+  /** 时段终点 "HH:MM"（不含，早于 after 时表示跨午夜） */
+  before?: string;
+}
+
+/** 用户自定义告警规则（heartSocket.alertRules） */
+export interface AlertRule {
+  /** 规则 ID（用于区分冷却 / 持续计时状态） */
+  id: string;
+  /** 显示名称 */
+  name?: string;
+  enabled?: boolean;
+  conditions: AlertRuleConditions;
+  /** 条件需持续满足的时长（秒），默认 0 */
+  durationSeconds?: number;
+  /** 心率条件的回差 (BPM)，默认取 alertHysteresisBpm */
+  hysteresisBpm?: number;
+  severity?: AlertSeverity;
+  /** 消息模板，支持 {name} {bpm} {peak} {duration} {zone} {spo2} {time} */
+  message?: string;
+  /** 冷却时间（秒），默认取 alertCooldown */
+  cooldownSeconds?: number;
+  /** 触发动作，默认 ["notification"] */
+  actions?: AlertAction[];
+  /** actions 含 command 时执行的命令 ID */
+  command?: string;
+  /** 命令参数 */
+  commandArgs?: unknown[];
+}
+
+/** 一次已触发的告警 */
+export interface AlertEvent {
+  /** 告警记录 ID（用于回写用户响应） */
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  bpm: number;
+  /** 持续期间的峰值（低心率规则为最低值） */
+  peak: number;
+  /** 条件已持续的时长 (ms) */
+  durationMs: number;
+  actions: AlertAction[];
+  timestamp: number;
+}
+
+/** 告警 / 提醒类型 */
+export type AlertKind = 'rule' | 'spike' | 'sedentary' | 'posture' | 'flow' | 'signalLoss';
+
+/**
+ * 用户对告警的响应
+ * - pending: 弹窗尚未处理
+ * - acknowledged: 点击了确认类按钮（我知道了 / 收到）
+ * - snoozed: 暂停告警 / 稍后提醒
+ * - adjusted: 打开了阈值 / 规则设置
+ * - dismissed: 直接关闭弹窗
+ * - none: 无弹窗（仅状态栏闪烁 / 执行命令）
+ */
+export type AlertResponse = 'pending' | 'acknowledged' | 'snoozed' | 'adjusted' | 'dismissed' | 'none';
+
+/** 持久化的告警记录 */
+export interface AlertRecord {
+  id: string;
+  timestamp: number;
+  kind: AlertKind;
+  /** 标题（规则名 / 提醒名称） */
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  /** 触发时的关键数值（心率、峰值、持续时长等） */
+  values: Record<string, number | string | boolean>;
+  response: AlertResponse;
+  /** 用户响应时间 */
+  respondedAt?: number;
+}
+
+/** 可配置转换的消息字段（自定义数据源 / MQTT） */
+export type JsonTransformField = 'heartRate' | 'rrIntervals' | HealthDataType;
+
+/**
+ * 字段值转换（按 pick → number → scale → rrToBpm 的顺序执行）
+ */
+export interface JsonFieldTransform {
+  /** 路径匹配到数组时的取值方式 */
+  pick?: 'first' | 'last' | 'average' | 'min' | 'max';
+  /** 宽松的字符串转数字（如 "75 bpm" → 75；纯数字字符串无需开启即可识别） */
+  number?: boolean;
+  /** 倍率（如 0.1 将 0.1 BPM 精度的整数还原，1000 将秒转为毫秒） */
+  scale?: number;
+  /** 将 RR 间期 (ms) 换算为心率（60000 / RR），仅 heartRate 字段有效 */
+  rrToBpm?: boolean;
+}
+
+/** 自定义数据源传输方式 */
+export type CustomTransportType = 'websocket' | 'sse' | 'http-poll' | 'tcp' | 'udp';
+
 /** 插件配置 */
 export interface HeartSocketConfig {
   provider: ProviderType;
+  /** 备用数据源（按优先级排列，非空时启用多数据源融合） */
+  fallbackProviders: ProviderType[];
+  /** 多数据源模式下判定当前数据源静默的秒数 */
+  failoverSilenceSeconds: number;
   websocketUrl: string;
+  /** 旧版明文 Token（仅用于迁移到 SecretStorage，Provider 不再读取） */
   apiToken: string;
   sessionId: string;
+  /** Pulsoid OAuth 客户端 ID */
+  pulsoidClientId: string;
+  /** Pulsoid OAuth 回环回调端口 */
+  pulsoidRedirectPort: number;
   autoConnect: boolean;
   /** HDS Server 模式监听端口 */
   serverPort: number;
+  /** HDS Server 配对模式：Watch 地址需携带配对码 */
+  serverPairing: boolean;
+  /** HDS Server 允许推送数据的来源 IP / 网段（CIDR），为空不限制 */
+  serverAllowedIps: string[];
+  /** HDS Server 单次请求 / 消息大小上限 (KB) */
+  serverMaxRequestSize: number;
+  /** HDS Server 每个来源 IP 每秒最多请求数（0 不限制） */
+  serverRateLimit: number;
+  /** HDS Server 启用 HTTPS / WSS */
+  serverTls: boolean;
+  /** HDS Server 证书文件（PEM），为空时使用自动生成的自签名证书 */
+  serverTlsCertFile: string;
+  /** HDS Server 私钥文件（PEM） */
+  serverTlsKeyFile: string;
+  /** BLE 心率带桥接地址（ws:// 或命名管道路径） */
+  bleBridgeUrl: string;
+  /** MQTT Broker 地址（mqtt:// / mqtts:// / ws:// / wss://） */
+  mqttBrokerUrl: string;
+  /** MQTT 用户名（密码保存在 SecretStorage） */
+  mqttUsername: string;
+  /** MQTT 心率主题（支持 + / # 通配符） */
+  mqttHeartRateTopic: string;
+  /** MQTT 健康数据主题（按数据类型配置，留空不订阅） */
+  mqttHealthTopics: Partial<Record<HealthDataType, string>>;
   alertHighBpm: number;
   alertLowBpm: number;
   alertCooldown: number;
+  /** 告警持续时间（秒）：条件持续满足这么久才告警 */
+  alertSustainSeconds: number;
+  /** 告警回差 (BPM)：告警后需回到阈值另一侧这么多才重新布防 */
+  alertHysteresisBpm: number;
+  /** 心率骤升告警：静坐时窗口内上升幅度阈值 (BPM)，0 = 关闭 */
+  alertSpikeBpm: number;
+  /** 心率骤升告警时间窗口（秒） */
+  alertSpikeWindowSeconds: number;
+  /** 超过该秒数未收到心率即判定信号丢失（0 = 关闭检测） */
+  staleDataSeconds: number;
+  /** 信号丢失时弹出提醒 */
+  staleDataAlert: boolean;
+  /** 重连策略（所有数据源共用） */
+  reconnect: ReconnectConfig;
+  /** 自定义告警规则（为空时由 alertHighBpm / alertLowBpm 生成默认规则） */
+  alertRules: AlertRule[];
+  /** 自定义数据源传输方式 */
+  customTransport: CustomTransportType;
+  /** 自定义数据源 HTTP 轮询间隔（秒） */
+  customPollInterval: number;
+  /** 自定义 WebSocket 握手请求头 */
+  websocketHeaders: Record<string, string>;
+  /** 自定义 WebSocket 子协议（Sec-WebSocket-Protocol） */
+  websocketProtocols: string[];
+  /** Pulsoid WebSocket 握手请求头 */
+  pulsoidWebsocketHeaders: Record<string, string>;
+  /** Pulsoid WebSocket 子协议 */
+  pulsoidWebsocketProtocols: string[];
+  /** HypeRate WebSocket 握手请求头 */
+  hyperateWebsocketHeaders: Record<string, string>;
+  /** HypeRate WebSocket 子协议 */
+  hyperateWebsocketProtocols: string[];
+  /** WebSocket 代理：留空自动检测（http.proxy / 环境变量），"direct" 不使用代理 */
+  proxy: string;
+  /** 额外信任的 CA 证书文件路径（PEM） */
+  tlsCaFile: string;
+  /** 跳过服务器证书校验（仅用于自签名证书调试） */
+  tlsAllowInsecure: boolean;
   heartRateJsonPath: string;
   /** 自定义数据源 — 卡路里字段 JSON 路径（留空不启用） */
   caloriesJsonPath: string;
@@ -191,6 +412,10 @@ export interface HeartSocketConfig {
   bodyMassJsonPath: string;
   /** 自定义数据源 — BMI 字段 JSON 路径（留空不启用） */
   bmiJsonPath: string;
+  /** 自定义数据源 / MQTT — 各字段的值转换 */
+  jsonTransforms: Partial<Record<JsonTransformField, JsonFieldTransform>>;
+  /** 自定义数据源 — RR 间期字段 JSON 路径（留空不启用） */
+  rrIntervalsJsonPath: string;
   statusBarPosition: 'left' | 'right';
   showHeartbeatAnimation: boolean;
   zones: HeartRateZones;
@@ -201,6 +426,19 @@ export interface HeartSocketConfig {
   showCodingIntensity: boolean;
   showFlowState: boolean;
   showSlackingIndex: boolean;
+  showStressIndex: boolean;
+  /** 原始采样保留天数 */
+  sampleRetentionDays: number;
+  /** 启用实时广播服务器（/live） */
+  enableBroadcast: boolean;
+  /** 广播服务器端口 */
+  broadcastPort: number;
+  /** 广播服务器监听地址 */
+  broadcastHost: string;
+  /** 叠加层折线时间窗口（分钟） */
+  overlaySparklineMinutes: number;
+  /** 叠加层显示心流 / 敲代码强度徽章 */
+  overlayShowBadges: boolean;
 }
 
 /**
@@ -213,17 +451,24 @@ export interface IHeartRateProvider {
   readonly status: ConnectionStatus;
   connect(): void;
   disconnect(): void;
+  /** 跳过重连等待立即重试（已放弃重连时重新开始） */
+  retryNow(): void;
   updateConfig(config: HeartSocketConfig): void;
   dispose(): void;
   on(event: 'heartRate', listener: (data: HeartRateData) => void): this;
+  on(event: 'rrInterval', listener: (data: RRIntervalData) => void): this;
   on(event: 'healthData', listener: (data: HealthData) => void): this;
   on(event: 'motionData', listener: (data: MotionData) => void): this;
   on(event: 'statusChange', listener: (status: ConnectionStatus) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
   on(event: 'log', listener: (message: string) => void): this;
+  /** 连接往返延迟 (ms)，作为连接质量指标 */
+  on(event: 'latency', listener: (ms: number) => void): this;
+  /** 已安排下一次重连（用于状态栏倒计时） */
+  on(event: 'reconnectScheduled', listener: (info: ReconnectInfo) => void): this;
 }
 
-/** WebSocket 重连配置 */
+/** 重连策略（由 heartSocket.reconnect* 配置，所有数据源共用） */
 export interface ReconnectConfig {
   /** 初始重连延迟 (ms) */
   initialDelay: number;
@@ -237,6 +482,90 @@ export interface ReconnectConfig {
   jitter: number;
 }
 
+/** 已安排的重连 */
+export interface ReconnectInfo {
+  /** 第几次重连（从 1 开始） */
+  attempt: number;
+  /** 最大重试次数（-1 表示无限） */
+  maxRetries: number;
+  /** 计划重连的时间戳 (ms) */
+  retryAt: number;
+}
+
+/**
+ * 消息传输层（WebSocketClient 与自定义数据源的 SSE / HTTP 轮询 / TCP / UDP 传输共用）
+ *
+ * 事件：message / open / close / error / statusChange
+ */
+export interface IMessageTransport {
+  readonly status: ConnectionStatus;
+  connect(url: string): void;
+  disconnect(): void;
+  /** 发送消息（传输不支持发送或未连接时返回 false） */
+  send(data: string): boolean;
+  /** 连接已失活（如应用层心跳无响应）：强制断开并按退避策略重连 */
+  reconnect(reason: string): void;
+  /** 跳过等待立即重连（正在等待重连或已放弃重连时返回 true，否则不做任何事返回 false） */
+  retryNow(): boolean;
+  /** 更新重连策略（下次安排重连时生效） */
+  setReconnectConfig(config: ReconnectConfig): void;
+  dispose(): void;
+  /** topic: 消息主题（仅 MQTT 等带主题的传输） */
+  on(event: 'message', listener: (data: string, topic?: string) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'close', listener: (code: number, reason: string) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'statusChange', listener: (status: ConnectionStatus) => void): this;
+  /** 心跳往返延迟 (ms)，仅支持心跳的传输（WebSocket / MQTT）派发 */
+  on(event: 'latency', listener: (ms: number) => void): this;
+  on(event: 'reconnectScheduled', listener: (info: ReconnectInfo) => void): this;
+}
+
+/** 解析出的代理 */
+export interface ResolvedProxy {
+  url: string;
+  /** 代理来源（用于日志） */
+  source: string;
+}
+
+/** WebSocket 连接选项（每次连接 / 重连前解析） */
+export interface WebSocketConnectOptions {
+  /** 握手时附加的请求头 */
+  headers?: Record<string, string>;
+  /** Sec-WebSocket-Protocol 子协议 */
+  protocols?: string[];
+  /** 信任的 CA 证书（PEM） */
+  ca?: string[];
+  /** 是否校验服务器证书（默认校验） */
+  rejectUnauthorized?: boolean;
+  /** 经由 HTTP 代理（CONNECT 隧道）连接 */
+  proxy?: ResolvedProxy;
+}
+
+/** HDS Server 访问控制（配对码、来源 IP 白名单、大小与频率限制） */
+export interface ServerAccessPolicy {
+  /** 配对码（null 表示未开启配对模式） */
+  token: string | null;
+  /** 允许的来源 IP / CIDR 网段，为空不限制（本机始终允许） */
+  allowedIps: string[];
+  /** 单次请求体 / WebSocket 消息上限 (bytes) */
+  maxBodyBytes: number;
+  /** 每个来源 IP 每秒最多请求 / 消息数（0 不限制） */
+  rateLimit: number;
+}
+
+/** HDS Server HTTPS 证书 */
+export interface ServerCertificate {
+  /** 证书（PEM，可含证书链） */
+  cert: string;
+  /** 私钥（PEM） */
+  key: string;
+  /** 证书 SHA-256 指纹（冒号分隔的十六进制），供设备固定证书 */
+  fingerprint: string;
+  /** 是否为自动生成的自签名证书 */
+  selfSigned: boolean;
+}
+
 /** Provider 事件回调 */
 export interface ProviderEvents {
   heartRate: (data: HeartRateData) => void;
@@ -279,6 +608,56 @@ export interface DailySummary {
   hourlySamples: number[];
   /** 每小时 BPM 累计和（用于增量计算） */
   hourlyBpmSum: number[];
+  /** 是否由历史导入生成（重复导入时整体覆盖） */
+  imported?: boolean;
+  /** 当日步数（导入数据） */
+  stepCount?: number;
+  /** 当日活动能量 kcal（导入数据） */
+  calories?: number;
+  /** 当日步行/跑步距离 m（导入数据） */
+  distance?: number;
+  /** 当日平均血氧 %（导入数据） */
+  bloodOxygen?: number;
+  /** HRV 记录次数（每分钟一次，用于增量计算平均值） */
+  hrvSamples?: number;
+  /** 当日平均 RMSSD (ms) */
+  hrvRmssd?: number;
+  /** 当日平均 SDNN (ms) */
+  hrvSdnn?: number;
+  /** 当日平均 pNN50 (%) */
+  hrvPnn50?: number;
+  /** 压力指数记录次数（每分钟一次，用于增量计算平均值） */
+  stressSamples?: number;
+  /** 当日平均压力指数 (0-100) */
+  stressAvg?: number;
+  /** 当日最高压力指数 (0-100) */
+  stressMax?: number;
+  /** 当日高压（≥ 70）分钟数 */
+  stressHighMinutes?: number;
+  /** 当日信号中断次数 */
+  signalGaps?: number;
+  /** 当日信号中断总时长（秒） */
+  signalGapSeconds?: number;
+}
+
+/** 原始心率样本（SampleStore 持久化，逐秒分辨率；健康与 Motion 字段为采样时刻的最新值） */
+export interface RawSample extends HealthSnapshot {
+  /** 时间戳 (ms) */
+  ts: number;
+  /** 心率 (BPM) */
+  bpm: number;
+  /** 敲代码强度 */
+  codingIntensity?: CodingIntensityLevel;
+  /** 手腕姿态 */
+  posture?: PostureState;
+  /** 是否处于心流状态 */
+  flowActive?: boolean;
+  /** 摸鱼指数 (0-100) */
+  slackingIndex?: number;
+  /** 精力水平 (0-100) */
+  energyLevel?: number;
+  /** 压力指数 (0-100) */
+  stressIndex?: number;
 }
 
 // ─── WebSocket HTTP 错误 ──────────────────────────
@@ -314,3 +693,85 @@ export class WebSocketError extends Error {
     this.userMessage = params.userMessage;
   }
 }
+
+// ─── 凭据 ─────────────────────────────────────────
+
+/**
+ * 保存在 SecretStorage 中的凭据项
+ * - pulsoidRefreshToken / pulsoidTokenExpiresAt: Pulsoid OAuth 登录时保存，用于自动续期
+ */
+export type CredentialKey =
+  | 'pulsoidToken'
+  | 'pulsoidRefreshToken'
+  | 'pulsoidTokenExpiresAt'
+  | 'hyperateToken'
+  | 'mqttPassword';
+
+/** 凭据异步读取接口（Provider 通过它获取 Token） */
+export interface CredentialAccessor {
+  getCredential(key: CredentialKey): Promise<string | undefined>;
+}
+
+/**
+ * 缺少连接所需凭据（或凭据被服务端拒绝）的错误
+ *
+ * UI 层据此引导用户重新配置数据源或重新登录。
+ */
+export class CredentialError extends Error {
+  /** 缺失或被拒绝的凭据项 */
+  readonly key: CredentialKey;
+  /** 凭据存在但被服务端拒绝（401/403），可尝试续期 */
+  readonly rejected: boolean;
+
+  constructor(key: CredentialKey, message: string, rejected: boolean = false) {
+    super(message);
+    this.name = 'CredentialError';
+    this.key = key;
+    this.rejected = rejected;
+  }
+}
+
+/**
+ * 已达到最大重连次数，停止自动重连
+ *
+ * UI 层据此在网络恢复时自动重新连接。
+ */
+export class ReconnectExhaustedError extends Error {
+  readonly maxRetries: number;
+
+  constructor(maxRetries: number) {
+    super(`已达到最大重连次数 (${maxRetries})，请检查网络连接`);
+    this.name = 'ReconnectExhaustedError';
+    this.maxRetries = maxRetries;
+  }
+}
+
+/**
+ * MQTT Broker 拒绝连接（CONNACK 返回码非 0）
+ *
+ * 返回码：1 协议版本不支持 / 2 客户端 ID 被拒绝 / 3 服务不可用 / 4 用户名或密码错误 / 5 未授权
+ */
+export class MqttConnectError extends Error {
+  readonly returnCode: number;
+  /** 是否为不可重试错误（除服务不可用外均需用户修复配置） */
+  readonly nonRetryable: boolean;
+
+  constructor(returnCode: number, message: string) {
+    super(message);
+    this.name = 'MqttConnectError';
+    this.returnCode = returnCode;
+    this.nonRetryable = returnCode !== 3;
+  }
+}
+
+/**
+ * HDS Server HTTPS 证书无法加载（文件读取失败、格式错误或证书与私钥不匹配）
+ *
+ * UI 层据此引导用户检查 heartSocket.serverTls* 配置。
+ */
+export class ServerCertificateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServerCertificateError';
+  }
+}
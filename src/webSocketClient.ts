@@ -3,18 +3,36 @@
  *
  * 特性：
  * - 指数退避自动重连
- * - 心跳检测
+ * - 心跳检测：ping 后超时未收到 pong 视为半开连接，强制断开并重连；pong 往返时间作为连接延迟
  * - 连接状态管理
  * - 安全的资源释放
+ * - 可选连接选项：请求头、子协议、自定义 CA / 证书校验、HTTP 代理（CONNECT 隧道）
  */
 import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as tls from 'tls';
 import WebSocket from 'ws';
 import type { IncomingMessage } from 'http';
-import { ConnectionStatus, WebSocketError } from './types';
-import type { ReconnectConfig } from './types';
+import { connectViaProxy } from './proxyTunnel';
+import { ConnectionStatus, ReconnectExhaustedError, WebSocketError } from './types';
+import type { IMessageTransport, ReconnectConfig, ReconnectInfo, WebSocketConnectOptions } from './types';
+
+/** 代理隧道建立超时（毫秒） */
+const PROXY_TIMEOUT = 20000;
+
+/** 心跳 ping 间隔（毫秒） */
+const PING_INTERVAL = 30000;
+
+/** 发送 ping 后等待 pong 的期限（毫秒），超时视为连接已失效 */
+const PONG_TIMEOUT = 10000;
+
+/**
+ * 连接选项解析函数：每次连接 / 重连前调用，抛出错误视为配置错误（不再自动重连）
+ */
+export type WebSocketOptionsResolver = (url: string) => WebSocketConnectOptions;
 
 /** 默认重连配置 */
-const DEFAULT_RECONNECT: ReconnectConfig = {
+export const DEFAULT_RECONNECT: ReconnectConfig = {
   initialDelay: 1000,
   maxDelay: 30000,
   backoffFactor: 2,
@@ -22,30 +40,99 @@ const DEFAULT_RECONNECT: ReconnectConfig = {
   jitter: 0.2,
 };
 
+/**
+ * 计算第 attempt 次重连的延迟 (ms)：指数退避 + 抖动（各传输层共用）
+ */
+export function getReconnectDelay(config: ReconnectConfig, attempt: number): number {
+  const { initialDelay, maxDelay, backoffFactor, jitter } = config;
+
+  // 计算延迟：指数退避
+  let delay = initialDelay * Math.pow(backoffFactor, attempt - 1);
+  delay = Math.min(delay, maxDelay);
+
+  // 添加抖动
+  const jitterAmount = delay * jitter;
+  delay += (Math.random() * 2 - 1) * jitterAmount;
+  return Math.max(0, Math.round(delay));
+}
+
+/**
+ * 根据 HTTP 状态码和响应体构造 WebSocketError
+ * - 4xx（除 429）：不可重试，用户需要手动修复（如更换 Token、升级订阅）
+ * - 429 / 5xx：可重试，自动重连
+ */
+export function createHttpError(statusCode: number, body: string): WebSocketError {
+  const is4xx = statusCode >= 400 && statusCode < 500;
+  const nonRetryable = is4xx && statusCode !== 429;
+
+  let userMessage: string;
+  switch (statusCode) {
+    case 401:
+      userMessage = '认证失败：Token 无效或已过期，请检查配置';
+      break;
+    case 402:
+      userMessage = '需要付费订阅才能使用实时心率 API';
+      break;
+    case 403:
+      userMessage = '访问被拒绝：Token 权限不足';
+      break;
+    case 404:
+      userMessage = 'API 地址不存在，请检查配置或数据源是否正确';
+      break;
+    case 429:
+      userMessage = '请求过于频繁，稍后将自动重试';
+      break;
+    default:
+      if (statusCode >= 500) {
+        userMessage = `服务器暂时不可用 (HTTP ${statusCode})，正在自动重试…`;
+      } else {
+        userMessage = `连接被拒绝 (HTTP ${statusCode})`;
+      }
+  }
+
+  return new WebSocketError({
+    httpStatus: statusCode,
+    responseBody: body,
+    nonRetryable,
+    userMessage,
+  });
+}
+
 export interface WebSocketClientEvents {
   message: (data: string) => void;
   open: () => void;
   close: (code: number, reason: string) => void;
   error: (error: Error) => void;
   statusChange: (status: ConnectionStatus) => void;
+  latency: (ms: number) => void;
+  reconnectScheduled: (info: ReconnectInfo) => void;
 }
 
-export class WebSocketClient extends EventEmitter {
+export class WebSocketClient extends EventEmitter implements IMessageTransport {
   private ws: WebSocket | null = null;
   private url: string = '';
   private reconnectConfig: ReconnectConfig;
   private reconnectAttempt: number = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 最近一次 ping 的发送时间（0 表示没有等待中的 ping） */
+  private pingSentAt: number = 0;
   private _status: ConnectionStatus = ConnectionStatus.Disconnected;
   private isManualClose: boolean = false;
   private isDisposed: boolean = false;
   /** 标记当前错误是否不可重试（如 HTTP 4xx），阻止自动重连 */
   private _nonRetryable: boolean = false;
+  /** 已达到最大重连次数而停止重连 */
+  private exhausted: boolean = false;
+  private resolveOptions: WebSocketOptionsResolver | null;
+  /** 连接序号：建立代理隧道期间被断开 / 重连时丢弃过期的隧道 */
+  private connectSeq: number = 0;
 
-  constructor(reconnectConfig?: Partial<ReconnectConfig>) {
+  constructor(reconnectConfig?: Partial<ReconnectConfig>, resolveOptions?: WebSocketOptionsResolver) {
     super();
     this.reconnectConfig = { ...DEFAULT_RECONNECT, ...reconnectConfig };
+    this.resolveOptions = resolveOptions ?? null;
   }
 
   /** 当前连接状态 */
@@ -69,7 +156,9 @@ export class WebSocketClient extends EventEmitter {
     this.url = url;
     this.isManualClose = false;
     this._nonRetryable = false;
+    this.exhausted = false;
     this.reconnectAttempt = 0;
+    this.clearReconnectTimer();
     this.doConnect();
   }
 
@@ -84,6 +173,50 @@ export class WebSocketClient extends EventEmitter {
     this.setStatus(ConnectionStatus.Disconnected);
   }
 
+  /**
+   * 跳过等待立即重连；已放弃重连时从第 1 次重新开始
+   */
+  retryNow(): boolean {
+    if (this.isDisposed || this.isManualClose || this._nonRetryable || !this.url) {
+      return false;
+    }
+    if (this.reconnectTimer) {
+      this.clearReconnectTimer();
+      this.doConnect();
+      return true;
+    }
+    if (this.exhausted) {
+      this.exhausted = false;
+      this.reconnectAttempt = 0;
+      this.doConnect();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 更新重连策略（下次安排重连时生效）
+   */
+  setReconnectConfig(config: ReconnectConfig): void {
+    this.reconnectConfig = { ...config };
+  }
+
+  /**
+   * 连接已失活（如应用层心跳无响应）：强制断开并按退避策略重连
+   */
+  reconnect(reason: string): void {
+    if (this.isDisposed || this.isManualClose || !this.ws || this.reconnectTimer) {
+      return;
+    }
+
+    this.emit('error', new Error(reason));
+    this.stopPing();
+    // 半开连接收不到关闭握手，直接销毁底层 socket
+    this.closeSocket(true);
+    this.emit('close', 1006, reason);
+    this.scheduleReconnect();
+  }
+
   /**
    * 发送消息
    */
@@ -114,8 +247,78 @@ export class WebSocketClient extends EventEmitter {
     this.closeSocket();
     this.setStatus(ConnectionStatus.Connecting);
 
+    let options: WebSocketConnectOptions = {};
+    try {
+      options = this.resolveOptions ? this.resolveOptions(this.url) : {};
+    } catch (error) {
+      // 连接选项无效（如 CA 文件不存在）需用户修正配置，重连无意义
+      this._nonRetryable = true;
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      this.setStatus(ConnectionStatus.Error);
+      return;
+    }
+
+    if (options.proxy) {
+      this.connectThroughProxy(options, options.proxy.url);
+    } else {
+      this.openSocket(options);
+    }
+  }
+
+  /**
+   * 先通过 HTTP 代理建立 CONNECT 隧道，再在隧道上进行 WebSocket 握手
+   */
+  private connectThroughProxy(options: WebSocketConnectOptions, proxyUrl: string): void {
+    const attempt = this.connectSeq;
+    let target: URL;
     try {
-      this.ws = new WebSocket(this.url);
+      target = new URL(this.url);
+    } catch {
+      this.openSocket(options); // 地址无效时交由 WebSocket 报错
+      return;
+    }
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    const port = Number(target.port) || (target.protocol === 'wss:' ? 443 : 80);
+
+    connectViaProxy(proxyUrl, host, port, PROXY_TIMEOUT).then(
+      (tunnel) => {
+        if (attempt !== this.connectSeq || this.isManualClose || this.isDisposed) {
+          tunnel.destroy();
+          return;
+        }
+        this.openSocket(options, tunnel);
+      },
+      (error: Error) => {
+        if (attempt !== this.connectSeq || this.isManualClose || this.isDisposed) {
+          return;
+        }
+        this.emit('error', error);
+        this.scheduleReconnect();
+      }
+    );
+  }
+
+  /**
+   * 创建 WebSocket 并绑定事件（tunnel: 已建立的代理隧道）
+   */
+  private openSocket(options: WebSocketConnectOptions, tunnel?: net.Socket): void {
+    const wsOptions: WebSocket.ClientOptions = {};
+    if (options.headers) { wsOptions.headers = options.headers; }
+    if (options.ca) { wsOptions.ca = options.ca; }
+    if (options.rejectUnauthorized === false) { wsOptions.rejectUnauthorized = false; }
+    if (tunnel) {
+      // wss 需在隧道上自行建立 TLS（ws 默认的 tls.connect 会直连目标主机）
+      wsOptions.createConnection = ((connectOptions: tls.ConnectionOptions) => {
+        if (!/^wss:/i.test(this.url)) {
+          return tunnel;
+        }
+        const servername = connectOptions.host && !net.isIP(connectOptions.host) ? connectOptions.host : undefined;
+        return tls.connect({ ...connectOptions, path: undefined, socket: tunnel, servername });
+      }) as unknown as WebSocket.ClientOptions['createConnection'];
+    }
+
+    try {
+      this.ws = new WebSocket(this.url, options.protocols ?? [], wsOptions);
 
       this.ws.on('open', () => {
         this.reconnectAttempt = 0;
@@ -125,6 +328,8 @@ export class WebSocketClient extends EventEmitter {
       });
 
       this.ws.on('message', (data: WebSocket.RawData) => {
+        // 收到数据同样说明连接存活
+        this.clearPongTimer();
         const message = data.toString();
         this.emit('message', message);
       });
@@ -156,7 +361,7 @@ export class WebSocketClient extends EventEmitter {
           if (this.isDisposed) return;
 
           const body = Buffer.concat(chunks).toString('utf-8');
-          const wsError = this.createHttpError(statusCode, body);
+          const wsError = createHttpError(statusCode, body);
           this.emit('error', wsError);
 
           if (wsError.nonRetryable) {
@@ -181,9 +386,15 @@ export class WebSocketClient extends EventEmitter {
       });
 
       this.ws.on('pong', () => {
-        // 服务器响应了 ping，连接正常
+        // 服务器响应了 ping，连接正常；记录往返延迟
+        this.clearPongTimer();
+        if (this.pingSentAt > 0) {
+          this.emit('latency', Date.now() - this.pingSentAt);
+          this.pingSentAt = 0;
+        }
       });
     } catch (error) {
+      tunnel?.destroy();
       this.emit('error', error instanceof Error ? error : new Error(String(error)));
       if (!this.isManualClose && !this.isDisposed) {
         this.scheduleReconnect();
@@ -195,44 +406,44 @@ export class WebSocketClient extends EventEmitter {
    * 安排重连（指数退避 + 抖动）
    */
   private scheduleReconnect(): void {
-    const { maxRetries, initialDelay, maxDelay, backoffFactor, jitter } =
-      this.reconnectConfig;
+    const { maxRetries } = this.reconnectConfig;
 
     // 检查是否超过最大重试次数
     if (maxRetries !== -1 && this.reconnectAttempt >= maxRetries) {
+      this.exhausted = true;
       this.setStatus(ConnectionStatus.Error);
-      this.emit('error', new Error(`已达到最大重连次数 (${maxRetries})，请检查网络连接`));
+      this.emit('error', new ReconnectExhaustedError(maxRetries));
       return;
     }
 
     this.setStatus(ConnectionStatus.Reconnecting);
     this.reconnectAttempt++;
+    const delay = getReconnectDelay(this.reconnectConfig, this.reconnectAttempt);
 
-    // 计算延迟：指数退避
-    let delay = initialDelay * Math.pow(backoffFactor, this.reconnectAttempt - 1);
-    delay = Math.min(delay, maxDelay);
-
-    // 添加抖动
-    const jitterAmount = delay * jitter;
-    delay += (Math.random() * 2 - 1) * jitterAmount;
-    delay = Math.max(0, Math.round(delay));
-
+    this.clearReconnectTimer();
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
       this.doConnect();
     }, delay);
+    this.emit('reconnectScheduled', { attempt: this.reconnectAttempt, maxRetries, retryAt: Date.now() + delay });
   }
 
   /**
-   * 启动心跳 ping（每30秒）
+   * 启动心跳 ping（每 30 秒），超时未收到 pong 则强制重连
    */
   private startPing(): void {
     this.stopPing();
     this.pingTimer = setInterval(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.ping();
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN || this.pongTimer) {
+        return;
       }
-    }, 30000);
+      this.pingSentAt = Date.now();
+      this.ws.ping();
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        this.reconnect(`心跳超时：${PONG_TIMEOUT / 1000} 秒内未收到服务器响应，连接可能已中断`);
+      }, PONG_TIMEOUT);
+    }, PING_INTERVAL);
   }
 
   private stopPing(): void {
@@ -240,9 +451,19 @@ export class WebSocketClient extends EventEmitter {
       clearInterval(this.pingTimer);
       this.pingTimer = null;
     }
+    this.clearPongTimer();
+    this.pingSentAt = 0;
   }
 
-  private closeSocket(): void {
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private closeSocket(terminate: boolean = false): void {
+    this.connectSeq++;
     if (this.ws) {
       try {
         // 逐事件移除，避免影响 ws 库内部可能的监听器
@@ -252,7 +473,11 @@ export class WebSocketClient extends EventEmitter {
         this.ws.removeAllListeners('error');
         this.ws.removeAllListeners('unexpected-response');
         this.ws.removeAllListeners('pong');
-        if (
+        // 连接中关闭会异步派发 error，需保留空监听避免未处理的 error 事件
+        this.ws.on('error', () => { /* 忽略 */ });
+        if (terminate) {
+          this.ws.terminate();
+        } else if (
           this.ws.readyState === WebSocket.OPEN ||
           this.ws.readyState === WebSocket.CONNECTING
         ) {
@@ -267,6 +492,10 @@ export class WebSocketClient extends EventEmitter {
 
   private clearTimers(): void {
     this.stopPing();
+    this.clearReconnectTimer();
+  }
+
+  private clearReconnectTimer(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
@@ -279,46 +508,4 @@ export class WebSocketClient extends EventEmitter {
       this.emit('statusChange', status);
     }
   }
-
-  /**
-   * 根据 HTTP 状态码和响应体构造 WebSocketError
-   * - 4xx（除 429）：不可重试，用户需要手动修复（如更换 Token、升级订阅）
-   * - 429 / 5xx：可重试，自动重连
-   */
-  private createHttpError(statusCode: number, body: string): WebSocketError {
-    const is4xx = statusCode >= 400 && statusCode < 500;
-    const nonRetryable = is4xx && statusCode !== 429;
-
-    let userMessage: string;
-    switch (statusCode) {
-      case 401:
-        userMessage = '认证失败：Token 无效或已过期，请检查配置';
-        break;
-      case 402:
-        userMessage = '需要付费订阅才能使用实时心率 API';
-        break;
-      case 403:
-        userMessage = '访问被拒绝：Token 权限不足';
-        break;
-      case 404:
-        userMessage = 'API 地址不存在，请检查配置或数据源是否正确';
-        break;
-      case 429:
-        userMessage = '请求过于频繁，稍后将自动重试';
-        break;
-      default:
-        if (statusCode >= 500) {
-          userMessage = `服务器暂时不可用 (HTTP ${statusCode})，正在自动重试…`;
-        } else {
-          userMessage = `连接被拒绝 (HTTP ${statusCode})`;
-        }
-    }
-
-    return new WebSocketError({
-      httpStatus: statusCode,
-      responseBody: body,
-      nonRetryable,
-      userMessage,
-    });
-  }
 }
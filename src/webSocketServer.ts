@@ -6,19 +6,63 @@
  * HDS Watch App 通过 HTTP PUT 请求发送心率数据（而非 WebSocket）。
  * 数据格式：PUT / → {"data": "heartRate:75"}
  *
- * 同时保留 WebSocket 支持，用于未来 Overlay 连接或自定义客户端。
+ * 同时保留 WebSocket 支持，用于自定义客户端推送数据。
+ * 对外广播（Overlay / 看板订阅）由独立的 BroadcastServer 负责；开启广播后挂载到本服务（setOverlayRelay），
+ * 同样提供 `GET /overlay` 叠加层页面与 `/live` 订阅：开启配对模式时需携带配对码，否则仅限本机访问。
+ *
+ * 访问控制（见 ServerAccessPolicy）：
+ * - 配对码：开启配对模式后，推送地址需携带配对码 —— `PUT /<配对码>/`（Watch 地址）、
+ *   `?token=<配对码>` 或 `Authorization: Bearer <配对码>`（自定义客户端）
+ * - 来源 IP 白名单（支持 CIDR），本机始终允许
+ * - 请求体 / 消息大小上限、每个来源 IP 的频率限制
+ * 被拒绝的请求按来源与原因节流记录日志。
+ *
+ * 传入证书时以 HTTPS / WSS 方式监听（见 serverCertificate.ts）。
  */
+import * as crypto from 'crypto';
 import { EventEmitter } from 'events';
 import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import type { Duplex } from 'stream';
 import { WebSocketServer, WebSocket } from 'ws';
+import type { VerifyClientCallbackAsync } from 'ws';
 import { ConnectionStatus } from './types';
+import type { ServerAccessPolicy, ServerCertificate } from './types';
+
+/** 同一来源同一原因的拒绝日志最短间隔 (ms)，期间的重复拒绝只计数 */
+const REJECT_LOG_INTERVAL = 60_000;
+/** 频率统计 / 拒绝日志表的容量上限，超出时清理过期条目 */
+const MAX_TRACKED_SOURCES = 1000;
+
+/** 解析后的请求（路径已去除配对码前缀） */
+interface ParsedRequest {
+  path: string;
+  /** 是否携带了正确的配对码（未开启配对模式时恒为 true） */
+  authorized: boolean;
+  /** 日志中显示的 URL（配对码已打码） */
+  displayUrl: string;
+}
+
+/** 挂载到 HDS Server 的直播叠加层（由 BroadcastServer 实现） */
+export interface OverlayRelay {
+  /** 返回叠加层页面 */
+  serveOverlay(res: http.ServerResponse): void;
+  /** 接管 `/live` 订阅的 WebSocket 升级请求 */
+  acceptSubscriber(req: http.IncomingMessage, socket: Duplex, head: Buffer): void;
+}
+
+/** 叠加层页面与订阅路径 */
+const OVERLAY_PATH = '/overlay';
+const LIVE_PATH = '/live';
 
 export class HeartSocketServer extends EventEmitter {
-  private httpServer: http.Server | null = null;
+  private httpServer: http.Server | https.Server | null = null;
   private wsServer: WebSocketServer | null = null;
   private wsClient: WebSocket | null = null;
   private _status: ConnectionStatus = ConnectionStatus.Disconnected;
   private _port: number = 8580;
+  private _secure: boolean = false;
 
   /** 是否有 Watch 通过 HTTP 发送过数据（用于判断连接状态） */
   private httpActive: boolean = false;
@@ -27,6 +71,17 @@ export class HeartSocketServer extends EventEmitter {
   /** HTTP 数据超时时间：超过此时间没收到数据视为 Watch 断开 */
   private static readonly HTTP_TIMEOUT_MS = 15_000;
 
+  // 访问控制
+  private policy: ServerAccessPolicy = { token: null, allowedIps: [], maxBodyBytes: 64 * 1024, rateLimit: 0 };
+  /** 来源 IP 白名单（null 表示不限制） */
+  private allowList: net.BlockList | null = null;
+  /** 每个来源 IP 当前 1 秒窗口内的请求数 */
+  private rateWindows: Map<string, { start: number; count: number }> = new Map();
+  /** 拒绝日志节流：来源 + 原因 → 上次记录时间与期间被省略的次数 */
+  private rejectLog: Map<string, { lastLogged: number; suppressed: number }> = new Map();
+  /** 直播叠加层（未挂载时 /overlay 与 /live 返回 404） */
+  private overlayRelay: OverlayRelay | null = null;
+
   get status(): ConnectionStatus {
     return this._status;
   }
@@ -35,27 +90,77 @@ export class HeartSocketServer extends EventEmitter {
     return this._port;
   }
 
+  /** 是否以 HTTPS / WSS 方式监听 */
+  get secure(): boolean {
+    return this._secure;
+  }
+
+  /**
+   * 更新访问控制策略（立即生效，无需重启服务）
+   */
+  setAccessPolicy(policy: ServerAccessPolicy): void {
+    this.policy = policy;
+    this.allowList = this.buildAllowList(policy.allowedIps);
+    this.rateWindows.clear();
+    if (this.wsServer) {
+      this.wsServer.options.maxPayload = policy.maxBodyBytes;
+    }
+  }
+
+  /**
+   * 挂载直播叠加层（/overlay 页面与 /live 订阅），传入 null 卸载
+   */
+  setOverlayRelay(relay: OverlayRelay | null): void {
+    this.overlayRelay = relay;
+  }
+
   /**
    * 启动 HTTP + WebSocket 混合服务端
+   *
+   * @param tls 传入证书时以 HTTPS / WSS 方式监听
    */
-  start(port: number): void {
+  start(port: number, tls?: ServerCertificate | null): void {
     if (this.httpServer) {
       this.stop();
     }
 
     this._port = port;
+    this._secure = !!tls;
     this.setStatus(ConnectionStatus.Connecting);
 
     try {
-      // 创建 HTTP 服务器（处理 Watch 的 PUT 请求）
-      this.httpServer = http.createServer((req, res) => {
+      // 创建 HTTP(S) 服务器（处理 Watch 的 PUT 请求）
+      const handler = (req: http.IncomingMessage, res: http.ServerResponse) => {
         this.handleHttpRequest(req, res);
+      };
+      this.httpServer = tls
+        ? https.createServer({ cert: tls.cert, key: tls.key }, handler)
+        : http.createServer(handler);
+
+      // TLS 握手失败（如设备不信任自签名证书）不影响服务，按拒绝日志节流记录
+      this.httpServer.on('tlsClientError', (err: Error, socket: net.Socket) => {
+        this.logRejection(this.getRemoteIp(socket) || '未知来源', `TLS 握手失败: ${err.message}`);
       });
 
-      // 在 HTTP 服务器上附加 WebSocket 支持（用于未来 Overlay 连接）
-      this.wsServer = new WebSocketServer({ server: this.httpServer });
-      this.wsServer.on('connection', (ws: WebSocket) => {
-        this.handleWsConnection(ws);
+      // 在 HTTP 服务器上附加 WebSocket 支持（自定义客户端推送数据）
+      this.wsServer = new WebSocketServer({
+        noServer: true,
+        maxPayload: this.policy.maxBodyBytes,
+        verifyClient: this.verifyWsClient,
+      });
+      this.wsServer.on('connection', (ws: WebSocket, req: http.IncomingMessage) => {
+        this.handleWsConnection(ws, this.getRemoteIp(req.socket));
+      });
+
+      // /live 交给叠加层订阅，其余路径为数据推送
+      this.httpServer.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+        if (this.overlayRelay && this.parseRequest(req).path === LIVE_PATH) {
+          this.handleLiveUpgrade(req, socket, head, this.overlayRelay);
+          return;
+        }
+        this.wsServer?.handleUpgrade(req, socket, head, (ws) => {
+          this.wsServer?.emit('connection', ws, req);
+        });
       });
 
       this.httpServer.on('listening', () => {
@@ -82,6 +187,8 @@ export class HeartSocketServer extends EventEmitter {
   stop(): void {
     this.clearHttpTimeout();
     this.httpActive = false;
+    this.rateWindows.clear();
+    this.rejectLog.clear();
 
     if (this.wsClient) {
       this.wsClient.removeAllListeners();
@@ -118,10 +225,20 @@ export class HeartSocketServer extends EventEmitter {
     // 设置 CORS 头
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    const ip = this.getRemoteIp(req.socket);
+    const request = this.parseRequest(req);
 
     // 记录所有请求（调试用）
-    this.emit('log', `[HTTP] ${req.method} ${req.url} from ${req.socket.remoteAddress}`);
+    this.emit('log', `[HTTP] ${req.method} ${request.displayUrl} from ${ip}`);
+
+    // 来源 IP 白名单与频率限制
+    const rejection = this.checkSource(ip);
+    if (rejection) {
+      this.reject(res, ip, rejection.status, rejection.reason);
+      return;
+    }
 
     // OPTIONS 预检请求
     if (req.method === 'OPTIONS') {
@@ -130,20 +247,31 @@ export class HeartSocketServer extends EventEmitter {
       return;
     }
 
-    // HDS Watch App 使用 PUT / 发送心率数据
-    if (req.method === 'PUT' && req.url === '/') {
-      this.handlePutRequest(req, res);
+    // 推送请求必须携带配对码（路径中的配对码错误时同样拒绝并记录，而非 404）
+    if ((req.method === 'PUT' || req.method === 'POST') && !request.authorized) {
+      this.reject(res, ip, 401, '配对码缺失或错误（Watch 需使用带配对码的新地址）');
       return;
     }
 
-    // 也支持 POST（某些 HDS 版本可能用 POST）
-    if (req.method === 'POST' && req.url === '/') {
-      this.handlePutRequest(req, res);
+    // HDS Watch App 使用 PUT / 发送心率数据（也支持 POST，某些 HDS 版本可能用 POST）
+    if ((req.method === 'PUT' || req.method === 'POST') && request.path === '/') {
+      this.handlePutRequest(req, res, ip);
+      return;
+    }
+
+    // GET /overlay 直播叠加层页面（避免局域网内任意设备读取心率）
+    if (req.method === 'GET' && request.path === OVERLAY_PATH && this.overlayRelay) {
+      const rejection = this.checkOverlayAccess(ip, request);
+      if (rejection) {
+        this.reject(res, ip, rejection.status, rejection.reason);
+        return;
+      }
+      this.overlayRelay.serveOverlay(res);
       return;
     }
 
     // GET / 返回状态页（方便浏览器验证服务是否运行）
-    if (req.method === 'GET' && req.url === '/') {
+    if (req.method === 'GET' && request.path === '/') {
       res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
       res.end('Heart Socket Server is running 💓');
       return;
@@ -153,14 +281,39 @@ export class HeartSocketServer extends EventEmitter {
     res.end();
   }
 
-  private handlePutRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
-    let body = '';
+  private handlePutRequest(req: http.IncomingMessage, res: http.ServerResponse, ip: string): void {
+    const maxBytes = this.policy.maxBodyBytes;
+    const tooLarge = `请求体超过 ${Math.round(maxBytes / 1024)} KB 上限`;
+
+    const declaredLength = Number(req.headers['content-length']);
+    if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+      this.reject(res, ip, 413, tooLarge);
+      res.once('finish', () => req.destroy());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let aborted = false;
 
     req.on('data', (chunk: Buffer | string) => {
-      body += typeof chunk === 'string' ? chunk : chunk.toString('utf-8');
+      if (aborted) { return; }
+      const buf = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk;
+      received += buf.length;
+      if (received > maxBytes) {
+        // 未声明长度（分块传输）时边收边检查，超限立即断开
+        aborted = true;
+        chunks.length = 0;
+        this.reject(res, ip, 413, tooLarge);
+        res.once('finish', () => req.destroy());
+        return;
+      }
+      chunks.push(buf);
     });
 
     req.on('end', () => {
+      if (aborted) { return; }
+      const body = Buffer.concat(chunks).toString('utf-8');
       this.emit('log', `[HTTP] Body received: ${body.substring(0, 200)}`);
 
       try {
@@ -204,12 +357,210 @@ export class HeartSocketServer extends EventEmitter {
     });
 
     req.on('error', (err: Error) => {
+      if (aborted) { return; }
       this.emit('error', err);
       res.writeHead(500);
       res.end();
     });
   }
 
+  // ─── 访问控制 ───
+
+  /**
+   * WebSocket 握手校验：来源 IP、频率限制与配对码
+   */
+  private verifyWsClient: VerifyClientCallbackAsync = (info, callback) => {
+    const rejection = this.checkUpgrade(info.req);
+    if (rejection) {
+      callback(false, rejection.status);
+      return;
+    }
+    callback(true);
+  };
+
+  /**
+   * 叠加层订阅（/live）：在数据推送校验的基础上限制叠加层访问范围，通过后交给 OverlayRelay（另行校验 Origin）
+   */
+  private handleLiveUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer, relay: OverlayRelay): void {
+    const ip = this.getRemoteIp(req.socket);
+    const overlayRejection = this.checkOverlayAccess(ip, this.parseRequest(req));
+    if (overlayRejection) {
+      this.logRejection(ip, overlayRejection.reason);
+    }
+    const rejection = overlayRejection ?? this.checkUpgrade(req);
+    if (rejection) {
+      socket.write(`HTTP/1.1 ${rejection.status} ${http.STATUS_CODES[rejection.status]}\r\n\r\n`);
+      socket.destroy();
+      return;
+    }
+    relay.acceptSubscriber(req, socket, head);
+  }
+
+  /**
+   * 叠加层访问范围：开启配对模式时需携带配对码，未开启时仅允许本机
+   */
+  private checkOverlayAccess(ip: string, request: ParsedRequest): { status: number; reason: string } | null {
+    if (this.policy.token === null) {
+      return isLoopback(ip) ? null : { status: 403, reason: '未开启配对模式时叠加层仅限本机访问' };
+    }
+    return request.authorized ? null : { status: 401, reason: '叠加层配对码缺失或错误' };
+  }
+
+  /**
+   * WebSocket 升级请求的来源、频率与配对码校验（拒绝时已记录日志）
+   */
+  private checkUpgrade(req: http.IncomingMessage): { status: number; reason: string } | null {
+    const ip = this.getRemoteIp(req.socket);
+    const rejection = this.checkSource(ip) ??
+      (this.parseRequest(req).authorized ? null : { status: 401, reason: 'WebSocket 配对码缺失或错误' });
+    if (rejection) {
+      this.logRejection(ip, rejection.reason);
+    }
+    return rejection;
+  }
+
+  /**
+   * 解析请求路径与配对码：`/<配对码>/...` 前缀、`?token=` 或 `Authorization: Bearer`
+   */
+  private parseRequest(req: http.IncomingMessage): ParsedRequest {
+    const rawUrl = req.url ?? '/';
+    const token = this.policy.token;
+
+    let url: URL;
+    try {
+      url = new URL(rawUrl, 'http://localhost');
+    } catch {
+      return { path: rawUrl, authorized: token === null, displayUrl: rawUrl };
+    }
+
+    if (token === null) {
+      return { path: url.pathname, authorized: true, displayUrl: rawUrl };
+    }
+
+    const displayUrl = rawUrl.split(token).join('***');
+    const prefix = /^\/([^/]+)(\/.*)?$/.exec(url.pathname);
+    if (prefix && this.tokenMatches(prefix[1])) {
+      return { path: prefix[2] ?? '/', authorized: true, displayUrl };
+    }
+
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    const presented = url.searchParams.get('token') ?? bearer?.[1] ?? null;
+    return { path: url.pathname, authorized: presented !== null && this.tokenMatches(presented), displayUrl };
+  }
+
+  /** 常量时间比较配对码 */
+  private tokenMatches(candidate: string): boolean {
+    const token = this.policy.token;
+    if (token === null) { return true; }
+    const expected = Buffer.from(token, 'utf-8');
+    const actual = Buffer.from(candidate, 'utf-8');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * 检查来源 IP 白名单并计入频率限制
+   *
+   * @returns 需要拒绝时返回状态码与原因
+   */
+  private checkSource(ip: string): { status: number; reason: string } | null {
+    if (this.allowList && !isLoopback(ip) && !this.allowList.check(ip, net.isIPv6(ip) ? 'ipv6' : 'ipv4')) {
+      return { status: 403, reason: '来源 IP 不在白名单中（heartSocket.serverAllowedIps）' };
+    }
+    if (!this.consumeRate(ip)) {
+      return { status: 429, reason: `超过频率限制（每秒 ${this.policy.rateLimit} 次）` };
+    }
+    return null;
+  }
+
+  /**
+   * 计入一次请求 / 消息，返回是否在频率限制内（固定 1 秒窗口）
+   */
+  private consumeRate(ip: string): boolean {
+    const limit = this.policy.rateLimit;
+    if (limit <= 0) { return true; }
+
+    const now = Date.now();
+    let window = this.rateWindows.get(ip);
+    if (!window || now - window.start >= 1000) {
+      if (!window && this.rateWindows.size >= MAX_TRACKED_SOURCES) {
+        for (const [key, w] of this.rateWindows) {
+          if (now - w.start >= 1000) { this.rateWindows.delete(key); }
+        }
+      }
+      window = { start: now, count: 0 };
+      this.rateWindows.set(ip, window);
+    }
+    window.count++;
+    return window.count <= limit;
+  }
+
+  /**
+   * 拒绝 HTTP 请求并记录日志
+   */
+  private reject(res: http.ServerResponse, ip: string, status: number, reason: string): void {
+    this.logRejection(ip, reason);
+    res.writeHead(status, { 'Connection': 'close' });
+    res.end();
+  }
+
+  /**
+   * 记录被拒绝的请求：同一来源同一原因每 60 秒最多记录一次，其余计数后在下次记录时汇总
+   */
+  private logRejection(ip: string, reason: string): void {
+    const key = `${ip} ${reason}`;
+    const now = Date.now();
+    const entry = this.rejectLog.get(key);
+
+    if (entry && now - entry.lastLogged < REJECT_LOG_INTERVAL) {
+      entry.suppressed++;
+      return;
+    }
+
+    const suppressed = entry?.suppressed ?? 0;
+    if (!entry && this.rejectLog.size >= MAX_TRACKED_SOURCES) {
+      this.rejectLog.clear();
+    }
+    this.rejectLog.set(key, { lastLogged: now, suppressed: 0 });
+    this.emit('log', `[HDS] 🚫 已拒绝来自 ${ip} 的请求：${reason}${suppressed > 0 ? `（此前另有 ${suppressed} 次）` : ''}`);
+  }
+
+  /**
+   * 解析来源 IP 白名单（单个地址或 CIDR 网段），无效条目记录日志后忽略
+   *
+   * 配置了条目但全部无效时仍返回空名单（仅允许本机），避免误配置导致放行所有来源
+   */
+  private buildAllowList(entries: string[]): net.BlockList | null {
+    const valid = entries.map((e) => e.trim()).filter((e) => e.length > 0);
+    if (valid.length === 0) {
+      return null;
+    }
+
+    const list = new net.BlockList();
+    for (const entry of valid) {
+      const [address, prefix] = entry.split('/');
+      const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+      try {
+        if (!type || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+          throw new Error('格式无效');
+        }
+        if (prefix !== undefined) {
+          list.addSubnet(address, Number(prefix), type);
+        } else {
+          list.addAddress(address, type);
+        }
+      } catch {
+        this.emit('log', `[HDS] ⚠️ 忽略无效的来源 IP 白名单条目: "${entry}"`);
+      }
+    }
+    return list;
+  }
+
+  /** 来源 IP（IPv4 映射的 IPv6 地址还原为 IPv4） */
+  private getRemoteIp(socket: net.Socket): string {
+    const address = socket.remoteAddress ?? '';
+    return address.startsWith('::ffff:') && net.isIPv4(address.slice(7)) ? address.slice(7) : address;
+  }
+
   // ─── HTTP 超时检测（判断 Watch 是否断开）───
 
   private resetHttpTimeout(): void {
@@ -230,9 +581,9 @@ export class HeartSocketServer extends EventEmitter {
     }
   }
 
-  // ─── WebSocket 连接处理（未来 Overlay 用）───
+  // ─── WebSocket 连接处理（入站数据源）───
 
-  private handleWsConnection(ws: WebSocket): void {
+  private handleWsConnection(ws: WebSocket, ip: string): void {
     if (this.wsClient) {
       this.wsClient.removeAllListeners();
       this.wsClient.close();
@@ -246,6 +597,10 @@ export class HeartSocketServer extends EventEmitter {
     }
 
     ws.on('message', (data: Buffer | string) => {
+      if (!this.consumeRate(ip)) {
+        this.logRejection(ip, `WebSocket 消息超过频率限制（每秒 ${this.policy.rateLimit} 条）`);
+        return;
+      }
       const message = typeof data === 'string' ? data : data.toString('utf-8');
       this.emit('message', message);
     });
@@ -258,7 +613,12 @@ export class HeartSocketServer extends EventEmitter {
       }
     });
 
-    ws.on('error', (err: Error) => {
+    ws.on('error', (err: Error & { code?: string }) => {
+      // 消息超出大小上限：ws 已以 1009 关闭连接
+      if (err.code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH') {
+        this.logRejection(ip, `WebSocket 消息超过 ${Math.round(this.policy.maxBodyBytes / 1024)} KB 上限`);
+        return;
+      }
       this.emit('error', err);
     });
   }
@@ -270,3 +630,8 @@ export class HeartSocketServer extends EventEmitter {
     }
   }
 }
+
+/** 是否为本机回环地址 */
+function isLoopback(ip: string): boolean {
+  return ip === '::1' || ip.startsWith('127.');
+}
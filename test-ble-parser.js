@@ -0,0 +1,63 @@
+/**
+ * Heart Socket BLE 心率帧解析测试
+ *
+ * 回放 test-ble-capture.txt 中的桥接帧，逐帧校验
+ * decodeBridgeFrame + parseHeartRateMeasurement 的解析结果。
+ *
+ * 使用方法：
+ *   node test-ble-parser.js
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const Module = require('module');
+const esbuild = require('esbuild');
+
+/** 抓包中每一帧的期望结果（null 表示应被忽略） */
+const EXPECTED = [
+  { bpm: 75, sensorContact: true, energyExpended: null, rrIntervals: [775] },
+  { bpm: 76, sensorContact: true, energyExpended: null, rrIntervals: [758] },
+  { bpm: 77, sensorContact: true, energyExpended: null, rrIntervals: [742, 734] },
+  { bpm: 78, sensorContact: true, energyExpended: null, rrIntervals: [738] },
+  { bpm: 78, sensorContact: false, energyExpended: null, rrIntervals: [] },
+  { bpm: 180, sensorContact: null, energyExpended: 300, rrIntervals: [] },
+  null,
+  null,
+];
+
+/** 编译 src/heartRateMeasurement.ts（不依赖 VS Code API） */
+function loadParser() {
+  const result = esbuild.buildSync({
+    entryPoints: ['src/heartRateMeasurement.ts'],
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    write: false,
+    logLevel: 'silent',
+  });
+  const mod = new Module('heartRateMeasurement');
+  mod._compile(result.outputFiles[0].text, 'heartRateMeasurement.js');
+  return mod.exports;
+}
+
+function main() {
+  const { decodeBridgeFrame, parseHeartRateMeasurement } = loadParser();
+  const frames = fs.readFileSync('test-ble-capture.txt', 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim() && !line.startsWith('#'));
+  assert.strictEqual(frames.length, EXPECTED.length, '抓包帧数与期望结果数量不一致');
+
+  frames.forEach((frame, i) => {
+    const bytes = decodeBridgeFrame(frame);
+    const measurement = bytes ? parseHeartRateMeasurement(bytes) : null;
+    assert.deepStrictEqual(measurement, EXPECTED[i], `第 ${i + 1} 帧解析结果不符: ${frame}`);
+  });
+  console.log(`✅ ${frames.length} 帧解析结果全部符合预期`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
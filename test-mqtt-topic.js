@@ -0,0 +1,64 @@
+/**
+ * Heart Socket MQTT 主题匹配测试
+ *
+ * 按 MQTT 3.1.1 §4.7 校验 mqttTopicMatches 的通配符语义：
+ * - `+` 匹配单级，`#` 匹配剩余层级（含父级）
+ * - 首级通配符不匹配以 `$` 开头的主题
+ *
+ * 使用方法：
+ *   node test-mqtt-topic.js
+ */
+
+const assert = require('assert');
+const Module = require('module');
+const esbuild = require('esbuild');
+
+/** [过滤器, 主题, 期望是否匹配] */
+const CASES = [
+  ['polar/hr', 'polar/hr', true],
+  ['polar/hr', 'polar/hr/raw', false],
+  ['polar/hr', 'polar', false],
+  ['polar/+', 'polar/hr', true],
+  ['polar/+', 'polar', false],
+  ['polar/+', 'polar/hr/raw', false],
+  ['+/hr', 'polar/hr', true],
+  ['+/+', '/hr', true],
+  ['polar/#', 'polar/hr/raw', true],
+  ['polar/#', 'polar', true],
+  ['polar/#', 'garmin/hr', false],
+  ['#', 'polar/hr', true],
+  ['#', '$SYS/broker/uptime', false],
+  ['+/broker/uptime', '$SYS/broker/uptime', false],
+  ['$SYS/#', '$SYS/broker/uptime', true],
+  ['$SYS/+/uptime', '$SYS/broker/uptime', true],
+];
+
+/** 编译 src/mqttClient.ts（不依赖 VS Code API） */
+function loadMqttClient() {
+  const result = esbuild.buildSync({
+    entryPoints: ['src/mqttClient.ts'],
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    write: false,
+    logLevel: 'silent',
+  });
+  const mod = new Module('mqttClient');
+  mod._compile(result.outputFiles[0].text, 'mqttClient.js');
+  return mod.exports;
+}
+
+function main() {
+  const { mqttTopicMatches } = loadMqttClient();
+  for (const [filter, topic, expected] of CASES) {
+    assert.strictEqual(mqttTopicMatches(filter, topic), expected, `${filter} 匹配 ${topic} 应为 ${expected}`);
+  }
+  console.log(`✅ ${CASES.length} 个主题匹配用例全部通过`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,151 @@
+/**
+ * Heart Socket Pulsoid OAuth 登录测试
+ *
+ * 启动本地模拟授权服务器，验证 PulsoidAuth 的授权码 + PKCE 流程：
+ * - 授权 URL 携带 code_challenge（S256），换取 Token 时提交匹配的 code_verifier，不发送 Client Secret
+ * - state 不匹配的回调被拒绝，但不会中断登录
+ * - Refresh Token 续期
+ *
+ * 使用方法：
+ *   node test-pulsoid-oauth.js
+ */
+
+const assert = require('assert');
+const crypto = require('crypto');
+const http = require('http');
+const Module = require('module');
+const esbuild = require('esbuild');
+
+const CLIENT_ID = 'heart-socket-test';
+const REDIRECT_PORT = 18583;
+
+/** 编译 src/pulsoidAuth.ts（仅依赖 Node 内置模块） */
+function loadPulsoidAuth() {
+  const result = esbuild.buildSync({
+    entryPoints: ['src/pulsoidAuth.ts'],
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    write: false,
+    logLevel: 'silent',
+  });
+  const mod = new Module('pulsoidAuth');
+  mod._compile(result.outputFiles[0].text, 'pulsoidAuth.js');
+  return mod.exports;
+}
+
+/** 内存凭据存储 */
+function createStore() {
+  const data = new Map();
+  return {
+    data,
+    getCredential: async (key) => data.get(key),
+    setCredential: async (key, value) => { data.set(key, value); },
+    deleteCredential: async (key) => { data.delete(key); },
+  };
+}
+
+/** 模拟授权服务器：只实现 Token 端点，授权页由测试直接模拟浏览器回调 */
+function startAuthServer(challenges) {
+  const tokenRequests = [];
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const params = Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString()));
+      tokenRequests.push(params);
+      const reply = (status, body) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (params.client_secret !== undefined) {
+        return reply(400, { error: 'invalid_request', error_description: '公共客户端不应发送 client_secret' });
+      }
+      if (params.grant_type === 'authorization_code') {
+        const challenge = challenges.get(params.code);
+        const expected = crypto.createHash('sha256').update(params.code_verifier ?? '').digest('base64url');
+        if (!challenge || challenge !== expected) {
+          return reply(400, { error: 'invalid_grant', error_description: 'code_verifier 不匹配' });
+        }
+        return reply(200, { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 });
+      }
+      if (params.grant_type === 'refresh_token' && params.refresh_token === 'refresh-1') {
+        return reply(200, { access_token: 'access-2', expires_in: 3600 });
+      }
+      reply(400, { error: 'invalid_grant' });
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, tokenRequests, port: server.address().port }));
+  });
+}
+
+function get(url) {
+  return new Promise((resolve, reject) => {
+    http.get(url, (res) => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode));
+    }).on('error', reject);
+  });
+}
+
+async function main() {
+  const { PulsoidAuth } = loadPulsoidAuth();
+  const challenges = new Map();
+  const { server, tokenRequests, port } = await startAuthServer(challenges);
+  const store = createStore();
+  const auth = new PulsoidAuth(store, CLIENT_ID, {
+    authorizeUrl: 'http://127.0.0.1:1/authorize',
+    tokenUrl: `http://127.0.0.1:${port}/token`,
+  });
+
+  try {
+    // 模拟浏览器：先命中一次 state 错误的回调，再完成正确的授权回调
+    await auth.signIn({
+      clientId: CLIENT_ID,
+      redirectPort: REDIRECT_PORT,
+      openBrowser: async (url) => {
+        const authorize = new URL(url);
+        assert.strictEqual(authorize.searchParams.get('code_challenge_method'), 'S256');
+        assert.ok(authorize.searchParams.get('code_challenge'));
+        const redirectUri = new URL(authorize.searchParams.get('redirect_uri'));
+        assert.strictEqual(redirectUri.hostname, '127.0.0.1');
+
+        challenges.set('code-1', authorize.searchParams.get('code_challenge'));
+        setTimeout(async () => {
+          const stale = new URL(redirectUri);
+          stale.searchParams.set('code', 'stale');
+          stale.searchParams.set('state', 'wrong-state');
+          assert.strictEqual(await get(stale), 400);
+
+          const callback = new URL(redirectUri);
+          callback.searchParams.set('code', 'code-1');
+          callback.searchParams.set('state', authorize.searchParams.get('state'));
+          assert.strictEqual(await get(callback), 200);
+        }, 50);
+        return true;
+      },
+    });
+
+    assert.strictEqual(store.data.get('pulsoidToken'), 'access-1');
+    assert.strictEqual(store.data.get('pulsoidRefreshToken'), 'refresh-1');
+    assert.ok(Number(store.data.get('pulsoidTokenExpiresAt')) > Date.now());
+    console.log('✅ 授权码 + PKCE 登录成功，state 错误的回调被忽略');
+
+    assert.strictEqual(await auth.refresh(), true);
+    assert.strictEqual(store.data.get('pulsoidToken'), 'access-2');
+    assert.strictEqual(store.data.get('pulsoidRefreshToken'), 'refresh-1');
+    console.log('✅ Refresh Token 续期成功');
+
+    assert.ok(tokenRequests.every((params) => params.client_id === CLIENT_ID && !('client_secret' in params)));
+    console.log('✅ Token 请求未携带 Client Secret');
+  } finally {
+    server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});